@@ -95,36 +95,35 @@ namespace KIP.Dates {
 	 * @param signed - True if we should compare the dates in order (e.g. Date A - Date B)
 	 * @param includeTime - If true, also compares the time
 	 * @param returnMilli - Returns the date difference in milliseconds instead of days
+	 * @param calendar - The working week & holidays to use; defaults to Monday - Friday without holidays
 	 * @returns The business-date diff between the 2 dates
 	 */
-	export function businessDateDiff(a: Date, b: Date, signed?: boolean, includeTime?: boolean, returnMilli?: boolean): number {
+	export function businessDateDiff(a: Date, b: Date, signed?: boolean, includeTime?: boolean, returnMilli?: boolean, calendar?: HolidayCalendar): number {
 		"use strict";
 		let diff: number;
-		let dayOfWeek: number;
+		let days: number;
 		let dir: number;
 		let idx: number;
 
+		if (!calendar) { calendar = getDefaultHolidayCalendar(); }
+
 		// Calculate the standard date
 		diff = dateDiff(a, b, signed, includeTime, returnMilli);
+		days = returnMilli ? (dateDiff(a, b, signed, includeTime, false)) : diff;
 
-		// Grab the 2nd day of the week, because we skip the first day
-		dayOfWeek = (b > a? a.getDay() : b.getDay()) + 1;
-		dayOfWeek %= 7;
-		if (dayOfWeek < 0) { dayOfWeek = 6; }
+		// Start from the earlier date, skipping the first day
+		let curDate: Date = new Date((b > a ? a : b) as any);
+		curDate.setHours(0, 0, 0, 0);
 
-		// Loop through the days between the two dates and pull out any weekend days
-		let weekendDays: number = 0;
-		for (idx = 0; idx < Math.abs(diff); idx += 1) {
+		// Loop through the days between the two dates and pull out any non-working days
+		let nonWorkingDays: number = 0;
+		for (idx = 0; idx < Math.abs(days); idx += 1) {
+			addToDate(curDate, { days: 1 });
 
-			// If this day is a weekend, add it to the # of weekend days
-			if (dayOfWeek === 0 || dayOfWeek === 6) {
-				weekendDays += 1;
+			// If this day is a weekend or holiday, add it to the # of non-working days
+			if (!calendar.isWorkingDay(curDate)) {
+				nonWorkingDays += 1;
 			}
-
-			// grab the next day, based on the date direction
-			dayOfWeek += 1;
-			dayOfWeek %= 7;
-			if (dayOfWeek < 0) { dayOfWeek = 6; }
 		}
 
 		// determine if we need to add or subtract to change the dates
@@ -133,7 +132,9 @@ namespace KIP.Dates {
 		} else {
 			dir = 1;
 		}
-		return diff - (weekendDays * dir);
+
+		if (returnMilli) { nonWorkingDays *= (1000 * 60 * 60 * 24); }
+		return diff - (nonWorkingDays * dir);
 
 	};
 
@@ -309,6 +310,30 @@ namespace KIP.Dates {
 
 	};
 
+	/**
+	 * Moves a date forward (or backward) by a number of business days, skipping weekends and holidays
+	 * @param date - The date to move; this date is modified
+	 * @param days - How many business days to move by; negative values move backwards
+	 * @param calendar - The working week & holidays to use; defaults to Monday - Friday without holidays
+	 * @returns The updated date
+	 */
+	export function addBusinessDaysToDate(date: Date, days: number, calendar?: HolidayCalendar): Date {
+		if (!calendar) { calendar = getDefaultHolidayCalendar(); }
+
+		let dir: number = (days < 0) ? -1 : 1;
+		let remaining: number = Math.floor(Math.abs(days));
+
+		// a calendar without working days would never finish
+		if (calendar.workingDays.length === 0) { return date; }
+
+		while (remaining > 0) {
+			addToDate(date, { days: dir });
+			if (calendar.isWorkingDay(date)) { remaining -= 1; }
+		}
+
+		return date;
+	};
+
 	/** 
 	 * gets the name of the month given a particular date
 	 * @param date - the date to get the month from
@@ -395,7 +420,9 @@ namespace KIP.Dates {
 		return (+date.getFullYear() % 100);
 	}
 
-	export function isWeekend (date: Date): boolean {
+	export function isWeekend (date: Date, calendar?: HolidayCalendar): boolean {
+		if (calendar) { return calendar.isWeekend(date); }
+
 		let dayOfWeek: number = date.getDay();
 		if (dayOfWeek === 0) { return true; }	// SUNDAY
 		if (dayOfWeek === 6) { return true; }	// SATURDAY
@@ -0,0 +1,440 @@
+///<reference path="dates.ts" />
+namespace KIP.Dates {
+
+	//#region INTERFACES
+
+	/**...........................................................................
+	 * IHolidayRule
+	 * ...........................................................................
+	 * Describe when a holiday falls in any given year
+	 * ...........................................................................
+	 */
+	export interface IHolidayRule {
+
+		/** the display name of the holiday */
+		name: string;
+
+		/** find the date the holiday falls on in a year, or null if it doesn't occur that year */
+		getDate(year: number): Date;
+	}
+
+	/**...........................................................................
+	 * IHoliday
+	 * ...........................................................................
+	 * A holiday that falls on a specific date
+	 * ...........................................................................
+	 */
+	export interface IHoliday {
+		name: string;
+		date: Date;
+	}
+
+	/**...........................................................................
+	 * IHolidayCalendarOptions
+	 * ...........................................................................
+	 * Options for creating a holiday calendar
+	 * ...........................................................................
+	 */
+	export interface IHolidayCalendarOptions {
+
+		/** the days of the week (0 = Sunday) that are worked; defaults to Monday - Friday */
+		workingDays?: number[];
+
+		/** the holidays observed by this calendar */
+		rules?: IHolidayRule[];
+
+		/** other calendars whose holidays should also be observed (e.g. a country's calendar for a region) */
+		includes?: HolidayCalendar[];
+	}
+
+	//#endregion
+
+	//#region RULES
+
+	/**...........................................................................
+	 * fixedHoliday
+	 * ...........................................................................
+	 * Create a holiday that falls on the same date every year, or on a single
+	 * date if a year is specified
+	 *
+	 * @param	name	The name of the holiday
+	 * @param	month	The month of the holiday (0 = January)
+	 * @param	day		The day of the month of the holiday
+	 * @param	year	If provided, the only year the holiday occurs in
+	 *
+	 * @returns	The rule for the holiday
+	 * ...........................................................................
+	 */
+	export function fixedHoliday(name: string, month: number, day: number, year?: number): IHolidayRule {
+		return {
+			name: name,
+			getDate: (forYear: number) => {
+				if (!isNullOrUndefined(year) && (year !== forYear)) { return null; }
+				return new Date(forYear, month, day);
+			}
+		};
+	}
+
+	/**...........................................................................
+	 * nthWeekdayHoliday
+	 * ...........................................................................
+	 * Create a holiday that falls on a particular weekday of a month, such as
+	 * the 4th Thursday of November, or the last Monday of May
+	 *
+	 * @param	name	The name of the holiday
+	 * @param	month	The month of the holiday (0 = January)
+	 * @param	weekday	The day of the week of the holiday (0 = Sunday)
+	 * @param	nth		Which occurrence of the weekday to use; negative values
+	 * 					count from the end of the month (-1 = last)
+	 *
+	 * @returns	The rule for the holiday
+	 * ...........................................................................
+	 */
+	export function nthWeekdayHoliday(name: string, month: number, weekday: number, nth: number): IHolidayRule {
+		return {
+			name: name,
+			getDate: (year: number) => {
+				let out: Date;
+
+				if (nth > 0) {
+					let first: Date = new Date(year, month, 1);
+					let offset: number = (weekday - first.getDay() + 7) % 7;
+					out = new Date(year, month, 1 + offset + ((nth - 1) * 7));
+				} else {
+					let last: Date = new Date(year, month + 1, 0);
+					let offset: number = (last.getDay() - weekday + 7) % 7;
+					out = new Date(year, month, last.getDate() - offset + ((nth + 1) * 7));
+				}
+
+				// there isn't always a 5th occurrence of a weekday
+				if (out.getMonth() !== month) { return null; }
+				return out;
+			}
+		};
+	}
+
+	/**...........................................................................
+	 * observedHoliday
+	 * ...........................................................................
+	 * Wrap a holiday so that when it lands on a weekend, it is observed on the
+	 * nearest weekday instead (Saturday moves to Friday, Sunday to Monday)
+	 *
+	 * @param	rule	The holiday to observe
+	 *
+	 * @returns	The rule for the observed holiday
+	 * ...........................................................................
+	 */
+	export function observedHoliday(rule: IHolidayRule): IHolidayRule {
+		return {
+			name: rule.name,
+			getDate: (year: number) => {
+				let date: Date = rule.getDate(year);
+				if (!date) { return null; }
+
+				if (date.getDay() === 6) { return addToDate(date, { days: -1 }); }
+				if (date.getDay() === 0) { return addToDate(date, { days: 1 }); }
+				return date;
+			}
+		};
+	}
+
+	//#endregion
+
+	/**...........................................................................
+	 * @class HolidayCalendar
+	 * ...........................................................................
+	 * Keep track of which days are worked: which days of the week make up the
+	 * working week, and which holidays are observed
+	 * @version 1.0
+	 * ...........................................................................
+	 */
+	export class HolidayCalendar {
+
+		//#region PROPERTIES
+
+		/** the days of the week that are worked */
+		protected _workingDays: boolean[];
+		public get workingDays(): number[] {
+			let out: number[] = [];
+			for (let i = 0; i < 7; i += 1) {
+				if (this._workingDays[i]) { out.push(i); }
+			}
+			return out;
+		}
+		public set workingDays(days: number[]) {
+			this._workingDays = [];
+			for (let i = 0; i < 7; i += 1) {
+				this._workingDays[i] = (days.indexOf(i) !== -1);
+			}
+		}
+
+		/** the holidays specific to this calendar */
+		protected _rules: IHolidayRule[];
+
+		/** the calendars whose holidays are also observed */
+		protected _includes: HolidayCalendar[];
+
+		/** holiday names by date, calculated a year at a time */
+		protected _cache: { [year: number]: { [dateKey: string]: string } };
+
+		/** how many times this calendar's holidays have changed */
+		protected _changeCount: number;
+
+		/** which version of the holidays the cache was built from */
+		protected _cacheVersion: number;
+
+		/** changes whenever the holidays of this or any included calendar change */
+		public get version(): number {
+			let out: number = this._changeCount;
+			for (let calendar of this._includes) { out += calendar.version; }
+			return out;
+		}
+
+		//#endregion
+
+		/**...........................................................................
+		 * Create a holiday calendar
+		 *
+		 * @param	options		The working week & holidays to use
+		 * ...........................................................................
+		 */
+		constructor(options?: IHolidayCalendarOptions) {
+			options = reconcileOptions(options, {
+				workingDays: [1, 2, 3, 4, 5],
+				rules: [],
+				includes: []
+			});
+
+			this.workingDays = options.workingDays;
+			this._rules = options.rules.slice();
+			this._includes = options.includes.slice();
+			this._cache = {};
+			this._changeCount = 0;
+		}
+
+		//#region ADD HOLIDAYS
+
+		/**...........................................................................
+		 * addRule
+		 * ...........................................................................
+		 * Observe another holiday in this calendar
+		 *
+		 * @param	rule	The holiday to observe
+		 * ...........................................................................
+		 */
+		public addRule(rule: IHolidayRule): void {
+			this._rules.push(rule);
+			this._changeCount += 1;
+		}
+
+		/**...........................................................................
+		 * include
+		 * ...........................................................................
+		 * Also observe all holidays from another calendar
+		 *
+		 * @param	calendar	The calendar to include
+		 * ...........................................................................
+		 */
+		public include(calendar: HolidayCalendar): void {
+			this._includes.push(calendar);
+			this._changeCount += 1;
+		}
+
+		//#endregion
+
+		//#region CHECK DATES
+
+		/**...........................................................................
+		 * getHolidayName
+		 * ...........................................................................
+		 * Find the holiday that falls on a particular date
+		 *
+		 * @param	date	The date to check
+		 *
+		 * @returns	The name of the holiday, or an empty string if there isn't one
+		 * ...........................................................................
+		 */
+		public getHolidayName(date: Date): string {
+			let holidays = this._getHolidaysForYear(date.getFullYear());
+			return holidays[HolidayCalendar._getDateKey(date)] || "";
+		}
+
+		/**...........................................................................
+		 * isHoliday
+		 * ...........................................................................
+		 * Check whether a holiday falls on a particular date
+		 *
+		 * @param	date	The date to check
+		 *
+		 * @returns	True if the date is a holiday
+		 * ...........................................................................
+		 */
+		public isHoliday(date: Date): boolean {
+			return !!this.getHolidayName(date);
+		}
+
+		/**...........................................................................
+		 * isWeekend
+		 * ...........................................................................
+		 * Check whether a date falls outside of the working week
+		 *
+		 * @param	date	The date to check
+		 *
+		 * @returns	True if the day of the week isn't worked
+		 * ...........................................................................
+		 */
+		public isWeekend(date: Date): boolean {
+			return !this._workingDays[date.getDay()];
+		}
+
+		/**...........................................................................
+		 * isWorkingDay
+		 * ...........................................................................
+		 * Check whether a date is a business day
+		 *
+		 * @param	date	The date to check
+		 *
+		 * @returns	True if the date is neither a weekend nor a holiday
+		 * ...........................................................................
+		 */
+		public isWorkingDay(date: Date): boolean {
+			return !this.isWeekend(date) && !this.isHoliday(date);
+		}
+
+		/**...........................................................................
+		 * getHolidays
+		 * ...........................................................................
+		 * Find all holidays observed in a particular year
+		 *
+		 * @param	year	The year to get holidays for
+		 *
+		 * @returns	The holidays in the year, in date order
+		 * ...........................................................................
+		 */
+		public getHolidays(year: number): IHoliday[] {
+			let out: IHoliday[] = [];
+
+			let holidays = this._getHolidaysForYear(year);
+			for (let key in holidays) {
+				if (!holidays.hasOwnProperty(key)) { continue; }
+				let parts: string[] = key.split("-");
+				out.push({
+					name: holidays[key],
+					date: new Date(+parts[0], +parts[1], +parts[2])
+				});
+			}
+
+			out.sort((a: IHoliday, b: IHoliday) => (+a.date) - (+b.date));
+			return out;
+		}
+
+		//#endregion
+
+		//#region HELPERS
+
+		/** calculate (or retrieve) the holidays that fall in a particular year */
+		protected _getHolidaysForYear(year: number): { [dateKey: string]: string } {
+			let version: number = this.version;
+			if (version !== this._cacheVersion) {
+				this._cache = {};
+				this._cacheVersion = version;
+			}
+			if (this._cache[year]) { return this._cache[year]; }
+
+			let out: { [dateKey: string]: string } = {};
+
+			// included calendars are applied first, so our own names win
+			for (let calendar of this._includes) {
+				let included = calendar._getHolidaysForYear(year);
+				for (let key in included) {
+					if (!included.hasOwnProperty(key)) { continue; }
+					out[key] = included[key];
+				}
+			}
+
+			// observed dates can cross into the neighboring years (e.g. a Saturday
+			// New Year's Day is observed on December 31st), so check those too
+			for (let rule of this._rules) {
+				for (let ruleYear = year - 1; ruleYear <= year + 1; ruleYear += 1) {
+					let date: Date = rule.getDate(ruleYear);
+					if (!date || (date.getFullYear() !== year)) { continue; }
+					out[HolidayCalendar._getDateKey(date)] = rule.name;
+				}
+			}
+
+			this._cache[year] = out;
+			return out;
+		}
+
+		/** create a time-agnostic key for a date */
+		private static _getDateKey(date: Date): string {
+			return date.getFullYear() + "-" + date.getMonth() + "-" + date.getDate();
+		}
+
+		//#endregion
+	}
+
+	//#region REGIONS
+
+	/** calendars that have been registered for particular regions */
+	let _regionCalendars: { [region: string]: HolidayCalendar } = {};
+
+	/** the calendar used when none is specified: Monday - Friday, no holidays */
+	let _defaultCalendar: HolidayCalendar;
+
+	/**...........................................................................
+	 * registerHolidayCalendar
+	 * ...........................................................................
+	 * Make a holiday calendar available for a particular region
+	 *
+	 * @param	region		The name of the region (e.g. "US" or "US-CA")
+	 * @param	calendar	The calendar for the region
+	 * ...........................................................................
+	 */
+	export function registerHolidayCalendar(region: string, calendar: HolidayCalendar): void {
+		_regionCalendars[region] = calendar;
+	}
+
+	/**...........................................................................
+	 * getHolidayCalendar
+	 * ...........................................................................
+	 * Find the holiday calendar for a region
+	 *
+	 * @param	region	The region to get the calendar for; if not provided,
+	 * 					the default calendar is returned
+	 *
+	 * @returns	The calendar for the region, or null if none is registered
+	 * ...........................................................................
+	 */
+	export function getHolidayCalendar(region?: string): HolidayCalendar {
+		if (!region) { return getDefaultHolidayCalendar(); }
+		return _regionCalendars[region] || null;
+	}
+
+	/**...........................................................................
+	 * getDefaultHolidayCalendar
+	 * ...........................................................................
+	 * Get the calendar to use when none is specified
+	 *
+	 * @returns	The default calendar
+	 * ...........................................................................
+	 */
+	export function getDefaultHolidayCalendar(): HolidayCalendar {
+		if (!_defaultCalendar) { _defaultCalendar = new HolidayCalendar(); }
+		return _defaultCalendar;
+	}
+
+	/**...........................................................................
+	 * setDefaultHolidayCalendar
+	 * ...........................................................................
+	 * Change the calendar to use when none is specified
+	 *
+	 * @param	calendar	The new default calendar
+	 * ...........................................................................
+	 */
+	export function setDefaultHolidayCalendar(calendar: HolidayCalendar): void {
+		_defaultCalendar = calendar;
+	}
+
+	//#endregion
+}
@@ -3,65 +3,91 @@ namespace KIP {
         (resolve: Function, reject: Function) : any;
     }
 
+    /** the states a promise can be in */
+    export enum KipPromiseState {
+        PENDING = 0,
+        RESOLVED = 1,
+        REJECTED = 2
+    };
+
+    /** a callback waiting on the result of a promise */
+    export interface IKipPromiseListener {
+        onThen: Function;
+        onCatch: Function;
+        resolve: Function;
+        reject: Function;
+    }
+
     /**...........................................................................
      * @class KipPromise
      * Create a promise class to run async calls in a chained fashion
-     * @version 1.0
+     * @version 1.1
      * ...........................................................................
      */
     export class KipPromise implements Promise<any> {
 
-        /** keep track of what this promise should do after completion */
-        protected _thenListener: Function;
+        /** whether this promise has completed yet */
+        protected _state: KipPromiseState;
 
-        /** keep track of what this promise should do after an error */
-        protected _catchListener: Function;
+        /** the value (or error) this promise completed with */
+        protected _value: any;
+
+        /** keep track of what should run after this promise completes */
+        protected _listeners: IKipPromiseListener[];
 
         /**...........................................................................
          * Creates a promise elements that runs a bit of code asynchronously
-         * 
-         * @param   func    The code to run 
+         *
+         * @param   func    The code to run
          * ...........................................................................
          */
         public constructor (func: KipPromiseFunction) {
+            this._state = KipPromiseState.PENDING;
+            this._listeners = [];
+
+            // only the first call to either callback counts
+            let isDone: boolean = false;
             try {
                 func(
-                    (...params: any[]) => { this._resolve(params); },
-                    (...params: any[]) => { this._reject(params); }
+                    (value?: any) => { if (isDone) { return; } isDone = true; this._resolve(value); },
+                    (reason?: any) => { if (isDone) { return; } isDone = true; this._reject(reason); }
                 );
             } catch (e) {
-                this._reject(e);
+                if (!isDone) { isDone = true; this._reject(e); }
             }
         }
 
         /**...........................................................................
          * then
          * ...........................................................................
-         * Public function to setup what should run after this promise completes
-         * 
+         * Public function to setup what should run after this promise completes.
+         * Can be called any number of times, including after completion.
+         *
          * @param   onThen  The function to run on completion
-         * 
-         * @returns This promise
+         * @param   onCatch If provided, the function to run on failure
+         *
+         * @returns A promise for whatever the listener returns
          * ...........................................................................
          */
-        public then(onThen: Function): KipPromise {
-            this._thenListener = onThen;
-            return this;
+        public then(onThen?: Function, onCatch?: Function): KipPromise {
+            return new KipPromise((resolve: Function, reject: Function) => {
+                this._listeners.push({ onThen, onCatch, resolve, reject });
+                this._notify();
+            });
         }
-        
+
         /**...........................................................................
          * catch
          * ...........................................................................
          * Register the function that should catch any errors that occur
-         * 
+         *
          * @param   onCatch     The function that will handle catching
-         * 
-         * @returns This promise
+         *
+         * @returns A promise for whatever the handler returns
          * ...........................................................................
          */
         public catch(onCatch: Function): KipPromise {
-            this._catchListener = onCatch;
-            return this;
+            return this.then(null, onCatch);
         }
 
 
@@ -69,53 +95,132 @@ namespace KIP {
          * resolve
          * ...........................................................................
          * Called when the promise has been successfully resolved
-         * @param params 
+         * @param value     What the promise resolved with; if this is itself a
+         *                  promise, wait for it instead
          * ...........................................................................
          */
-        protected _resolve(...params: any[]): void {
-            window.setTimeout(() => {
-                if (!this._thenListener) { return; }
-                this._thenListener(params);
-            }, 0);
+        protected _resolve(value?: any): void {
+            if (this._state !== KipPromiseState.PENDING) { return; }
+
+            if (value && (typeof value.then === "function")) {
+                if (value === this) {
+                    this._reject(new TypeError("a promise cannot resolve with itself"));
+                    return;
+                }
+
+                // only listen to the first result of the inner promise
+                let isDone: boolean = false;
+                try {
+                    value.then(
+                        (innerValue: any) => { if (isDone) { return; } isDone = true; this._resolve(innerValue); },
+                        (innerReason: any) => { if (isDone) { return; } isDone = true; this._reject(innerReason); }
+                    );
+                } catch (e) {
+                    if (!isDone) { isDone = true; this._reject(e); }
+                }
+                return;
+            }
+
+            this._settle(KipPromiseState.RESOLVED, value);
         }
 
         /**...........................................................................
          * _reject
          * ...........................................................................
          * Called when the promise failed to resolve for some reason
-         * @param params 
+         * @param reason    Why the promise failed
+         * ...........................................................................
+         */
+        protected _reject(reason?: any): void {
+            if (this._state !== KipPromiseState.PENDING) { return; }
+            this._settle(KipPromiseState.REJECTED, reason);
+        }
+
+        /**...........................................................................
+         * _settle
+         * ...........................................................................
+         * Record the result of this promise and let any listeners know
+         * ...........................................................................
+         */
+        protected _settle(state: KipPromiseState, value: any): void {
+            if (this._state !== KipPromiseState.PENDING) { return; }
+            this._state = state;
+            this._value = value;
+            this._notify();
+        }
+
+        /**...........................................................................
+         * _notify
+         * ...........................................................................
+         * Run any waiting listeners, if the promise has completed. Listeners
+         * always run asynchronously, even if the promise is already complete.
          * ...........................................................................
          */
-        protected _reject(...params: any[]): void {
+        protected _notify(): void {
+            if (this._state === KipPromiseState.PENDING) { return; }
+
             window.setTimeout(() => {
-                if (!this._catchListener) { return; }
-                this._catchListener(params);
+                let listeners: IKipPromiseListener[] = this._listeners;
+                this._listeners = [];
+
+                for (let listener of listeners) {
+                    this._runListener(listener);
+                }
             }, 0);
         }
 
+        /**...........................................................................
+         * _runListener
+         * ...........................................................................
+         * Pass the result of this promise to a listener, and use what the
+         * listener returns to complete the promise it was given
+         * ...........................................................................
+         */
+        protected _runListener(listener: IKipPromiseListener): void {
+            let isResolved: boolean = (this._state === KipPromiseState.RESOLVED);
+            let handler: Function = isResolved ? listener.onThen : listener.onCatch;
+
+            // without a handler, pass the result along the chain
+            if (typeof handler !== "function") {
+                if (isResolved) { listener.resolve(this._value); }
+                else { listener.reject(this._value); }
+                return;
+            }
+
+            try {
+                listener.resolve(handler(this._value));
+            } catch (e) {
+                listener.reject(e);
+            }
+        }
+
         /**...........................................................................
          * resolve
          * ...........................................................................
-         * return a promise that will immediately resolve 
-         * 
-         * @param   any arguments that should be passed to the resolve function
+         * return a promise that will immediately resolve. If given another
+         * promise (of any kind), the returned promise resolves with its result.
+         *
+         * @param   value   What the promise should resolve with
          * ...........................................................................
          */
-        public static resolve(...params: any[]): KipPromise {
-            let promise: KipPromise = new KipPromise((resolve,reject) => {resolve(params); });
+        public static resolve(value?: any): KipPromise {
+            if (value instanceof KipPromise) { return value; }
+            let promise: KipPromise = new KipPromise((resolve,reject) => {resolve(value); });
             return promise;
         }
 
         /**...........................................................................
          * reject
          * ...........................................................................
-         * return a promise that will be rejected 
+         * return a promise that will be rejected
+         *
+         * @param   reason  Why the promise failed
          * ...........................................................................
          */
-        public static reject(...params: any[]): KipPromise {
-            let promise: KipPromise = new KipPromise((resolve, reject) => { reject(params); });
+        public static reject(reason?: any): KipPromise {
+            let promise: KipPromise = new KipPromise((resolve, reject) => { reject(reason); });
             return promise;
         }
 
     }
-}
\ No newline at end of file
+}
@@ -220,6 +220,7 @@ namespace KIP {
      */
     function _sendGetRequest (request: XMLHttpRequest, url: string) : XMLHttpRequest {
         request.open("GET", url, true);
+        request.send();
         return request;
     }
 
@@ -210,4 +210,57 @@ namespace KIP {
 	};
 
 
+	/**...........................................................................
+	 * fuzzyScore
+	 * ...........................................................................
+	 * Determine how closely some text matches a search string. Exact matches 
+	 * score best, followed by text that contains all of the search's characters 
+	 * in order.
+	 * 
+	 * @param	query	The search string
+	 * @param	text	The text to score against the search
+	 * 
+	 * @returns	The score for the text (higher is better), or -1 if it doesn't match
+	 * ...........................................................................
+	 */
+	export function fuzzyScore(query: string, text: string): number {
+		if (!query) { return 0; }
+		if (!text) { return -1; }
+
+		query = query.toLowerCase();
+		text = text.toLowerCase();
+
+		// substrings beat anything else, especially at the start of a word
+		let idx: number = text.indexOf(query);
+		if (idx !== -1) {
+			let score: number = 100 + query.length;
+			if (idx === 0) { score += 50; }
+			else if (_isWordBoundary(text, idx)) { score += 25; }
+			return score;
+		}
+
+		// otherwise, every character needs to appear in order
+		let score: number = 0;
+		let lastMatch: number = -2;
+		for (let i = 0; i < query.length; i += 1) {
+			let found: number = text.indexOf(query.charAt(i), lastMatch + 1);
+			if (found === -1) { return -1; }
+
+			if (found === lastMatch + 1) { score += 5; }
+			else if (_isWordBoundary(text, found)) { score += 3; }
+			else { score += 1; }
+
+			lastMatch = found;
+		}
+
+		// this needs to stay below the substring scores
+		return Math.min(score, 99);
+	}
+
+	/** check whether a character in a string starts a new word */
+	function _isWordBoundary(text: string, idx: number): boolean {
+		if (idx === 0) { return true; }
+		return /[\s_\-.,\/]/.test(text.charAt(idx - 1));
+	}
+
 }
\ No newline at end of file
@@ -1,5 +1,9 @@
 ///<reference path="../../helpers/html.ts" />
 ///<reference path="../drawable.ts" />
+///<reference path="canvasAnimation.ts" />
+///<reference path="../gestures.ts" />
+///<reference path="canvasSelection.ts" />
+///<reference path="canvasManipulation.ts" />
 namespace KIP {
 
 	//#region INTERFACES
@@ -38,6 +42,25 @@ namespace KIP {
 		SIZE?: IDimensions;
 		MAX_ZOOM?: IPoint;
 		MIN_ZOOM?: IPoint;
+		FULL_REDRAW_THRESHOLD?: number;
+		DOUBLE_TAP_ZOOM?: number;
+		KEY_PAN_AMOUNT?: number;
+		FOCUS_RING_COLOR?: string;
+		FOCUS_RING_WIDTH?: number;
+	}
+
+	/** the current version of the serialized canvas format */
+	export const CANVAS_JSON_VERSION: number = 1;
+
+	/**...........................................................................
+	 * ICanvasSceneJSON
+	 * ...........................................................................
+	 * Serializable version of everything drawn on a canvas
+	 * ...........................................................................
+	 */
+	export interface ICanvasSceneJSON {
+		version: number;
+		layers: ICanvasElementJSON[];
 	}
 
 	/**...........................................................................
@@ -49,6 +72,7 @@ namespace KIP {
 	export interface IHTML5CanvasElems extends IDrawableElements {
 		base: HTMLCanvasElement;
 		effectCanvas: HTMLCanvasElement;
+		description: HTMLElement;
 	}
 	//#endregion
 	
@@ -85,10 +109,35 @@ namespace KIP {
 		private _startDragPoint: IPoint;
 		private _deltaDragPoint: IPoint;
 
+		/** tracks touch gestures (pan, pinch, double-tap, long-press) on the canvas */
+		private _gestures: GestureTracker;
+
 		/** determine if there is something we need to redraw */
 		protected _needsRedraw: boolean;
 		public get needsRedraw (): boolean { return this._needsRedraw; }
-		public set needsRedraw( value: boolean) { this._needsRedraw = value; }
+		public set needsRedraw( value: boolean) { 
+			this._needsRedraw = value; 
+			if (value) { this._needsFullRedraw = true; }
+		}
+
+		/** true if the whole canvas needs to be repainted, not just the dirty regions */
+		protected _needsFullRedraw: boolean;
+
+		/** regions of the canvas (in relative space) that need to be repainted */
+		protected _dirtyRegions: IBasicRect[];
+
+		/** the regions currently being repainted; null if the whole canvas is */
+		protected _repaintRegions: IBasicRect[];
+		public get isRepaintingRegions(): boolean { return !!this._repaintRegions; }
+
+		/** animations that are running (or waiting to run) on the canvas */
+		protected _animations: CanvasAnimation[];
+
+		/** the most recent camera animation, so new ones can be queued after it */
+		protected _lastViewAnimation: CanvasAnimation;
+
+		/** when animations were last stepped, to keep them to the render rate */
+		private _lastAnimationTime: number;
 
 		/** elements for the canvas */
 		protected _elems: IHTML5CanvasElems;
@@ -111,10 +160,30 @@ namespace KIP {
 		protected _layers: CanvasGroup[];
 		public get layers(): CanvasGroup[] { return this._layers; }
 
-		/** overridable function for what should happen when the canvas is in the process of rendering */
+		/** overridable function for what should happen before the whole canvas is rendered */
 		protected _onPreRender: Function;
 		public set onPreRender (preRender: Function) { this._onPreRender = preRender; }
 
+		/** the element that currently has keyboard focus */
+		protected _focusedElement: CanvasElement;
+		public get focusedElement (): CanvasElement { return this._focusedElement; }
+
+		/** how far outside of an element its focus ring extends */
+		public get focusRingPadding (): number { return this._options.FOCUS_RING_WIDTH * 2; }
+
+		/** which elements are selected, if selection is enabled */
+		protected _selection: CanvasSelection;
+		public get selection (): CanvasSelection { return this._selection; }
+
+		/** how far outside of an element its selection outline extends */
+		public get selectionPadding (): number { return this._selection ? this._selection.outlinePadding : 0; }
+
+		/** lets elements be dragged & resized directly; only created once an element allows it */
+		protected _manipulator: CanvasManipulator;
+
+		/** how far outside of an element its resize handles extend */
+		public get handlePadding (): number { return this._manipulator ? this._manipulator.handlePadding : 0; }
+
 		/** internal variable to track whether this canvas has found iniital dimensions yet */
 		private _needsInitialDimensions: boolean
 
@@ -138,6 +207,12 @@ namespace KIP {
 			this._layers = [];
 
 			this._needsInitialDimensions = true;
+
+			// nothing has been painted yet, so everything is dirty
+			this._dirtyRegions = [];
+			this._needsFullRedraw = true;
+
+			this._animations = [];
 			
 			this._reconcileOptions(options);	// Pull in user options
 			this._initializeRectangles();		// Initialize the viewing rectangles
@@ -195,7 +270,13 @@ namespace KIP {
 				MIN_ZOOM: {
 					x: 0.1,
 					y: 0.1
-				}
+				},
+
+				FULL_REDRAW_THRESHOLD: 0.5,
+				DOUBLE_TAP_ZOOM: 2,
+				KEY_PAN_AMOUNT: 40,
+				FOCUS_RING_COLOR: "#005FCC",
+				FOCUS_RING_WIDTH: 2
 			};
 			return defaults;
 		}
@@ -251,9 +332,13 @@ namespace KIP {
 			// create the canvas elements
 			this._elems = {
 				base: this._createCanvas(),
-				effectCanvas: this._createCanvas(true)
+				effectCanvas: this._createCanvas(true),
+				description: this._createDescription()
 			};
 
+			// the base canvas receives keyboard events for the whole scene
+			this._elems.base.tabIndex = 0;
+
 			// create the contexts for each
 			this._context = this._elems.base.getContext("2d");
 			this._effectContext = this._elems.effectCanvas.getContext("2d");
@@ -285,6 +370,34 @@ namespace KIP {
 
 			return canvas;
 		}
+
+		/**...........................................................................
+		 * _createDescription
+		 * ...........................................................................
+		 * create the offscreen region that announces the focused element to 
+		 * screen readers
+		 * 
+		 * @returns	The element that holds the description
+		 * ...........................................................................
+		 */
+		protected _createDescription (): HTMLElement {
+			let elem: HTMLElement = createElement({
+				cls: "canvasDescription",
+				attr: {
+					role: "status",
+					"aria-live": "polite"
+				}
+			});
+
+			// keep it readable by assistive tech, but out of sight
+			elem.style.position = "absolute";
+			elem.style.left = "-10000px";
+			elem.style.width = "1px";
+			elem.style.height = "1px";
+			elem.style.overflow = "hidden";
+
+			return elem;
+		}
 		//#endregion
 
 		//#region DRAWING COMMANDS
@@ -300,9 +413,21 @@ namespace KIP {
 		public draw(parent?: HTMLElement): void {
 			super.draw(parent);
 			parent.appendChild(this._elems.effectCanvas);
+			parent.appendChild(this._elems.description);
 
 			// flag that we need to redraw instead of calling it directly
-			this._needsRedraw = true;
+			this.needsRedraw = true;
+		}
+
+		/**...........................................................................
+		 * erase
+		 * ...........................................................................
+		 * remove the canvas, stopping any drag that is still in progress
+		 * ...........................................................................
+		 */
+		public erase(): void {
+			super.erase();
+			if (this._manipulator) { this._manipulator.cancelDrag(); }
 		}
 
 		/**...........................................................................
@@ -327,13 +452,81 @@ namespace KIP {
 			// first clear the canvas
 			this.clear();
 
-			// then loop through each of the layers in order
+			// then draw everything
+			this._drawLayers();
+		}
+
+		/**...........................................................................
+		 * _drawDirtyRegions
+		 * ...........................................................................
+		 * repaint only the parts of the canvas that have changed
+		 * 
+		 * @param	regions		The regions to repaint, in relative space
+		 * ...........................................................................
+		 */
+		private _drawDirtyRegions(regions: IBasicRect[]): void {
+			this._repaintRegions = regions;
+
+			// clear out each region, and make sure nothing is drawn outside of them
+			let contexts: CanvasRenderingContext2D[] = [this._context, this._effectContext];
+			for (let context of contexts) {
+				context.save();
+				context.beginPath();
+				for (let region of this._repaintRegions) {
+					context.clearRect(region.x, region.y, region.w, region.h);
+					context.rect(region.x, region.y, region.w, region.h);
+				}
+				context.clip();
+			}
+
+			this._drawLayers();
+
+			for (let context of contexts) {
+				context.restore();
+			}
+			this._repaintRegions = null;
+		}
+
+		/**...........................................................................
+		 * _drawLayers
+		 * ...........................................................................
+		 * loop through each of the layers in order and draw them
+		 * ...........................................................................
+		 */
+		private _drawLayers(): void {
 			let layer: CanvasGroup;
 			for (layer of this._layers) {
 				if (!layer) { continue; }
 				layer.updateDimensions(this._relativeView);
 				layer.draw();
 			}
+
+			if (this._selection) { this._selection.draw(this._effectContext); }
+			this._drawFocusRing();
+			if (this._manipulator) { this._manipulator.draw(this._effectContext); }
+		}
+
+		/**...........................................................................
+		 * _drawFocusRing
+		 * ...........................................................................
+		 * outline the focused element on the effects canvas
+		 * ...........................................................................
+		 */
+		private _drawFocusRing(): void {
+			let elem: CanvasElement = this._focusedElement;
+			if (!elem || elem.isHidden || elem.isOffScreen) { return; }
+
+			let rect: IBasicRect = elem.displayDimensions;
+			if (!rect) { return; }
+
+			let width: number = this._options.FOCUS_RING_WIDTH;
+			let context: CanvasRenderingContext2D = this._effectContext;
+
+			context.save();
+			context.strokeStyle = this._options.FOCUS_RING_COLOR;
+			context.lineWidth = width;
+			context.strokeRect(rect.x - width, rect.y - width, rect.w + (2 * width), rect.h + (2 * width));
+			context.restore();
 		}
 
 		/**...........................................................................
@@ -344,11 +537,26 @@ namespace KIP {
 		 */
 		protected _renderFrame() : void {
 
+			// move any animations forward; they'll flag whatever they change
+			this._stepAnimations();
+
 			// Make sure we only do this kind of stuff if something changed
 			if (this._needsRedraw) {
-				if (this._onPreRender) { this._onPreRender(); }	// Call pre-render code
-				this._drawEachElement();						// actually draw elements
-				this._needsRedraw = false;						// Set that we no longer need to redraw
+				let redrawEverything: boolean = this._shouldRedrawEverything();
+				if (redrawEverything && this._onPreRender) { this._onPreRender(); }	// Call pre-render code
+
+				// Set that we no longer need to redraw; anything flagged while
+				// drawing is picked up on the next frame
+				let dirtyRegions: IBasicRect[] = this._dirtyRegions;
+				this._needsRedraw = false;
+				this._needsFullRedraw = false;
+				this._dirtyRegions = [];
+
+				if (redrawEverything) {
+					this._drawEachElement();						// actually draw elements
+				} else {
+					this._drawDirtyRegions(dirtyRegions);			// only draw what changed
+				}
 			}
 
 			// Add animation listeners
@@ -356,6 +564,276 @@ namespace KIP {
 		}
 		//#endregion
 
+		//#region ANIMATIONS
+
+		/**...........................................................................
+		 * addAnimation
+		 * ...........................................................................
+		 * start running an animation as the canvas renders
+		 * 
+		 * @param	animation	The animation to run
+		 * 
+		 * @returns	The animation that was added
+		 * ...........................................................................
+		 */
+		public addAnimation(animation: CanvasAnimation): CanvasAnimation {
+			this._animations.push(animation);
+			return animation;
+		}
+
+		/**...........................................................................
+		 * animateView
+		 * ...........................................................................
+		 * smoothly move the camera to a new view, after any other camera moves
+		 * 
+		 * @param	newDisplay	The view to end up at
+		 * @param	options		How the move should play out
+		 * 
+		 * @returns	The animation for the move
+		 * ...........................................................................
+		 */
+		public animateView(newDisplay: IBasicRect, options?: ICanvasAnimationOptions): CanvasAnimation {
+			return this._animateViewTo(() => { return newDisplay; }, options);
+		}
+
+		/**...........................................................................
+		 * animatePan
+		 * ...........................................................................
+		 * smoothly pan the camera to a new corner, keeping the current zoom
+		 * 
+		 * @param	cornerPoint		The new corner for the canvas
+		 * @param	options			How the pan should play out
+		 * 
+		 * @returns	The animation for the pan
+		 * ...........................................................................
+		 */
+		public animatePan(cornerPoint: IPoint, options?: ICanvasAnimationOptions): CanvasAnimation {
+			return this._animateViewTo((start: IBasicRect) => {
+				return { x: cornerPoint.x, y: cornerPoint.y, w: start.w, h: start.h };
+			}, options);
+		}
+
+		/**...........................................................................
+		 * _animateViewTo
+		 * ...........................................................................
+		 * queue up a camera move, figuring out where it ends once it starts
+		 * 
+		 * @param	getEnd		Determine the final view from the starting view
+		 * @param	options		How the move should play out
+		 * 
+		 * @returns	The animation for the move
+		 * ...........................................................................
+		 */
+		private _animateViewTo(getEnd: (start: IBasicRect) => IBasicRect, options?: ICanvasAnimationOptions): CanvasAnimation {
+			let animation: CanvasAnimation = new CanvasAnimation(() => {
+				let start: IBasicRect = cloneRect(this._relativeView);
+				let end: IBasicRect = getEnd(start);
+				return (progress: number) => {
+					this.changeView(interpolateRect(start, end, progress));
+				};
+			}, options, this._lastViewAnimation);
+
+			this._lastViewAnimation = animation;
+			return this.addAnimation(animation);
+		}
+
+		/**...........................................................................
+		 * _stepAnimations
+		 * ...........................................................................
+		 * move each animation forward, no more often than the render rate allows
+		 * ...........................................................................
+		 */
+		private _stepAnimations(): void {
+			if (this._animations.length === 0) { return; }
+
+			let now: number = Date.now();
+			let interval: number = 1000 / this._options.RENDER_RATE;
+			if (this._lastAnimationTime && ((now - this._lastAnimationTime) < interval)) { return; }
+			this._lastAnimationTime = now;
+
+			// steps may queue further animations, so work off of a copy
+			let animations: CanvasAnimation[] = this._animations.slice();
+			let finished: CanvasAnimation[] = [];
+			for (let animation of animations) {
+				if (animation.step(now)) { finished.push(animation); }
+			}
+
+			this._animations = this._animations.filter((animation: CanvasAnimation) => {
+				return (finished.indexOf(animation) === -1) && !animation.isFinished;
+			});
+		}
+
+		//#endregion
+
+		//#region SERIALIZATION
+
+		/**...........................................................................
+		 * toJSON
+		 * ...........................................................................
+		 * create a serializable version of everything on the canvas
+		 * 
+		 * @returns	The JSON representation of the scene
+		 * ...........................................................................
+		 */
+		public toJSON(): ICanvasSceneJSON {
+			let layers: ICanvasElementJSON[] = [];
+			for (let i = 0; i < this._layers.length; i += 1) {
+				layers[i] = this._layers[i] ? this._layers[i].toJSON() : null;
+			}
+
+			return {
+				version: CANVAS_JSON_VERSION,
+				layers: layers
+			};
+		}
+
+		/**...........................................................................
+		 * loadJSON
+		 * ...........................................................................
+		 * add everything from a serialized scene to this canvas
+		 * 
+		 * @param	scene	The JSON representation of the scene
+		 * ...........................................................................
+		 */
+		public loadJSON(scene: ICanvasSceneJSON): void {
+			if (!scene) { return; }
+			if (!scene.version || scene.version > CANVAS_JSON_VERSION) {
+				throw new Error("unsupported canvas format version: " + scene.version);
+			}
+
+			for (let i = 0; i < (scene.layers || []).length; i += 1) {
+				let layerJSON: ICanvasElementJSON = scene.layers[i];
+				if (!layerJSON) { continue; }
+
+				let layer: CanvasGroup = this._getOrCreateLayer(i);
+				let elems: CanvasElement[] = layer.addElementsFromJSON(layerJSON.children);
+				for (let elem of elems) {
+					this._updateAbsoluteDimensionsFromElem(elem.dimensions);
+				}
+			}
+
+			this.needsRedraw = true;
+		}
+
+		/**...........................................................................
+		 * fromJSON
+		 * ...........................................................................
+		 * create a new canvas from a serialized scene
+		 * 
+		 * @param	scene		The JSON representation of the scene
+		 * @param	id			Unique ID to use for the canvas
+		 * @param	options		Options to create the canvas with
+		 * 
+		 * @returns	The created canvas
+		 * ...........................................................................
+		 */
+		public static fromJSON(scene: ICanvasSceneJSON, id?: string, options?: IHTML5CanvasOptions): HTML5Canvas {
+			let canvas: HTML5Canvas = new HTML5Canvas(id, options);
+			canvas.loadJSON(scene);
+			return canvas;
+		}
+
+		//#endregion
+
+		//#region DIRTY REGIONS
+
+		/**...........................................................................
+		 * markDirty
+		 * ...........................................................................
+		 * flag a region of the canvas as needing to be repainted on the next frame
+		 * 
+		 * @param	relativeRect	The region to repaint, in relative space
+		 * ...........................................................................
+		 */
+		public markDirty(relativeRect: IBasicRect): void {
+			if (!relativeRect) { return; }
+			this._needsRedraw = true;
+
+			// no need to track regions if everything will be redrawn
+			if (this._needsFullRedraw) { return; }
+
+			let region: IBasicRect = this._clipToCanvas(relativeRect);
+			if (!region) { return; }
+			this._dirtyRegions.push(region);
+		}
+
+		/**...........................................................................
+		 * isRegionDirty
+		 * ...........................................................................
+		 * determine whether a region is being repainted in the current frame
+		 * 
+		 * @param	relativeRect	The region to check, in relative space
+		 * 
+		 * @returns	True if any part of the region is being repainted
+		 * ...........................................................................
+		 */
+		public isRegionDirty(relativeRect: IBasicRect): boolean {
+			if (!this._repaintRegions) { return true; }
+
+			let rect: IBasicRect = this._clipToCanvas(relativeRect);
+			if (!rect) { return false; }
+
+			for (let region of this._repaintRegions) {
+				if (Trig.doBasicRectsOverlap(region, rect)) { return true; }
+			}
+			return false;
+		}
+
+		/**...........................................................................
+		 * _shouldRedrawEverything
+		 * ...........................................................................
+		 * determine whether a full redraw is needed, either because the view has 
+		 * changed or because so much is dirty that clipping wouldn't help
+		 * ...........................................................................
+		 */
+		private _shouldRedrawEverything(): boolean {
+			if (this._needsFullRedraw) { return true; }
+			if (this._dirtyRegions.length === 0) { return true; }
+
+			let dirtyArea: number = 0;
+			for (let region of this._dirtyRegions) {
+				dirtyArea += (region.w * region.h);
+			}
+
+			let canvasArea: number = this._options.SIZE.width * this._options.SIZE.height;
+			return (dirtyArea > (canvasArea * this._options.FULL_REDRAW_THRESHOLD));
+		}
+
+		/**...........................................................................
+		 * _clipToCanvas
+		 * ...........................................................................
+		 * snap a relative rect to whole pixels (with a pixel of room for 
+		 * anti-aliasing) and trim it to the bounds of the canvas
+		 * 
+		 * @param	relativeRect	The rect to clip
+		 * 
+		 * @returns	The clipped rect, or null if it isn't on the canvas
+		 * ...........................................................................
+		 */
+		private _clipToCanvas(relativeRect: IBasicRect): IBasicRect {
+			let left: number = Math.min(relativeRect.x, relativeRect.x + relativeRect.w);
+			let top: number = Math.min(relativeRect.y, relativeRect.y + relativeRect.h);
+			let right: number = Math.max(relativeRect.x, relativeRect.x + relativeRect.w);
+			let bottom: number = Math.max(relativeRect.y, relativeRect.y + relativeRect.h);
+
+			left = Math.max(Math.floor(left) - 1, 0);
+			top = Math.max(Math.floor(top) - 1, 0);
+			right = Math.min(Math.ceil(right) + 1, this._options.SIZE.width);
+			bottom = Math.min(Math.ceil(bottom) + 1, this._options.SIZE.height);
+
+			if (isNaN(left) || isNaN(top) || isNaN(right) || isNaN(bottom)) { return null; }
+			if ((right <= left) || (bottom <= top)) { return null; }
+
+			return {
+				x: left,
+				y: top,
+				w: right - left,
+				h: bottom - top
+			};
+		}
+
+		//#endregion
+
 		//#region ADD/REMOVE ELEMENTS
 
 		/**...........................................................................
@@ -376,9 +854,6 @@ namespace KIP {
 
 			// Update the absolute dimensions
 			this._updateAbsoluteDimensionsFromElem(elem.dimensions)
-
-			// Mark that we need to redraw
-			this._needsRedraw = true;
 		}
 
 		/**...........................................................................
@@ -472,9 +947,11 @@ namespace KIP {
 		 * actually zoom the canvas an appropriate amount 
 		 * 
 		 * @param	delta	The amount to zoom by
+		 * @param	anchor	If provided, the relative point that should stay in
+		 * 					place; otherwise, zooms around the center of the view
 		 * ...........................................................................
 		 */
-		public zoom(delta: number): void {
+		public zoom(delta: number, anchor?: IPoint): void {
 
 			// Get the standard zoom we should be applying
 			let zoomDelta: IPoint = this._options.ZOOM_DELTA();
@@ -500,16 +977,24 @@ namespace KIP {
 			let widthDelta: number = newWidth - this._relativeView.w;
 			let heightDelta: number = newHeight - this._relativeView.h;
 			
+			// Figure out how far through the view the anchor is, so it can stay put
+			let xRatio: number = 0.5;
+			let yRatio: number = 0.5;
+			if (anchor && this._relativeView.w && this._relativeView.h) {
+				xRatio = (anchor.x - this._relativeView.x) / this._relativeView.w;
+				yRatio = (anchor.y - this._relativeView.y) / this._relativeView.h;
+			}
+
 			// Create the new view based on the appropriate deltas
 			let newView: IBasicRect = {
-				x: this._relativeView.x - (widthDelta / 2),
-				y: this._relativeView.y - (heightDelta / 2),
+				x: this._relativeView.x - (widthDelta * xRatio),
+				y: this._relativeView.y - (heightDelta * yRatio),
 				w: this._relativeView.w + widthDelta,
 				h: this._relativeView.h + heightDelta
 			};
 
 			this._relativeView = newView;
-			this._needsRedraw = true;
+			this.needsRedraw = true;
 
 		}
 
@@ -523,6 +1008,34 @@ namespace KIP {
 		 */
 		public changeView(newDisplay: IBasicRect): void {
 			this._relativeView = newDisplay;
+
+			// keep the zoom in line with how much of the canvas is visible
+			if (newDisplay.w && newDisplay.h) {
+				this._zoomFactor = {
+					x: this._options.SIZE.width / newDisplay.w,
+					y: this._options.SIZE.height / newDisplay.h
+				};
+			}
+
+			this.needsRedraw = true;
+		}
+
+		/**...........................................................................
+		 * _onPinch
+		 * ...........................................................................
+		 * zoom the canvas as two fingers spread apart or come together
+		 * 
+		 * @param	scale	How much the distance between the fingers has changed
+		 * @param	center	The physical point between the fingers
+		 * ...........................................................................
+		 */
+		private _onPinch(scale: number, center: IPoint): void {
+			let zoomDelta: IPoint = this._options.ZOOM_DELTA();
+			if (!zoomDelta.x) { return; }
+
+			// translate the scale into the steps the zoom function expects
+			let delta: number = ((scale - 1) * this._zoomFactor.x) / zoomDelta.x;
+			this.zoom(delta, this.convertPhysicalPointToRelativePoint(center));
 		}
 		//#endregion
 
@@ -575,7 +1088,7 @@ namespace KIP {
 		public pan(cornerPoint: IPoint): void {
 			this._relativeView.x = cornerPoint.x;
 			this._relativeView.y = cornerPoint.y;
-			this._needsRedraw = true;
+			this.needsRedraw = true;
 		}
 		//#endregion
 	
@@ -646,6 +1159,33 @@ namespace KIP {
 				this._onHover(e, pt);
 			});
 
+			// Add listeners for dragging & resizing elements; these need to come
+			// before any selection listeners so a drag doesn't also select
+			this._elems.base.addEventListener("mousedown", (e: MouseEvent) => {
+				if (this._manipulator) { this._manipulator.handleMouseDown(e); }
+			});
+
+			this._elems.base.addEventListener("click", (e: MouseEvent) => {
+				if (this._manipulator) { this._manipulator.handleClick(e); }
+			}, true);
+
+			// Add keyboard listeners
+			this._elems.base.addEventListener("keydown", (e: KeyboardEvent) => {
+				this._onKeyDown(e);
+			});
+
+			this._elems.base.addEventListener("blur", (e: FocusEvent) => {
+				this.clearFocus(e);
+			});
+
+			// Add touch listeners
+			this._gestures = new GestureTracker(this._elems.base, {
+				onPan: (delta: IPoint) => { this._onDrag(delta); },
+				onPinch: (scale: number, center: IPoint) => { this._onPinch(scale, center); },
+				onDoubleTap: (pt: IPoint, e: PointerEvent) => { this._onDoubleTap(e, pt); },
+				onLongPress: (pt: IPoint, e: PointerEvent) => { this._onLongPress(e, pt); }
+			});
+
 			// Add animation listeners
 			window.requestAnimationFrame(() => { 
 				this._renderFrame(); 
@@ -678,6 +1218,93 @@ namespace KIP {
 			this._handleEvent(EventTypeEnum.HOVER, point, e);
 		}
 
+		/**...........................................................................
+		 * _onDoubleTap
+		 * ...........................................................................
+		 * handle double-taps on the canvas, zooming in around the tapped point
+		 * 
+		 * @param	e		The event that finished the second tap
+		 * @param	point	The point that was tapped
+		 * ...........................................................................
+		 */
+		private _onDoubleTap(e: PointerEvent, point: IPoint): void {
+			this._handleEvent(EventTypeEnum.DBL_CLICK, point, e);
+			this._onPinch(this._options.DOUBLE_TAP_ZOOM, point);
+		}
+
+		/**...........................................................................
+		 * _onLongPress
+		 * ...........................................................................
+		 * treat a long-press on the canvas as a right-click
+		 * 
+		 * @param	e		The event that started the press
+		 * @param	point	The point being pressed
+		 * ...........................................................................
+		 */
+		private _onLongPress(e: PointerEvent, point: IPoint): void {
+			this._handleEvent(EventTypeEnum.R_CLICK, point, e);
+		}
+
+		/**...........................................................................
+		 * _onKeyDown
+		 * ...........................................................................
+		 * handle keyboard navigation of the canvas: Tab moves focus between 
+		 * elements, the arrow keys pan, +/- zoom, and Enter clicks the focused 
+		 * element. Anything else is passed along to the focused element.
+		 * 
+		 * @param	e	The keyboard event
+		 * ...........................................................................
+		 */
+		private _onKeyDown(e: KeyboardEvent): void {
+			let amt: number = this._options.KEY_PAN_AMOUNT;
+
+			switch (e.key) {
+				case "Tab":
+					// let the browser move focus off of the canvas once we run out of elements
+					if (!this._moveFocus(e.shiftKey ? -1 : 1, e)) { return; }
+					break;
+
+				case "ArrowLeft":
+					this._onDrag({ x: amt, y: 0 });
+					break;
+				case "ArrowRight":
+					this._onDrag({ x: -amt, y: 0 });
+					break;
+				case "ArrowUp":
+					this._onDrag({ x: 0, y: amt });
+					break;
+				case "ArrowDown":
+					this._onDrag({ x: 0, y: -amt });
+					break;
+
+				case "+":
+				case "=":
+					this.zoom(1);
+					break;
+				case "-":
+				case "_":
+					this.zoom(-1);
+					break;
+
+				case "Enter":
+					if (!this._focusedElement) { return; }
+					this._focusedElement.handleEvent(EventTypeEnum.CLICK, this._getFocusPoint(), e);
+					break;
+
+				case "Escape":
+					if (!this._focusedElement) { return; }
+					this.clearFocus(e);
+					break;
+
+				default:
+					if (!this._focusedElement) { return; }
+					this._focusedElement.keyPress(this._getFocusPoint(), e);
+					return;
+			}
+
+			e.preventDefault();
+		}
+
 		/**...........................................................................
 		 * _handleEvent
 		 * ...........................................................................
@@ -699,6 +1326,285 @@ namespace KIP {
 		}
 		//#endregion
 
+		//#region MANIPULATION
+
+		/**...........................................................................
+		 * enableManipulation
+		 * ...........................................................................
+		 * allow elements to be dragged & resized directly on the canvas. This is
+		 * called automatically once an element is made draggable or resizable.
+		 * 
+		 * @returns	The manipulator for the canvas
+		 * ...........................................................................
+		 */
+		public enableManipulation(): CanvasManipulator {
+			if (!this._manipulator) { this._manipulator = new CanvasManipulator(this); }
+			return this._manipulator;
+		}
+
+		//#endregion
+
+		//#region SELECTION
+
+		/**...........................................................................
+		 * enableSelection
+		 * ...........................................................................
+		 * allow elements to be selected by clicking & dragging on the canvas. 
+		 * Once enabled, dragging the mouse selects instead of panning.
+		 * 
+		 * @param	options		How selection should behave
+		 * 
+		 * @returns	The selection model for the canvas
+		 * ...........................................................................
+		 */
+		public enableSelection(options?: ICanvasSelectionOptions): CanvasSelection {
+			if (!this._selection) { this._selection = new CanvasSelection(this, options); }
+			return this._selection;
+		}
+
+		/**...........................................................................
+		 * findTopElementAt
+		 * ...........................................................................
+		 * find the top-most element directly within a layer at a particular point
+		 * 
+		 * @param	absolutePt	The point to look at, in absolute space
+		 * @param	filter		If provided, only elements that pass are considered
+		 * 
+		 * @returns	The element, if one was found
+		 * ...........................................................................
+		 */
+		public findTopElementAt(absolutePt: IPoint, filter?: (elem: CanvasElement) => boolean): CanvasElement {
+			let region: IBasicRect = { x: absolutePt.x, y: absolutePt.y, w: 0, h: 0 };
+
+			for (let i = this._layers.length - 1; i >= 0; i -= 1) {
+				if (!this._layers[i]) { continue; }
+
+				let elems: CanvasElement[] = this._layers[i].getElementsInRegion(region);
+				for (let j = elems.length - 1; j >= 0; j -= 1) {
+					let elem: CanvasElement = elems[j];
+					if (elem.isEffect || elem.isHidden) { continue; }
+					if (filter && !filter(elem)) { continue; }
+					return elem;
+				}
+			}
+
+			return null;
+		}
+
+		/**...........................................................................
+		 * handleElementRemoved
+		 * ...........................................................................
+		 * make sure an element that is no longer on the canvas doesn't keep 
+		 * focus or stay selected
+		 * 
+		 * @param	elem	The element that was removed
+		 * ...........................................................................
+		 */
+		public handleElementRemoved(elem: CanvasElement): void {
+			if (this._focusedElement === elem) { this.clearFocus(); }
+			if (this._selection && elem.isSelected) { this._selection.deselect([elem]); }
+		}
+
+		//#endregion
+
+		//#region FOCUS MANAGEMENT
+
+		/**...........................................................................
+		 * getFocusableElements
+		 * ...........................................................................
+		 * find everything that can receive keyboard focus, in tab order. Elements
+		 * are ordered as they read: top to bottom, then left to right.
+		 * 
+		 * @returns	The focusable elements
+		 * ...........................................................................
+		 */
+		public getFocusableElements(): CanvasElement[] {
+			let out: CanvasElement[] = [];
+
+			let collect = (elem: CanvasElement) => {
+				if (!elem || elem.isEffect || elem.isHidden) { return; }
+				if (elem.isFocusable) { out.push(elem); }
+				if (elem.type !== ElementType.Group) { return; }
+				for (let child of (elem as CanvasGroup).elements) { collect(child); }
+			};
+
+			for (let layer of this._layers) {
+				collect(layer);
+			}
+
+			// keep elements at the same spot in the order they were added
+			let ordered = out.map((elem: CanvasElement, idx: number) => ({ elem: elem, idx: idx }));
+			ordered.sort((a, b) => {
+				let diff: number = (a.elem.dimensions.y - b.elem.dimensions.y) || (a.elem.dimensions.x - b.elem.dimensions.x);
+				return diff || (a.idx - b.idx);
+			});
+
+			return ordered.map((item) => item.elem);
+		}
+
+		/**...........................................................................
+		 * focusElement
+		 * ...........................................................................
+		 * give keyboard focus to a particular element, bringing it into view if
+		 * needed
+		 * 
+		 * @param	elem	The element to focus
+		 * @param	e		The event that caused the focus to change, if any
+		 * ...........................................................................
+		 */
+		public focusElement(elem: CanvasElement, e?: Event): void {
+			if (elem === this._focusedElement) { return; }
+			this.clearFocus(e);
+			if (!elem) { return; }
+
+			this._focusedElement = elem;
+			this._scrollIntoView(elem);
+			elem.focus(this._getFocusPoint(), e);
+
+			this._describeFocus();
+		}
+
+		/**...........................................................................
+		 * focusNext
+		 * ...........................................................................
+		 * move focus to the next element in the tab order
+		 * 
+		 * @returns	True if there was an element to move to
+		 * ...........................................................................
+		 */
+		public focusNext(): boolean {
+			return this._moveFocus(1);
+		}
+
+		/**...........................................................................
+		 * focusPrevious
+		 * ...........................................................................
+		 * move focus to the previous element in the tab order
+		 * 
+		 * @returns	True if there was an element to move to
+		 * ...........................................................................
+		 */
+		public focusPrevious(): boolean {
+			return this._moveFocus(-1);
+		}
+
+		/**...........................................................................
+		 * clearFocus
+		 * ...........................................................................
+		 * remove keyboard focus from whatever element currently has it
+		 * 
+		 * @param	e	The event that caused the focus to change, if any
+		 * ...........................................................................
+		 */
+		public clearFocus(e?: Event): void {
+			let elem: CanvasElement = this._focusedElement;
+			if (!elem) { return; }
+
+			let pt: IPoint = this._getFocusPoint();
+			this._focusedElement = null;
+			elem.blur(pt, e);
+
+			this._describeFocus();
+		}
+
+		/**...........................................................................
+		 * _moveFocus
+		 * ...........................................................................
+		 * move focus forwards or backwards through the tab order
+		 * 
+		 * @param	direction	1 to move forwards, -1 to move backwards
+		 * @param	e			The event that caused the focus to change, if any
+		 * 
+		 * @returns	True if focus moved to another element
+		 * ...........................................................................
+		 */
+		private _moveFocus(direction: number, e?: Event): boolean {
+			let elems: CanvasElement[] = this.getFocusableElements();
+
+			let idx: number = elems.indexOf(this._focusedElement);
+			if (idx === -1) {
+				idx = (direction > 0) ? 0 : elems.length - 1;
+			} else {
+				idx += direction;
+			}
+
+			// moving past either end leaves the canvas without a focused element
+			if (idx < 0 || idx >= elems.length) {
+				this.clearFocus(e);
+				return false;
+			}
+
+			this.focusElement(elems[idx], e);
+			return true;
+		}
+
+		/**...........................................................................
+		 * _scrollIntoView
+		 * ...........................................................................
+		 * center the view on an element if it isn't entirely visible
+		 * 
+		 * @param	elem	The element to show
+		 * ...........................................................................
+		 */
+		private _scrollIntoView(elem: CanvasElement): void {
+			let dim: IBasicRect = elem.dimensions;
+			let view: IBasicRect = this._relativeView;
+			if (!dim || !view) { return; }
+
+			let isVisible: boolean = (dim.x >= view.x) &&
+				(dim.y >= view.y) &&
+				(dim.x + dim.w <= view.x + view.w) &&
+				(dim.y + dim.h <= view.y + view.h);
+			if (isVisible) { return; }
+
+			this.pan({
+				x: dim.x + (dim.w / 2) - (view.w / 2),
+				y: dim.y + (dim.h / 2) - (view.h / 2)
+			});
+		}
+
+		/**...........................................................................
+		 * _getFocusPoint
+		 * ...........................................................................
+		 * find the point that keyboard events on the focused element apply to
+		 * 
+		 * @returns	The center of the focused element
+		 * ...........................................................................
+		 */
+		private _getFocusPoint(): IPoint {
+			let elem: CanvasElement = this._focusedElement;
+			if (!elem) { return null; }
+
+			let rect: IBasicRect = elem.displayDimensions || this.convertAbsoluteRectToRelativeRect(elem.dimensions);
+			return {
+				x: rect.x + (rect.w / 2),
+				y: rect.y + (rect.h / 2)
+			};
+		}
+
+		/**...........................................................................
+		 * _describeFocus
+		 * ...........................................................................
+		 * let screen readers know which element has focus
+		 * ...........................................................................
+		 */
+		private _describeFocus(): void {
+			let elem: CanvasElement = this._focusedElement;
+			if (!elem) {
+				this._elems.description.textContent = "";
+				return;
+			}
+
+			let elems: CanvasElement[] = this.getFocusableElements();
+			let idx: number = elems.indexOf(elem);
+
+			let desc: string = elem.description;
+			if (idx !== -1) { desc += " (" + (idx + 1) + " of " + elems.length + ")"; }
+			this._elems.description.textContent = desc;
+		}
+
+		//#endregion
+
 		//#region POINT CONVERSION FUNCTIONS
 		
 		/**...........................................................................
@@ -0,0 +1,294 @@
+///<reference path="../../helpers/promise.ts" />
+///<reference path="../color.ts" />
+namespace KIP {
+
+	//#region INTERFACES
+
+	/**...........................................................................
+	 * EasingFunction
+	 * ...........................................................................
+	 * Map how far through an animation we are in time (0 - 1) to how far
+	 * through the change we should be
+	 * ...........................................................................
+	 */
+	export interface EasingFunction {
+		(t: number): number;
+	}
+
+	/**...........................................................................
+	 * CanvasAnimationStep
+	 * ...........................................................................
+	 * Apply the state of an animation at a particular point in its progress
+	 * ...........................................................................
+	 */
+	export interface CanvasAnimationStep {
+		(progress: number): void;
+	}
+
+	/**...........................................................................
+	 * CanvasAnimationStart
+	 * ...........................................................................
+	 * Capture the starting state of an animation, returning how to step it
+	 * ...........................................................................
+	 */
+	export interface CanvasAnimationStart {
+		(): CanvasAnimationStep;
+	}
+
+	/**...........................................................................
+	 * ICanvasAnimationOptions
+	 * ...........................................................................
+	 * Options for how an animation plays out
+	 * ...........................................................................
+	 */
+	export interface ICanvasAnimationOptions {
+
+		/** how long the animation should take, in ms */
+		duration?: number;
+
+		/** how long to wait before starting, in ms */
+		delay?: number;
+
+		/** how the change should be spread over the duration */
+		easing?: EasingFunction;
+	}
+
+	/**...........................................................................
+	 * ICanvasAnimationTarget
+	 * ...........................................................................
+	 * The state a canvas element should end up in after animating
+	 * ...........................................................................
+	 */
+	export interface ICanvasAnimationTarget {
+
+		/** where the element should move to, in absolute space */
+		x?: number;
+		y?: number;
+
+		/** what size the element should become, in absolute space */
+		w?: number;
+		h?: number;
+
+		/** how opaque the element should become */
+		opacity?: number;
+
+		/** the colors the element should shift to */
+		fillColor?: string;
+		strokeColor?: string;
+	}
+
+	//#endregion
+
+	//#region EASING
+
+	/**...........................................................................
+	 * Easing
+	 * ...........................................................................
+	 * Standard easing functions for animations
+	 * ...........................................................................
+	 */
+	export namespace Easing {
+
+		/** constant speed throughout */
+		export function linear(t: number): number { return t; }
+
+		/** start slowly and speed up */
+		export function easeIn(t: number): number { return t * t * t; }
+
+		/** start quickly and slow down */
+		export function easeOut(t: number): number { return 1 - Math.pow(1 - t, 3); }
+
+		/** speed up through the middle, slow at either end */
+		export function easeInOut(t: number): number {
+			return (t < 0.5) ? (4 * t * t * t) : (1 - (Math.pow((-2 * t) + 2, 3) / 2));
+		}
+
+		/** overshoot the end slightly before settling */
+		export function easeOutBack(t: number): number {
+			let c: number = 1.70158;
+			return 1 + ((c + 1) * Math.pow(t - 1, 3)) + (c * Math.pow(t - 1, 2));
+		}
+	}
+
+	//#endregion
+
+	//#region INTERPOLATION
+
+	/** find the value a certain amount of the way between two numbers */
+	export function interpolateNumber(start: number, end: number, progress: number): number {
+		return start + ((end - start) * progress);
+	}
+
+	/** find the rect a certain amount of the way between two rects */
+	export function interpolateRect(start: IBasicRect, end: IBasicRect, progress: number): IBasicRect {
+		return {
+			x: interpolateNumber(start.x, end.x, progress),
+			y: interpolateNumber(start.y, end.y, progress),
+			w: interpolateNumber(start.w, end.w, progress),
+			h: interpolateNumber(start.h, end.h, progress)
+		};
+	}
+
+	/**
+	 * find the color a certain amount of the way between two colors. Colors
+	 * that can't be parsed switch over halfway through instead.
+	 */
+	export function interpolateColor(start: string, end: string, progress: number): string {
+		let startColor: Colors.AnyColor = new Colors.AnyColor(start || "");
+		let endColor: Colors.AnyColor = new Colors.AnyColor(end || "");
+
+		if (!startColor.parsedCorrectly || !endColor.parsedCorrectly) {
+			return (progress < 0.5) ? start : end;
+		}
+
+		let channels: number[] = [
+			Math.round(interpolateNumber(startColor.red, endColor.red, progress)),
+			Math.round(interpolateNumber(startColor.green, endColor.green, progress)),
+			Math.round(interpolateNumber(startColor.blue, endColor.blue, progress)),
+			roundToPlace(interpolateNumber(startColor.alpha, endColor.alpha, progress), 1000)
+		];
+
+		return "rgba(" + channels.join(",") + ")";
+	}
+
+	//#endregion
+
+	/**...........................................................................
+	 * @class CanvasAnimation
+	 * ...........................................................................
+	 * A single change that plays out over time on a canvas. Animations are
+	 * stepped by the canvas as it renders, and can wait on other animations to
+	 * finish before starting.
+	 * @version 1.0
+	 * ...........................................................................
+	 */
+	export class CanvasAnimation {
+
+		//#region PROPERTIES
+
+		/** how to capture the starting state of the animation */
+		protected _onStart: CanvasAnimationStart;
+
+		/** how to apply the animation once started */
+		protected _step: CanvasAnimationStep;
+
+		/** how the animation plays out */
+		protected _options: ICanvasAnimationOptions;
+
+		/** animation that needs to finish before this one starts */
+		protected _after: CanvasAnimation;
+
+		/** when this animation was first eligible to run */
+		protected _queuedTime: number;
+
+		/** when the animation actually started changing things */
+		protected _startTime: number;
+
+		/** whether the animation has completed (or been cancelled) */
+		protected _isFinished: boolean;
+		public get isFinished(): boolean { return this._isFinished; }
+
+		/** whether the animation was stopped before it completed */
+		protected _isCancelled: boolean;
+		public get isCancelled(): boolean { return this._isCancelled; }
+
+		/** promise that resolves with whether the animation completed */
+		protected _finished: KipPromise;
+		public get finished(): KipPromise { return this._finished; }
+
+		/** resolves the finished promise */
+		private _resolve: Function;
+
+		//#endregion
+
+		/**...........................................................................
+		 * Create an animation
+		 *
+		 * @param	onStart		Captures the starting state, returning how to step
+		 * @param	options		How the animation should play out
+		 * @param	after		If provided, the animation to wait on
+		 * ...........................................................................
+		 */
+		constructor(onStart: CanvasAnimationStart, options?: ICanvasAnimationOptions, after?: CanvasAnimation) {
+			this._onStart = onStart;
+			this._options = reconcileOptions(options || {}, {
+				duration: 300,
+				delay: 0,
+				easing: Easing.easeInOut
+			});
+			this._after = after;
+
+			this._finished = new KipPromise((resolve: Function) => {
+				this._resolve = resolve;
+			});
+		}
+
+		/**...........................................................................
+		 * step
+		 * ...........................................................................
+		 * Move the animation forward to a particular time
+		 *
+		 * @param	now		The current time, in ms
+		 *
+		 * @returns	True if the animation is done
+		 * ...........................................................................
+		 */
+		public step(now: number): boolean {
+			if (this._isFinished) { return true; }
+
+			// wait for anything we're chained after
+			if (this._after && !this._after.isFinished) { return false; }
+
+			// wait out the delay
+			if (isNullOrUndefined(this._queuedTime)) { this._queuedTime = now; }
+			if ((now - this._queuedTime) < this._options.delay) { return false; }
+
+			if (!this._step) {
+				this._step = this._onStart();
+				this._startTime = now;
+			}
+
+			let timeProgress: number = 1;
+			if (this._options.duration > 0) {
+				timeProgress = Math.min(1, (now - this._startTime) / this._options.duration);
+			}
+
+			this._step(this._options.easing(timeProgress));
+
+			if (timeProgress < 1) { return false; }
+			this._complete(true);
+			return true;
+		}
+
+		/**...........................................................................
+		 * finish
+		 * ...........................................................................
+		 * Skip straight to the end of the animation
+		 * ...........................................................................
+		 */
+		public finish(): void {
+			if (this._isFinished) { return; }
+			if (!this._step) { this._step = this._onStart(); }
+			this._step(1);
+			this._complete(true);
+		}
+
+		/**...........................................................................
+		 * cancel
+		 * ...........................................................................
+		 * Stop the animation where it is
+		 * ...........................................................................
+		 */
+		public cancel(): void {
+			if (this._isFinished) { return; }
+			this._isCancelled = true;
+			this._complete(false);
+		}
+
+		/** mark the animation as done & let listeners know */
+		private _complete(completed: boolean): void {
+			this._isFinished = true;
+			this._resolve(completed);
+		}
+	}
+}
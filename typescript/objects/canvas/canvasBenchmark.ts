@@ -0,0 +1,107 @@
+///<reference path="spatialIndex.ts" />
+namespace KIP {
+
+	/** results of comparing hit-testing with & without a spatial index */
+	export interface ISpatialIndexBenchmark {
+		elementCount: number;
+		queryCount: number;
+		linearPointMs: number;
+		indexedPointMs: number;
+		linearCullMs: number;
+		indexedCullMs: number;
+		mismatches: number;
+	}
+
+	/**...........................................................................
+	 * benchmarkSpatialIndex
+	 * ...........................................................................
+	 * Compare finding rects at a point (hover / click) and within a view
+	 * (culling) by scanning every rect versus querying a quadtree. The layout
+	 * mimics a timeline: many short spans laid out in rows.
+	 *
+	 * @param	elementCount	How many rects to lay out
+	 * @param	queryCount		How many points & views to look up
+	 *
+	 * @returns	Timings for each approach, plus how often they disagreed
+	 * ...........................................................................
+	 */
+	export function benchmarkSpatialIndex(elementCount?: number, queryCount?: number): ISpatialIndexBenchmark {
+		elementCount = elementCount || 10000;
+		queryCount = queryCount || 1000;
+
+		// lay out the rects, with a fixed seed so runs are comparable
+		let seed: number = 1;
+		let rand = (): number => {
+			seed = (seed * 16807) % 2147483647;
+			return (seed - 1) / 2147483646;
+		};
+
+		let rects: IBasicRect[] = [];
+		let index: QuadTree<number> = new QuadTree<number>();
+		for (let i = 0; i < elementCount; i += 1) {
+			let rect: IBasicRect = {
+				x: rand() * 50000,
+				y: (i % 200) * 25,
+				w: 20 + (rand() * 400),
+				h: 20
+			};
+			rects.push(rect);
+			index.insert(i.toString(), rect, i);
+		}
+
+		let points: IPoint[] = [];
+		let views: IBasicRect[] = [];
+		for (let i = 0; i < queryCount; i += 1) {
+			points.push({ x: rand() * 50000, y: rand() * 5000 });
+			views.push({ x: rand() * 49000, y: rand() * 4400, w: 1000, h: 600 });
+		}
+
+		let mismatches: number = 0;
+
+		// hover & click: everything under a point
+		let start: number = Date.now();
+		let linearHits: number[] = [];
+		for (let pt of points) {
+			let count: number = 0;
+			for (let rect of rects) {
+				if (Trig.isPointContained(pt, rect)) { count += 1; }
+			}
+			linearHits.push(count);
+		}
+		let linearPointMs: number = Date.now() - start;
+
+		start = Date.now();
+		for (let i = 0; i < points.length; i += 1) {
+			if (index.queryPoint(points[i]).length !== linearHits[i]) { mismatches += 1; }
+		}
+		let indexedPointMs: number = Date.now() - start;
+
+		// culling: everything within the visible window
+		start = Date.now();
+		let linearVisible: number[] = [];
+		for (let view of views) {
+			let count: number = 0;
+			for (let rect of rects) {
+				if (Trig.doBasicRectsOverlap(view, rect)) { count += 1; }
+			}
+			linearVisible.push(count);
+		}
+		let linearCullMs: number = Date.now() - start;
+
+		start = Date.now();
+		for (let i = 0; i < views.length; i += 1) {
+			if (index.query(views[i]).length !== linearVisible[i]) { mismatches += 1; }
+		}
+		let indexedCullMs: number = Date.now() - start;
+
+		return {
+			elementCount: elementCount,
+			queryCount: queryCount,
+			linearPointMs: linearPointMs,
+			indexedPointMs: indexedPointMs,
+			linearCullMs: linearCullMs,
+			indexedCullMs: indexedCullMs,
+			mismatches: mismatches
+		};
+	}
+}
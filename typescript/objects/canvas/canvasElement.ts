@@ -12,7 +12,8 @@ namespace KIP {
 		Text,
 		Circle,
 		Path,
-		Group
+		Group,
+		Image
 	}
 
 	/**...........................................................................
@@ -89,6 +90,35 @@ namespace KIP {
 		/** the color this element should shift to */
 		color?: string;
 	}
+
+	/**...........................................................................
+	 * ICanvasElementJSON
+	 * ...........................................................................
+	 * serializable version of a canvas element
+	 * ...........................................................................
+	 */
+	export interface ICanvasElementJSON {
+		type: ElementType;
+		id: string;
+		dimensions: IBasicRect;
+		layer: number;
+		style: ICanvasStyleJSON;
+		hidden?: boolean;
+
+		/** the effect currently applied to the element, if any */
+		transform?: ICanvasElementTransform;
+
+		/** details for specific types of elements */
+		borderRadius?: number;
+		radius?: IPoint;
+		points?: IPoint[];
+		text?: string;
+		fixed?: boolean;
+		referencePoint?: IPoint;
+		children?: ICanvasElementJSON[];
+		src?: string;
+		sprite?: ICanvasSpriteOptions;
+	}
 	
 	/**...........................................................................
 	 * @class CanvasElement
@@ -108,6 +138,7 @@ namespace KIP {
 
 		/** determines whether this is an effect element */
 		protected _isEffect: boolean;
+		public get isEffect (): boolean { return this._isEffect; }
 
 		/** keep track of elements for thsi Drawable */
 		protected _elems: IDrawableElements;
@@ -127,11 +158,18 @@ namespace KIP {
 		/** style for the element */
 		protected _style: CanvasElementStyle;
 		public get style () : CanvasElementStyle { return this._style; }
-		public set style (s: CanvasElementStyle) { this._style = s; }
+		public set style (s: CanvasElementStyle) { 
+			this._style = s; 
+			this._listenForStyleChanges(s);
+			this.markDirty();
+		}
 
 		/** how this element will transform */
 		protected _transformDetails: ICanvasElementTransform;
 
+		/** the most recent animation on this element, so new ones can be chained after it */
+		protected _lastAnimation: CanvasAnimation;
+
 		/** layer at which the element should appear. Defaults to 1 */
 		protected _layer: number = 1;
 		public get layer(): number { return this._layer; }
@@ -146,6 +184,13 @@ namespace KIP {
 		public get dimensions () : IBasicRect { return this._dimensions; }
 		public set dimensions (dim: IBasicRect) { this._setDimensions(dim); }
 
+		/** 
+		 * whether the displayed position of this element lines up with its 
+		 * absolute dimensions. Elements that don't are checked on every pass 
+		 * instead of through the group's spatial index.
+		 */
+		public get isSpatiallyIndexed(): boolean { return true; }
+
 		/** where the element should current display */
 		protected _displayDimensions: IBasicRect;
 		public get displayDimensions () : IBasicRect { return this._displayDimensions; }
@@ -164,6 +209,62 @@ namespace KIP {
 		/** listeners for events */
 		protected _eventFunctions: CanvasEventHandler[][];
 
+		/** 
+		 * whether the element can receive keyboard focus. If not set explicitly, 
+		 * anything that listens for clicks or key presses can be focused.
+		 */
+		protected _isFocusable: boolean;
+		public get isFocusable (): boolean {
+			if (!isNullOrUndefined(this._isFocusable)) { return this._isFocusable; }
+			return this._hasListeners(
+				EventTypeEnum.CLICK, 
+				EventTypeEnum.DBL_CLICK, 
+				EventTypeEnum.R_CLICK, 
+				EventTypeEnum.KEY_PRESS, 
+				EventTypeEnum.FOCUS
+			);
+		}
+		public set isFocusable (value: boolean) { this._isFocusable = value; }
+
+		/** whether the element currently has keyboard focus */
+		protected _isFocused: boolean;
+		public get isFocused (): boolean { return this._isFocused; }
+
+		/** whether the element can be picked by the canvas's selection; defaults to true */
+		protected _isSelectable: boolean;
+		public get isSelectable (): boolean { return this._isSelectable !== false; }
+		public set isSelectable (value: boolean) { this._isSelectable = value; }
+
+		/** whether the element is currently selected; managed by the canvas's selection */
+		protected _isSelected: boolean;
+		public get isSelected (): boolean { return this._isSelected; }
+		public set isSelected (value: boolean) {
+			if (!!value === !!this._isSelected) { return; }
+
+			// repaint with the outline's padding both before and after the change
+			this.markDirty();
+			this._isSelected = value;
+			this.markDirty();
+		}
+
+		/** how the element can be dragged around, if at all */
+		protected _dragOptions: ICanvasManipulationOptions;
+		public get dragOptions (): ICanvasManipulationOptions { return this._dragOptions; }
+		public get isDraggable (): boolean { return !!this._dragOptions; }
+
+		/** how the element can be resized, if at all */
+		protected _resizeOptions: ICanvasManipulationOptions;
+		public get resizeOptions (): ICanvasManipulationOptions { return this._resizeOptions; }
+		public get isResizable (): boolean { return !!this._resizeOptions; }
+
+		/** listeners for when the element is moved or resized directly */
+		protected _manipulationListeners: CanvasManipulationHandler[][];
+
+		/** how this element should be described to screen readers */
+		protected _description: string;
+		public get description (): string { return this._description || this._getDefaultDescription(); }
+		public set description (desc: string) { this._description = desc; }
+
 		/** handle hiding elements */
 		protected _isHidden: boolean;
 		public get isHidden(): boolean { return this._isHidden; }
@@ -181,7 +282,9 @@ namespace KIP {
 			this._id = id;
 			this._isEffect = isEffect;
 			this._eventFunctions = [];
+			this._manipulationListeners = [];
 			this._style = new CanvasElementStyle();
+			this._listenForStyleChanges(this._style);
 		}
 
 
@@ -213,6 +316,21 @@ namespace KIP {
 		}
 
 
+		/**...........................................................................
+		 * _listenForStyleChanges
+		 * ...........................................................................
+		 * repaint this element whenever its style changes
+		 * 
+		 * @param	style	The style to listen to
+		 * ...........................................................................
+		 */
+		private _listenForStyleChanges (style: CanvasElementStyle): void {
+			style.addGeneralChangeListener(() => {
+				if (this._style !== style) { return; }
+				this.markDirty();
+			});
+		}
+
 		/**...........................................................................
 		 * _restoreStyle
 		 * ...........................................................................
@@ -256,6 +374,9 @@ namespace KIP {
 			// add the cloned element to the same layer we're on
 			this._parent.addElement(clone);
 
+			// remember what is applied, so it can be saved along with the element
+			this._transformDetails = transformDetails;
+
 		}
 
 		/**...........................................................................
@@ -309,6 +430,7 @@ namespace KIP {
 				w: newWidth,
 				h: newHeight
 			};
+			this._notifyDimensionsChanged();
 		}
 	
 		/**...........................................................................
@@ -339,6 +461,7 @@ namespace KIP {
 
 			this._dimensions.x += adjustPt.x;
 			this._dimensions.y += adjustPt.y;
+			this._notifyDimensionsChanged();
 		}
 
 		/**...........................................................................
@@ -354,6 +477,9 @@ namespace KIP {
 			if (!this._canvas) { return; }
 			if (this._isHidden) { return; }
 
+			// Don't bother if we're outside of the part of the canvas being repainted
+			if (!this._isInRepaintRegion()) { return; }
+
 			// Get the context from the canvas, as appropriate for this particular element
 			let context: CanvasRenderingContext2D;
 
@@ -399,7 +525,19 @@ namespace KIP {
 		 */
 		protected _setDimensions (dim: IBasicRect): void {
 			this._dimensions = dim;
-			if (this._canvas) { this._canvas.needsRedraw = true; }
+			this._notifyDimensionsChanged();
+			this.markDirty();
+		}
+
+		/**...........................................................................
+		 * _notifyDimensionsChanged
+		 * ...........................................................................
+		 * Let our parent know that we've moved, so it can keep its index in sync
+		 * ...........................................................................
+		 */
+		protected _notifyDimensionsChanged (): void {
+			if (!this._parent) { return; }
+			this._parent.updateElementIndex(this);
 		}
 
 		/**...........................................................................
@@ -411,6 +549,295 @@ namespace KIP {
 		 */
 		protected _setCanvas (canvas: HTML5Canvas): void {
 			this._canvas = canvas;
+			this._enableManipulation();
+		}
+
+		//#endregion
+
+		//#region ANIMATION
+
+		/**...........................................................................
+		 * animate
+		 * ...........................................................................
+		 * Move, resize, fade and / or recolor this element over time. Animations
+		 * on the same element run one after the other, so calls can be chained.
+		 * 
+		 * @param	target		The state the element should end up in
+		 * @param	options		How the animation should play out
+		 * 
+		 * @returns	The animation, whose finished promise resolves when it is done
+		 * ...........................................................................
+		 */
+		public animate (target: ICanvasAnimationTarget, options?: ICanvasAnimationOptions): CanvasAnimation {
+			let animation: CanvasAnimation = new CanvasAnimation(
+				() => { return this._createAnimationStep(target); },
+				options,
+				this._lastAnimation
+			);
+			this._lastAnimation = animation;
+
+			// without a canvas to drive the animation, just jump to the end
+			if (!this._canvas) {
+				animation.finish();
+				return animation;
+			}
+
+			return this._canvas.addAnimation(animation);
+		}
+
+		/**...........................................................................
+		 * _createAnimationStep
+		 * ...........................................................................
+		 * Capture where the element is starting from, and create the function that
+		 * moves it towards the target
+		 * 
+		 * @param	target	The state the element should end up in
+		 * 
+		 * @returns	The function to apply each step of the animation
+		 * ...........................................................................
+		 */
+		protected _createAnimationStep (target: ICanvasAnimationTarget): CanvasAnimationStep {
+			let startDim: IBasicRect = cloneRect(this._dimensions);
+			let startOpacity: number = isNullOrUndefined(this._style.opacity) ? 1 : this._style.opacity;
+			let startFill: CanvasColor = this._style.fillColor;
+			let startStroke: CanvasColor = this._style.strokeColor;
+
+			let isMoving: boolean = !isNullOrUndefined(target.x) || !isNullOrUndefined(target.y);
+			let isResizing: boolean = !isNullOrUndefined(target.w) || !isNullOrUndefined(target.h);
+
+			return (progress: number) => {
+				if (isMoving) {
+					this._moveTo({
+						x: isNullOrUndefined(target.x) ? this._dimensions.x : interpolateNumber(startDim.x, target.x, progress),
+						y: isNullOrUndefined(target.y) ? this._dimensions.y : interpolateNumber(startDim.y, target.y, progress)
+					});
+				}
+
+				if (isResizing) {
+					this._resize(
+						isNullOrUndefined(target.w) ? this._dimensions.w : interpolateNumber(startDim.w, target.w, progress),
+						isNullOrUndefined(target.h) ? this._dimensions.h : interpolateNumber(startDim.h, target.h, progress)
+					);
+				}
+
+				if (!isNullOrUndefined(target.opacity)) {
+					this._style.opacity = interpolateNumber(startOpacity, target.opacity, progress);
+				}
+
+				if (target.fillColor) {
+					this._style.fillColor = CanvasElement._interpolateCanvasColor(startFill, target.fillColor, progress);
+				}
+
+				if (target.strokeColor) {
+					this._style.strokeColor = CanvasElement._interpolateCanvasColor(startStroke, target.strokeColor, progress);
+				}
+
+				this.markDirty();
+			};
+		}
+
+		/** shift between colors, landing exactly on the target color at the end */
+		private static _interpolateCanvasColor (start: CanvasColor, end: string, progress: number): CanvasColor {
+			if (progress >= 1) { return end; }
+
+			// gradients & patterns can't be blended, so they just switch over
+			if (typeof start !== "string") { return (progress < 0.5) ? start : end; }
+			return interpolateColor(start, end, progress);
+		}
+
+		/**...........................................................................
+		 * _moveTo
+		 * ...........................................................................
+		 * Move the element so its top-left corner is at the specified point
+		 * 
+		 * @param	pt	Where the element should be, in absolute space
+		 * ...........................................................................
+		 */
+		protected _moveTo (pt: IPoint): void {
+			this.adjustDimensions({
+				x: pt.x - this._dimensions.x,
+				y: pt.y - this._dimensions.y
+			});
+		}
+
+		/**...........................................................................
+		 * _resize
+		 * ...........................................................................
+		 * Change the size of the element, keeping its top-left corner in place
+		 * 
+		 * @param	w	The new width, in absolute space
+		 * @param	h	The new height, in absolute space
+		 * ...........................................................................
+		 */
+		protected _resize (w: number, h: number): void {
+			this._dimensions.w = w;
+			this._dimensions.h = h;
+			this._notifyDimensionsChanged();
+		}
+
+		//#endregion
+
+		//#region SERIALIZATION
+
+		/**...........................................................................
+		 * toJSON
+		 * ...........................................................................
+		 * Create a serializable version of this element
+		 * 
+		 * @returns	The JSON representation of this element
+		 * ...........................................................................
+		 */
+		public toJSON (): ICanvasElementJSON {
+			let out: ICanvasElementJSON = {
+				type: this.type,
+				id: this._id,
+				dimensions: cloneRect(this._dimensions),
+				layer: this._layer,
+				style: this._style.toJSON()
+			};
+
+			if (this._isHidden) { out.hidden = true; }
+			if (this._transformDetails) { out.transform = cloneObject(this._transformDetails); }
+
+			return out;
+		}
+
+		/**...........................................................................
+		 * fromJSON
+		 * ...........................................................................
+		 * Recreate an element from its serialized version
+		 * 
+		 * @param	json	The JSON representation of the element
+		 * 
+		 * @returns	The recreated element
+		 * ...........................................................................
+		 */
+		public static fromJSON (json: ICanvasElementJSON): CanvasElement {
+			if (!json) { return null; }
+
+			let elem: CanvasElement;
+			let dim: IBasicRect = cloneRect(json.dimensions);
+
+			switch (json.type) {
+				case ElementType.Rectangle:
+					elem = new RectangleElement(json.id, dim);
+					break;
+
+				case ElementType.Circle:
+					let radius: IPoint = clonePoint(json.radius);
+					elem = new CircleElement(json.id, { x: dim.x + radius.x, y: dim.y + radius.y }, radius);
+					break;
+
+				case ElementType.Path:
+					elem = new PathElement(json.id, clonePointArray(json.points || []));
+					break;
+
+				case ElementType.Text:
+					elem = new TextElement(json.id, json.text, { x: dim.x, y: dim.y });
+					break;
+
+				case ElementType.Group:
+					elem = new CanvasGroup(json.id);
+					break;
+
+				case ElementType.Image:
+					elem = new ImageElement(json.id, json.src, dim, json.sprite);
+					break;
+
+				default:
+					throw new Error("unknown canvas element type: " + json.type);
+			}
+
+			elem._loadJSON(json);
+			return elem;
+		}
+
+		/**...........................................................................
+		 * _loadJSON
+		 * ...........................................................................
+		 * Pull in the details of a serialized element that weren't needed to 
+		 * construct it
+		 * 
+		 * @param	json	The JSON representation of this element
+		 * ...........................................................................
+		 */
+		protected _loadJSON (json: ICanvasElementJSON): void {
+			if (!isNullOrUndefined(json.layer)) { this._layer = json.layer; }
+			this.style = CanvasElementStyle.fromJSON(json.style);
+			this._isHidden = !!json.hidden;
+		}
+
+		//#endregion
+
+		//#region DIRTY REGIONS
+
+		/**...........................................................................
+		 * markDirty
+		 * ...........................................................................
+		 * Flag the area this element covers (both where it was last drawn and 
+		 * where it will be drawn next) as needing to be repainted
+		 * ...........................................................................
+		 */
+		public markDirty (): void {
+			if (!this._canvas) { return; }
+			for (let region of this._getDirtyRegions()) {
+				this._canvas.markDirty(region);
+			}
+		}
+
+		/**...........................................................................
+		 * _getDirtyRegions
+		 * ...........................................................................
+		 * Determine the relative regions that need to be repainted when this 
+		 * element changes
+		 * 
+		 * @returns	The regions to repaint
+		 * ...........................................................................
+		 */
+		protected _getDirtyRegions (): IBasicRect[] {
+			let out: IBasicRect[] = [];
+			if (this._displayDimensions) { out.push(this._padForRepaint(this._displayDimensions)); }
+			out.push(this._padForRepaint(this._canvas.convertAbsoluteRectToRelativeRect(this._dimensions)));
+			return out;
+		}
+
+		/**...........................................................................
+		 * _padForRepaint
+		 * ...........................................................................
+		 * Grow a display rect to include anything drawn past its edges, such as 
+		 * strokes
+		 * 
+		 * @param	rect	The rect to pad
+		 * 
+		 * @returns	The padded rect
+		 * ...........................................................................
+		 */
+		protected _padForRepaint (rect: IBasicRect): IBasicRect {
+			let pad: number = (this._style.strokeSize || 0);
+			if (this._isFocused && this._canvas) { pad += this._canvas.focusRingPadding; }
+			if (this._isSelected && this._canvas) { pad += this._canvas.selectionPadding; }
+			if (this.isResizable && (this._isSelected || this._isFocused) && this._canvas) { pad += this._canvas.handlePadding; }
+			return {
+				x: rect.x - pad,
+				y: rect.y - pad,
+				w: rect.w + (2 * pad),
+				h: rect.h + (2 * pad)
+			};
+		}
+
+		/**...........................................................................
+		 * _isInRepaintRegion
+		 * ...........................................................................
+		 * Determine whether this element is in the part of the canvas currently 
+		 * being repainted
+		 * ...........................................................................
+		 */
+		protected _isInRepaintRegion (): boolean {
+			if (!this._canvas.isRepaintingRegions) { return true; }
+
+			// an element that hasn't been placed yet can't be in any region
+			if (!this._displayDimensions) { return false; }
+			return this._canvas.isRegionDirty(this._padForRepaint(this._displayDimensions));
 		}
 
 		//#endregion
@@ -478,11 +905,21 @@ namespace KIP {
 			// Make sure we apply properties regardless of whether there are additional handlers
 			if ((eventType === EventTypeEnum.BLUR) || (eventType === EventTypeEnum.LEAVE)) {
 				if (this._parent) { this._parent.removeElement(this.id + "|e"); }
+				this._transformDetails = null;
 				this._isHoverTarget = false;
 			} else if (eventType === EventTypeEnum.HOVER) {
 				this._isHoverTarget = true;
 			}
 
+			// repaint wherever the focus ring is (or was) drawn
+			if ((eventType === EventTypeEnum.BLUR) && this._isFocused) {
+				this.markDirty();
+				this._isFocused = false;
+			} else if (eventType === EventTypeEnum.FOCUS) {
+				this._isFocused = true;
+				this.markDirty();
+			}
+
 			// Add the event to the list
 			let list: CanvasEventHandler[] = this._eventFunctions[eventType];
 			if (!list) { return; }
@@ -493,12 +930,117 @@ namespace KIP {
 				func(pt, e);
 			}
 
-			// If we have a canvas, tell it to redraw
-			if (!this._canvas) { this._canvas.needsRedraw = true; }
+			// the handlers may have changed how we look, so repaint our area
+			this.markDirty();
+		}
+
+		/** check whether anything is listening for any of the specified events */
+		protected _hasListeners (...eventTypes: EventTypeEnum[]): boolean {
+			for (let eventType of eventTypes) {
+				let list: CanvasEventHandler[] = this._eventFunctions[eventType];
+				if (list && list.length > 0) { return true; }
+			}
+			return false;
+		}
+
+		/** describe the element by its ID unless something better is available */
+		protected _getDefaultDescription (): string {
+			return this._id;
 		}
 	
 		//#endregion
 
+		//#region DIRECT MANIPULATION
+
+		/**...........................................................................
+		 * makeDraggable
+		 * ...........................................................................
+		 * Allow the element to be dragged around the canvas with the mouse
+		 * 
+		 * @param	options		How the element can be dragged
+		 * ...........................................................................
+		 */
+		public makeDraggable (options?: ICanvasManipulationOptions): void {
+			this._dragOptions = CanvasElement._createManipulationOptions(options);
+			this._enableManipulation();
+		}
+
+		/**...........................................................................
+		 * makeResizable
+		 * ...........................................................................
+		 * Allow the element to be resized through handles drawn around it while 
+		 * it is selected or focused
+		 * 
+		 * @param	options		How the element can be resized
+		 * ...........................................................................
+		 */
+		public makeResizable (options?: ICanvasManipulationOptions): void {
+			this._resizeOptions = CanvasElement._createManipulationOptions(options);
+			this._enableManipulation();
+			this.markDirty();
+		}
+
+		/** make sure the canvas can handle dragging, if this element can be dragged or resized */
+		private _enableManipulation (): void {
+			if (!this._canvas) { return; }
+			if (!this.isDraggable && !this.isResizable) { return; }
+			this._canvas.enableManipulation();
+		}
+
+		/** fill in the defaults for how an element can be manipulated */
+		private static _createManipulationOptions (options: ICanvasManipulationOptions): ICanvasManipulationOptions {
+			return reconcileOptions(options || {}, {
+				gridSize: null,
+				constrain: null,
+				minSize: { width: 1, height: 1 }
+			});
+		}
+
+		/** collect listeners for when the element is moved or resized */
+		public addManipulationListener (type: ManipulationTypeEnum, func: CanvasManipulationHandler): void {
+			let list: CanvasManipulationHandler[] = this._manipulationListeners[type];
+			if (!list) {
+				list = [];
+				this._manipulationListeners[type] = list;
+			}
+
+			list.push(func);
+		}
+
+		/**...........................................................................
+		 * applyDimensions
+		 * ...........................................................................
+		 * Move & resize the element to a new position
+		 * 
+		 * @param	dim		The new dimensions, in absolute space
+		 * ...........................................................................
+		 */
+		public applyDimensions (dim: IBasicRect): void {
+			this._moveTo(dim);
+			this._resize(dim.w, dim.h);
+			this.markDirty();
+		}
+
+		/**...........................................................................
+		 * notifyManipulated
+		 * ...........................................................................
+		 * Let listeners know that the element has been moved or resized
+		 * 
+		 * @param	type	How the element was changed
+		 * @param	e		The event that finished the change
+		 * ...........................................................................
+		 */
+		public notifyManipulated (type: ManipulationTypeEnum, e?: Event): void {
+			let list: CanvasManipulationHandler[] = this._manipulationListeners[type];
+			if (!list) { return; }
+
+			for (let func of list) {
+				func(cloneRect(this._dimensions), e);
+			}
+		}
+
+		//#endregion
+
 		//#region HIDE AND SHOW THE ELEMENT
 
 		/**...........................................................................
@@ -524,7 +1066,7 @@ namespace KIP {
 		public hide(): void {
 			if (this._isHidden) { return; }
 			this._isHidden = true;
-			this._canvas.needsRedraw = true;
+			this.markDirty();
 		}
 
 		/**...........................................................................
@@ -536,7 +1078,7 @@ namespace KIP {
 		public show(): void {
 			if (!this._isHidden) { return; }
 			this._isHidden = false;
-			this._canvas.needsRedraw = true;
+			this.markDirty();
 		}
 
 		//#endregion
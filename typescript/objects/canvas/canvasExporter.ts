@@ -0,0 +1,489 @@
+///<reference path="canvas.ts" />
+///<reference path="../../helpers/svg.ts" />
+namespace KIP {
+
+	//#region INTERFACES
+
+	/**...........................................................................
+	 * ICanvasExportOptions
+	 * ...........................................................................
+	 * Options for exporting a canvas scene
+	 * ...........................................................................
+	 */
+	export interface ICanvasExportOptions {
+
+		/** how much to scale the absolute extent of the scene by; defaults to 1 */
+		scale?: number;
+
+		/** how much empty space to leave around the scene, in absolute units */
+		padding?: number;
+
+		/** color to fill behind the scene; transparent if not specified */
+		backgroundColor?: string;
+
+		/** if true, hover & other effect elements are exported as well */
+		includeEffects?: boolean;
+
+		/** 
+		 * if true, loaded images are embedded in SVG exports as data URLs instead 
+		 * of being linked; PNG exports always embed them
+		 */
+		inlineImages?: boolean;
+	}
+
+	//#endregion
+
+	/**...........................................................................
+	 * @class CanvasExporter
+	 * ...........................................................................
+	 * Export the full scene of an HTML5Canvas (not just the current view) as
+	 * SVG or PNG
+	 * @version 1.0
+	 * ...........................................................................
+	 */
+	export class CanvasExporter {
+
+		//#region PROPERTIES
+
+		/** the canvas being exported */
+		protected _canvas: HTML5Canvas;
+
+		/** options for the export */
+		protected _options: ICanvasExportOptions;
+
+		/** whether images are embedded in the export currently being created */
+		protected _inlineImages: boolean;
+
+		/** data URLs already created for images in the current export, by source */
+		protected _imageData: { [src: string]: string };
+
+		//#endregion
+
+		/**...........................................................................
+		 * Create an exporter for a canvas
+		 *
+		 * @param	canvas		The canvas to export
+		 * @param	options		How the export should be performed
+		 * ...........................................................................
+		 */
+		constructor(canvas: HTML5Canvas, options?: ICanvasExportOptions) {
+			this._canvas = canvas;
+			this._options = reconcileOptions(options || {}, {
+				scale: 1,
+				padding: 0,
+				backgroundColor: "",
+				includeEffects: false,
+				inlineImages: false
+			});
+		}
+
+		//#region PUBLIC EXPORTS
+
+		/**...........................................................................
+		 * toSVGElement
+		 * ...........................................................................
+		 * Create an SVG element that represents everything on the canvas
+		 *
+		 * @param	inlineImages	If true, embed loaded images as data URLs, even
+		 * 							if the options don't ask for it
+		 *
+		 * @returns	The SVG element for the scene
+		 * ...........................................................................
+		 */
+		public toSVGElement(inlineImages?: boolean): SVGElement {
+			this._inlineImages = inlineImages || this._options.inlineImages;
+			this._imageData = {};
+
+			let bounds: IBasicRect = this.getExtent();
+			let scale: number = this._options.scale;
+
+			let svg: SVGElement = createSVG(
+				"",
+				CanvasExporter._round(bounds.w * scale),
+				CanvasExporter._round(bounds.h * scale),
+				[bounds.x, bounds.y, bounds.w, bounds.h].map(CanvasExporter._round).join(" ")
+			);
+
+			if (this._options.backgroundColor) {
+				svg.appendChild(createSVGElem("rect", {
+					x: bounds.x,
+					y: bounds.y,
+					width: bounds.w,
+					height: bounds.h,
+					fill: this._options.backgroundColor
+				}));
+			}
+
+			for (let layer of this._canvas.layers) {
+				if (!layer) { continue; }
+				let layerElem: SVGElement = this._exportElement(layer);
+				if (layerElem) { svg.appendChild(layerElem); }
+			}
+
+			return svg;
+		}
+
+		/**...........................................................................
+		 * toSVG
+		 * ...........................................................................
+		 * Serialize everything on the canvas to an SVG document
+		 *
+		 * @returns	The SVG document, as a string
+		 * ...........................................................................
+		 */
+		public toSVG(): string {
+			return new XMLSerializer().serializeToString(this.toSVGElement());
+		}
+
+		/**...........................................................................
+		 * toPNG
+		 * ...........................................................................
+		 * Render everything on the canvas to a PNG, at the scale specified in the
+		 * options
+		 *
+		 * @returns	Promise that resolves with the data URL of the PNG
+		 * ...........................................................................
+		 */
+		public toPNG(): KipPromise {
+
+			// an SVG drawn as an image can't load anything external, so images are embedded
+			let svg: SVGElement = this.toSVGElement(true);
+			let width: number = parseFloat(svg.getAttribute("width")) || 1;
+			let height: number = parseFloat(svg.getAttribute("height")) || 1;
+			let svgString: string = new XMLSerializer().serializeToString(svg);
+
+			return new KipPromise((resolve: Function, reject: Function) => {
+				let img: HTMLImageElement = new Image();
+
+				img.onload = () => {
+					let pngCanvas: HTMLCanvasElement = document.createElement("canvas");
+					pngCanvas.width = Math.ceil(width);
+					pngCanvas.height = Math.ceil(height);
+					pngCanvas.getContext("2d").drawImage(img, 0, 0, width, height);
+
+					// a tainted canvas can't be read back, which would otherwise leave the promise hanging
+					try {
+						resolve(pngCanvas.toDataURL("image/png"));
+					} catch (e) {
+						reject(e);
+					}
+				};
+
+				img.onerror = () => {
+					reject(new Error("could not render canvas scene to PNG"));
+				};
+
+				img.src = "data:image/svg+xml;charset=utf-8," + encodeURIComponent(svgString);
+			});
+		}
+
+		/**...........................................................................
+		 * getExtent
+		 * ...........................................................................
+		 * Find the absolute region covered by everything that will be exported
+		 *
+		 * @returns	The region to export, including any padding
+		 * ...........................................................................
+		 */
+		public getExtent(): IBasicRect {
+			let extent: IBasicRect;
+
+			for (let layer of this._canvas.layers) {
+				if (!layer) { continue; }
+				extent = this._growExtent(extent, layer);
+			}
+
+			// an empty canvas still needs some size
+			if (!extent) { extent = { x: 0, y: 0, w: 1, h: 1 }; }
+
+			let pad: number = this._options.padding;
+			return {
+				x: extent.x - pad,
+				y: extent.y - pad,
+				w: Math.max(extent.w, 1) + (2 * pad),
+				h: Math.max(extent.h, 1) + (2 * pad)
+			};
+		}
+
+		//#endregion
+
+		//#region EXTENT CALCULATION
+
+		/**...........................................................................
+		 * _growExtent
+		 * ...........................................................................
+		 * Expand an extent to include an element (and its children, for groups)
+		 *
+		 * @param	extent	The extent so far
+		 * @param	elem	The element to include
+		 *
+		 * @returns	The expanded extent
+		 * ...........................................................................
+		 */
+		private _growExtent(extent: IBasicRect, elem: CanvasElement): IBasicRect {
+			if (!this._shouldExport(elem)) { return extent; }
+
+			// groups are only as big as whatever in them is exported
+			if (elem.type === ElementType.Group) {
+				for (let child of (elem as CanvasGroup).elements) {
+					extent = this._growExtent(extent, child);
+				}
+				return extent;
+			}
+
+			let dim: IBasicRect = elem.dimensions;
+			if (!extent) { return cloneRect(dim); }
+
+			let right: number = Math.max(extent.x + extent.w, dim.x + dim.w);
+			let bottom: number = Math.max(extent.y + extent.h, dim.y + dim.h);
+			let x: number = Math.min(extent.x, dim.x);
+			let y: number = Math.min(extent.y, dim.y);
+
+			return {
+				x: x,
+				y: y,
+				w: right - x,
+				h: bottom - y
+			};
+		}
+
+		//#endregion
+
+		//#region ELEMENT SERIALIZATION
+
+		/**...........................................................................
+		 * _shouldExport
+		 * ...........................................................................
+		 * Determine whether an element is part of the exported scene
+		 * ...........................................................................
+		 */
+		private _shouldExport(elem: CanvasElement): boolean {
+			if (!elem) { return false; }
+			if (elem.isHidden) { return false; }
+			if (elem.isEffect && !this._options.includeEffects) { return false; }
+			return true;
+		}
+
+		/**...........................................................................
+		 * _exportElement
+		 * ...........................................................................
+		 * Create the SVG equivalent of a canvas element
+		 *
+		 * @param	elem	The element to export
+		 *
+		 * @returns	The SVG element, or null if it shouldn't be exported
+		 * ...........................................................................
+		 */
+		private _exportElement(elem: CanvasElement): SVGElement {
+			if (!this._shouldExport(elem)) { return null; }
+
+			switch (elem.type) {
+				case ElementType.Group:
+					return this._exportGroup(elem as CanvasGroup);
+				case ElementType.Rectangle:
+					return this._exportRectangle(elem as RectangleElement);
+				case ElementType.Circle:
+					return this._exportCircle(elem as CircleElement);
+				case ElementType.Path:
+					return this._exportPath(elem as PathElement);
+				case ElementType.Text:
+					return this._exportText(elem as TextElement);
+				case ElementType.Image:
+					return this._exportImage(elem as ImageElement);
+			}
+
+			return null;
+		}
+
+		/** export a group & all of its children */
+		private _exportGroup(grp: CanvasGroup): SVGElement {
+			let out: SVGElement = this._withOpacity(createSVGElem("g", { id: grp.id }), grp);
+
+			for (let child of grp.elements) {
+				let childElem: SVGElement = this._exportElement(child);
+				if (childElem) { out.appendChild(childElem); }
+			}
+
+			return out;
+		}
+
+		/** export a rectangle, rounding the corners if needed */
+		private _exportRectangle(rect: RectangleElement): SVGElement {
+			let dim: IBasicRect = CanvasExporter._normalizeRect(rect.dimensions);
+			let attr: any = {
+				x: dim.x,
+				y: dim.y,
+				width: dim.w,
+				height: dim.h
+			};
+
+			// the radius can't be larger than half of either side
+			if (rect.borderRadius) {
+				attr.rx = Math.min(rect.borderRadius, dim.w / 2);
+				attr.ry = Math.min(rect.borderRadius, dim.h / 2);
+			}
+
+			return this._withStyle(createSVGElem("rect", attr), rect);
+		}
+
+		/** export a circle (or ellipse, if the radii are uneven) */
+		private _exportCircle(circle: CircleElement): SVGElement {
+			let dim: IBasicRect = circle.dimensions;
+			let radius: IPoint = circle.radius;
+
+			// the center tracks the dimensions, since those are what move with the group
+			return this._withStyle(createSVGElem("ellipse", {
+				cx: dim.x + radius.x,
+				cy: dim.y + radius.y,
+				rx: Math.abs(radius.x),
+				ry: Math.abs(radius.y)
+			}), circle);
+		}
+
+		/** export a closed, filled path */
+		private _exportPath(path: PathElement): SVGElement {
+			let commands: string[] = [];
+			for (let i = 0; i < path.points.length; i += 1) {
+				let pt: IPoint = path.points[i];
+				commands.push((i === 0 ? "M" : "L") + CanvasExporter._round(pt.x) + " " + CanvasExporter._round(pt.y));
+			}
+			if (commands.length > 0) { commands.push("Z"); }
+
+			return this._withStyle(createSVGElem("path", { d: commands.join(" ") }), path);
+		}
+
+		/** export text, which is drawn from its baseline */
+		private _exportText(text: TextElement): SVGElement {
+			let dim: IBasicRect = text.dimensions;
+			let style: CanvasElementStyle = text.style;
+
+			let out: SVGElement = createSVGElem("text", {
+				x: dim.x,
+				y: dim.y + dim.h,
+				"text-anchor": CanvasExporter._getTextAnchor(style.textAlign)
+			});
+			out.setAttribute("style", "font: " + style.font);
+			out.textContent = text.text;
+
+			return this._withStyle(out, text);
+		}
+
+		/** export an image, cropping to the current frame if it's a sprite */
+		private _exportImage(image: ImageElement): SVGElement {
+			let dim: IBasicRect = CanvasExporter._normalizeRect(image.dimensions);
+
+			// without a frame, the whole image is just stretched to fit
+			if (!image.sprite) {
+				return this._withOpacity(createSVGElem("image", {
+					id: image.id,
+					href: this._getImageHref(image),
+					x: dim.x,
+					y: dim.y,
+					width: dim.w,
+					height: dim.h,
+					preserveAspectRatio: "none"
+				}), image);
+			}
+
+			// the frame's position depends on the image's size, so it needs to be loaded
+			if (!image.isLoaded) { return null; }
+
+			let source: IBasicRect = image.getSourceRect();
+			let natural: IDimensions = image.naturalSize;
+
+			let out: SVGElement = createSVGElem("svg", {
+				id: image.id,
+				x: dim.x,
+				y: dim.y,
+				width: dim.w,
+				height: dim.h,
+				viewBox: [source.x, source.y, source.w, source.h].join(" "),
+				preserveAspectRatio: "none"
+			});
+			out.appendChild(createSVGElem("image", {
+				href: this._getImageHref(image),
+				width: natural.width,
+				height: natural.height
+			}));
+
+			return this._withOpacity(out, image);
+		}
+
+		/** find what an exported image should link to, embedding it if needed */
+		private _getImageHref(image: ImageElement): string {
+			if (!this._inlineImages) { return image.src; }
+
+			if (!this._imageData[image.src]) {
+				this._imageData[image.src] = image.toDataURL();
+			}
+
+			// images that can't be read (e.g. cross-origin ones) fall back to a link
+			return this._imageData[image.src] || image.src;
+		}
+
+		/**...........................................................................
+		 * _withStyle
+		 * ...........................................................................
+		 * Apply the style of a canvas element to its SVG equivalent. Canvas
+		 * elements are only ever filled, so only the fill & opacity carry over.
+		 *
+		 * @param	svgElem		The SVG element to style
+		 * @param	elem		The canvas element to pull the style from
+		 *
+		 * @returns	The styled SVG element
+		 * ...........................................................................
+		 */
+		private _withStyle(svgElem: SVGElement, elem: CanvasElement): SVGElement {
+			if (elem.id) { svgElem.setAttribute("id", elem.id); }
+
+			// gradients & patterns can't be read back out of the canvas API
+			let fill: CanvasColor = elem.style.fillColor;
+			svgElem.setAttribute("fill", (typeof fill === "string") ? fill : "#000");
+
+			this._withOpacity(svgElem, elem);
+
+			return svgElem;
+		}
+
+		/** carry over the opacity of an element (or a group's contents) */
+		private _withOpacity(svgElem: SVGElement, elem: CanvasElement): SVGElement {
+			let opacity: number = elem.style.opacity;
+			if (!isNullOrUndefined(opacity) && (opacity !== 1)) { svgElem.setAttribute("opacity", opacity.toString()); }
+			return svgElem;
+		}
+
+		//#endregion
+
+		//#region HELPERS
+
+		/** keep numbers in the output short */
+		private static _round(value: number): number {
+			return roundToPlace(value, 1000);
+		}
+
+		/** make sure a rect has a positive width & height */
+		private static _normalizeRect(rect: IBasicRect): IBasicRect {
+			return {
+				x: Math.min(rect.x, rect.x + rect.w),
+				y: Math.min(rect.y, rect.y + rect.h),
+				w: Math.abs(rect.w),
+				h: Math.abs(rect.h)
+			};
+		}
+
+		/** translate a canvas text alignment into an SVG text anchor */
+		private static _getTextAnchor(textAlign: string): string {
+			switch (textAlign) {
+				case "center":
+					return "middle";
+				case "right":
+				case "end":
+					return "end";
+				default:
+					return "start";
+			}
+		}
+
+		//#endregion
+	}
+}
@@ -1,4 +1,5 @@
 ///<reference path="canvasElement.ts" />
+///<reference path="spatialIndex.ts" />
 namespace KIP {
 
 	/** class that stores collections of other canvas elements */
@@ -8,6 +9,19 @@ namespace KIP {
 
 		/** keep track of the elements in this group */
 		protected _elements: Collection<CanvasElement>;
+		public get elements (): CanvasElement[] { return this._elements.toValueArray(); }
+
+		/** spatial index of our elements' absolute dimensions, for hit-testing & culling */
+		protected _index: QuadTree<CanvasElement>;
+
+		/** elements that can't be placed in the index and need to be checked every time, by ID */
+		protected _unindexedElements: { [id: string]: CanvasElement };
+
+		/** elements that were visible as of the last dimension update, in draw order */
+		protected _visibleElements: CanvasElement[];
+
+		/** elements that we have sent a hover event to */
+		protected _hoveredElements: CanvasElement[];
 
 		/** the type of element this is */
 		public get type(): ElementType { return ElementType.Group; }
@@ -39,15 +53,10 @@ namespace KIP {
 		 * ...........................................................................
 		 */
 		public get isHoverTarget(): boolean {
-			let isHoverTarget: boolean = false;
-			this._elements.map((elem: CanvasElement) => {
-				if (elem.isHoverTarget) { 
-					isHoverTarget = true; 
-					return;
-				}
-			});
-
-			return isHoverTarget;
+			for (let elem of this._hoveredElements) {
+				if (elem.isHoverTarget) { return true; }
+			}
+			return false;
 		}
 
 		//#endregion
@@ -62,6 +71,10 @@ namespace KIP {
 		constructor (id: string, refPoint?: IPoint) {
 			super(id);
 			this._elements = new Collection<CanvasElement>();
+			this._index = new QuadTree<CanvasElement>();
+			this._unindexedElements = {};
+			this._visibleElements = [];
+			this._hoveredElements = [];
 			
 			if (refPoint) {
 				this._referencePoint = {
@@ -106,11 +119,29 @@ namespace KIP {
 		 */
 		protected _onDraw (context: CanvasRenderingContext2D): void {
 			
-			// draw the elements relative to the group
-			this._elements.map((elem: CanvasElement) => {
+			// draw the elements relative to the group; anything that wasn't visible
+			// as of the last update is skipped
+			for (let elem of this._visibleElements) {
 				elem.draw();
+			}
+
+		}
+
+		/**...........................................................................
+		 * markDirty
+		 * ...........................................................................
+		 * groups are dirty wherever their elements are
+		 * ...........................................................................
+		 */
+		public markDirty(): void {
+			this._elements.map((elem: CanvasElement) => {
+				elem.markDirty();
 			});
+		}
 
+		/** the elements of the group check the repaint region themselves */
+		protected _isInRepaintRegion(): boolean {
+			return true;
 		}
 
 		/**...........................................................................
@@ -124,17 +155,117 @@ namespace KIP {
 		public updateDimensions(visibleWindow: IBasicRect): void {
 			super.updateDimensions(visibleWindow);
 
+			let previouslyVisible: CanvasElement[] = this._visibleElements;
+			this._visibleElements = [];
+
 			// No need to update if elems will be offscreen
 			if (this._isOffScreen) { 
 				return; 
 			}
 
-			// Add to each of the elements
-			let elem: CanvasElement;
-			this._elements.map((elem) => {
+			// Only the elements near the visible window need to be updated
+			let updated: { [id: string]: boolean } = {};
+			for (let elem of this._getCandidateElements(visibleWindow)) {
+				elem.updateDimensions(visibleWindow);
+				updated[elem.id] = true;
+				if (!elem.isOffScreen) { this._visibleElements.push(elem); }
+			}
+
+			// make sure anything that just scrolled out of view knows it is offscreen
+			for (let elem of previouslyVisible) {
+				if (updated[elem.id]) { continue; }
+				if (!this._elements.hasElement(elem.id)) { continue; }
 				elem.updateDimensions(visibleWindow);
+			}
+
+			this._sortByDrawOrder(this._visibleElements);
+		}
+
+		/**...........................................................................
+		 * _getCandidateElements
+		 * ...........................................................................
+		 * Find the elements that might overlap a region of the canvas, without 
+		 * duplicates
+		 * 
+		 * @param	absoluteRect	The region to look within, in absolute space
+		 * 
+		 * @returns	The elements that may be within the region
+		 * ...........................................................................
+		 */
+		protected _getCandidateElements(absoluteRect: IBasicRect): CanvasElement[] {
+			// unindexed elements are never in the index, so there can't be duplicates
+			let out: CanvasElement[] = this._index.query(absoluteRect);
+			for (let id in this._unindexedElements) {
+				out.push(this._unindexedElements[id]);
+			}
+			return out;
+		}
+
+		/**...........................................................................
+		 * getElementsInRegion
+		 * ...........................................................................
+		 * Find the direct children of this group that overlap a region
+		 * 
+		 * @param	absoluteRect	The region to look within, in absolute space
+		 * 
+		 * @returns	The elements in the region, in the order they are drawn
+		 * ...........................................................................
+		 */
+		public getElementsInRegion(absoluteRect: IBasicRect): CanvasElement[] {
+			let out: CanvasElement[] = [];
+			for (let elem of this._getCandidateElements(absoluteRect)) {
+				if (!elem.dimensions) { continue; }
+				if (!Trig.doBasicRectsOverlap(absoluteRect, elem.dimensions)) { continue; }
+				out.push(elem);
+			}
+
+			this._sortByDrawOrder(out);
+			return out;
+		}
+
+		/** sort elements into the order they were added to the group */
+		private _sortByDrawOrder(elems: CanvasElement[]): void {
+			elems.sort((a: CanvasElement, b: CanvasElement) => {
+				return this._elements.getIndex(a.id) - this._elements.getIndex(b.id);
 			});
+		}
+
+		/**...........................................................................
+		 * updateElementIndex
+		 * ...........................................................................
+		 * Keep the spatial index in sync with an element whose dimensions changed
+		 * 
+		 * @param	elem	The element that changed
+		 * ...........................................................................
+		 */
+		public updateElementIndex(elem: CanvasElement): void {
+			if (!this._elements.hasElement(elem.id)) { return; }
+			if (this._elements.getValue(elem.id) !== elem) { return; }
+
+			this._index.update(elem.id, elem.dimensions);
+			this._updateInternalDimensionsFromElement(elem);
+		}
+
+		/** add an element to the spatial index, or track it separately if it can't be indexed */
+		private _indexElement(elem: CanvasElement): void {
+			if (!elem.isSpatiallyIndexed) {
+				this._unindexedElements[elem.id] = elem;
+				return;
+			}
+			this._index.insert(elem.id, elem.dimensions, elem);
+		}
+
+		/** remove an element from the spatial index & any tracking lists */
+		private _unindexElement(elem: CanvasElement): void {
+			this._index.remove(elem.id);
+			delete this._unindexedElements[elem.id];
+			this._visibleElements = this._removeFromList(this._visibleElements, elem);
+			this._hoveredElements = this._removeFromList(this._hoveredElements, elem);
+		}
 
+		/** create a copy of a list without the specified element */
+		private _removeFromList(list: CanvasElement[], elem: CanvasElement): CanvasElement[] {
+			return list.filter((listElem: CanvasElement) => { return listElem !== elem; });
 		}
 
 		/**...........................................................................
@@ -150,6 +281,10 @@ namespace KIP {
 			// Make sure each element is appropriately shifted
 			elem.adjustDimensions(this._referencePoint);
 
+			// if this replaces an existing element, stop tracking the old one
+			let existing: CanvasElement = this._elements.getValue(elem.id);
+			if (existing) { this._unindexElement(existing); }
+
 			// Add the element to our internal array, and ensure it has a way to get back to us
 			this._elements.addElement(elem.id, elem);
 			elem.parent =  this;
@@ -157,9 +292,12 @@ namespace KIP {
 			// If we have a canvas assigned, also add it to this element
 			if (this._canvas) { 
 				elem.canvas = this._canvas; 
-				this._canvas.needsRedraw = true;
+				elem.markDirty();
 			}
 
+			// the canvas may have changed the element's position, so index it afterwards
+			this._indexElement(elem);
+
 			// make sure we know how big this group is
 			this._updateInternalDimensionsFromElement(elem);
 
@@ -200,6 +338,9 @@ namespace KIP {
 
 			// Don't set these dimensions as default again
 			this._needsInitialDimensions = false;
+
+			// our own parent needs to know we've grown
+			this._notifyDimensionsChanged();
 		}
 
 		/**...........................................................................
@@ -231,6 +372,9 @@ namespace KIP {
 			for (elem of elems) {
 				elem.handleEvent(eventType, pt, e);
 			}
+
+			// track what we're hovering over so it can be cleared later
+			if (eventType === EventTypeEnum.HOVER) { this._hoveredElements = elems; }
 			
 			// TODO: apply a group event to all child elements
 		}
@@ -243,26 +387,33 @@ namespace KIP {
 		 */
 		private _clearHover (relativePoint: IPoint, e: MouseEvent): void {
 		
-			// loop through all of our elements and apply the unhover class
-			this._elements.map((el: CanvasElement) => {
-				if (!el.isHoverTarget) { return; }
+			// loop through the elements we've hovered over and apply the unhover class
+			for (let el of this._hoveredElements) {
+				if (!el.isHoverTarget) { continue; }
 				el.leave(relativePoint, e);
-			});
+			}
+			this._hoveredElements = [];
 		}
 
 		/** find the elements that are located at the provided point */
 		private _findElementsAtPoint(pt: IPoint): CanvasElement[] {
 			let out: CanvasElement[] = [];
-			this._elements.map((elem: CanvasElement) => {
-				if (elem.isOffScreen) { return; }
+
+			// only look at the elements near the point in absolute space
+			let absPt: IPoint = this._canvas.convertRelativePointToAbsolutePoint(pt);
+			let candidates: CanvasElement[] = this._getCandidateElements({ x: absPt.x, y: absPt.y, w: 0, h: 0 });
+
+			for (let elem of candidates) {
+				if (elem.isOffScreen) { continue; }
 
 				// if the point is contained, consider it an 
-				if (!Trig.isPointContained(pt, elem.displayDimensions)) { return; }
+				if (!Trig.isPointContained(pt, elem.displayDimensions)) { continue; }
 
 				// If the event happened at this element, add it to the array
 				out.push(elem);
-			});
+			}
 
+			this._sortByDrawOrder(out);
 			return out;
 		}
 
@@ -270,11 +421,80 @@ namespace KIP {
 		public removeElement (id: string): boolean {
 			let tmp: ICollectionElement<CanvasElement> = this._elements.removeElement(id);
 			if (!tmp) { return false; }
+			this._unindexElement(tmp.value);
+
+			// don't leave focus or selection on something that's no longer drawn
+			if (this._canvas) { this._canvas.handleElementRemoved(tmp.value); }
 
-			this._canvas.needsRedraw = true;
+			tmp.value.markDirty();
 			return true;
 		}
 		
+		/**...........................................................................
+		 * toJSON
+		 * ...........................................................................
+		 * serialize the group along with all of its (non-effect) elements
+		 * ...........................................................................
+		 */
+		public toJSON(): ICanvasElementJSON {
+			let out: ICanvasElementJSON = super.toJSON();
+			out.referencePoint = clonePoint(this._referencePoint);
+			out.children = [];
+
+			// effects are recreated from the transforms of the elements they apply to
+			this._elements.map((elem: CanvasElement) => {
+				if (elem.isEffect) { return; }
+				out.children.push(elem.toJSON());
+			});
+
+			return out;
+		}
+
+		/**...........................................................................
+		 * _loadJSON
+		 * ...........................................................................
+		 * rebuild the elements of the group
+		 * ...........................................................................
+		 */
+		protected _loadJSON(json: ICanvasElementJSON): void {
+			super._loadJSON(json);
+			this.addElementsFromJSON(json.children);
+
+			// serialized dimensions are already absolute, so the reference point 
+			// is applied after the elements are in place instead of shifting them
+			if (json.referencePoint) { this._referencePoint = clonePoint(json.referencePoint); }
+			if (json.dimensions) { this._dimensions = cloneRect(json.dimensions); }
+		}
+
+		/**...........................................................................
+		 * addElementsFromJSON
+		 * ...........................................................................
+		 * recreate serialized elements and add them to this group
+		 * 
+		 * @param	children	The serialized elements to add
+		 * 
+		 * @returns	The elements that were added
+		 * ...........................................................................
+		 */
+		public addElementsFromJSON(children: ICanvasElementJSON[]): CanvasElement[] {
+			let out: CanvasElement[] = [];
+
+			// serialized positions are absolute, so don't shift them by our reference point
+			let refPoint: IPoint = this._referencePoint;
+			this._referencePoint = { x: 0, y: 0 };
+
+			for (let childJSON of (children || [])) {
+				if (!childJSON) { continue; }
+				let child: CanvasElement = CanvasElement.fromJSON(childJSON);
+				this.addElement(child);
+				if (childJSON.transform) { child.transform(childJSON.transform); }
+				out.push(child);
+			}
+
+			this._referencePoint = refPoint;
+			return out;
+		}
+
 		// cloning a group requires cloning its innards
 		protected _cloneForEffect (id: string): CanvasGroup {
 			let refPt: IPoint = clonePoint(this._referencePoint);
@@ -326,6 +546,9 @@ namespace KIP {
 			});
 		}
 
+		/** groups are sized by their contents, so they can't be resized directly */
+		protected _resize(w: number, h: number): void { }
+
 		/**...........................................................................
 		 * _setCanvas
 		 * ...........................................................................
@@ -340,6 +563,9 @@ namespace KIP {
 			this._elements.map((elem: CanvasElement) => {
 				elem.canvas = this._canvas;
 				this._updateInternalDimensionsFromElement(elem);
+
+				// elements may reposition themselves once they have a canvas
+				this._indexElement(elem);
 			});
 		}
 
@@ -0,0 +1,446 @@
+///<reference path="canvas.ts" />
+namespace KIP {
+
+	//#region INTERFACES
+
+	/**...........................................................................
+	 * ManipulationTypeEnum
+	 * ...........................................................................
+	 * The ways an element can be directly manipulated
+	 * ...........................................................................
+	 */
+	export enum ManipulationTypeEnum {
+		MOVE = 0,
+		RESIZE = 1
+	}
+
+	/**...........................................................................
+	 * CanvasDimensionConstraint
+	 * ...........................................................................
+	 * Adjust where an element is being moved or resized to
+	 *
+	 * @param	proposed	Where the element would end up, in absolute space
+	 * @param	original	Where the element was before the drag started
+	 *
+	 * @returns	Where the element should actually end up
+	 * ...........................................................................
+	 */
+	export interface CanvasDimensionConstraint {
+		(proposed: IBasicRect, original: IBasicRect): IBasicRect;
+	}
+
+	/**...........................................................................
+	 * CanvasManipulationHandler
+	 * ...........................................................................
+	 * Callback for when an element has been moved or resized
+	 *
+	 * @param	dimensions	The new absolute dimensions of the element
+	 * @param	e			The event that finished the change
+	 * ...........................................................................
+	 */
+	export interface CanvasManipulationHandler {
+		(dimensions: IBasicRect, e?: Event): void;
+	}
+
+	/**...........................................................................
+	 * ICanvasManipulationOptions
+	 * ...........................................................................
+	 * Options for how an element can be dragged or resized
+	 * ...........................................................................
+	 */
+	export interface ICanvasManipulationOptions {
+
+		/** if set, positions snap to multiples of this size, in absolute space */
+		gridSize?: IPoint;
+
+		/** if set, adjusts where the element ends up */
+		constrain?: CanvasDimensionConstraint;
+
+		/** how small the element can be resized to, in absolute space */
+		minSize?: IDimensions;
+	}
+
+	/**...........................................................................
+	 * IResizeHandle
+	 * ...........................................................................
+	 * Which edges a resize handle moves: -1 for the left / top edge, 1 for the
+	 * right / bottom edge, and 0 to leave that dimension alone
+	 * ...........................................................................
+	 */
+	export interface IResizeHandle {
+		x: number;
+		y: number;
+	}
+
+	//#endregion
+
+	/** the handles drawn around resizable elements */
+	const RESIZE_HANDLES: IResizeHandle[] = [
+		{ x: -1, y: -1 }, { x: 0, y: -1 }, { x: 1, y: -1 },
+		{ x: -1, y: 0 }, { x: 1, y: 0 },
+		{ x: -1, y: 1 }, { x: 0, y: 1 }, { x: 1, y: 1 }
+	];
+
+	/**...........................................................................
+	 * @class CanvasManipulator
+	 * ...........................................................................
+	 * Let elements that opt in be dragged around and resized directly on the
+	 * canvas. Resize handles are drawn on the effect layer for any resizable
+	 * element that is selected or focused.
+	 * @version 1.0
+	 * ...........................................................................
+	 */
+	export class CanvasManipulator {
+
+		//#region PROPERTIES
+
+		/** the canvas elements are manipulated on */
+		protected _canvas: HTML5Canvas;
+
+		/** the element being dragged, if any */
+		protected _target: CanvasElement;
+
+		/** the handle being dragged; null if the element is being moved */
+		protected _handle: IResizeHandle;
+
+		/** where the drag started, in absolute space */
+		protected _startPoint: IPoint;
+
+		/** where the element was when the drag started */
+		protected _startDimensions: IBasicRect;
+
+		/** true once the element has actually changed during this drag */
+		protected _hasChanged: boolean;
+
+		/** true if the click that ends a drag should be ignored */
+		protected _ignoreNextClick: boolean;
+
+		/** how big resize handles are drawn, in px */
+		protected _handleSize: number;
+
+		/** how far outside of an element its resize handles extend */
+		public get handlePadding(): number { return this._handleSize; }
+
+		/** listeners for the rest of a drag, which can leave the canvas */
+		private _windowMouseMove: (e: MouseEvent) => void;
+		private _windowMouseUp: (e: MouseEvent) => void;
+
+		//#endregion
+
+		/**...........................................................................
+		 * Create a manipulator for a canvas
+		 *
+		 * @param	canvas	The canvas elements will be manipulated on
+		 * ...........................................................................
+		 */
+		constructor(canvas: HTML5Canvas) {
+			this._canvas = canvas;
+			this._handleSize = 8;
+			this._windowMouseMove = (e: MouseEvent) => { this._onMouseMove(e); };
+			this._windowMouseUp = (e: MouseEvent) => { this._onMouseUp(e); };
+		}
+
+		//#region EVENT HANDLING
+
+		/**...........................................................................
+		 * handleMouseDown
+		 * ...........................................................................
+		 * Start a drag if the mouse went down on something that can be moved or
+		 * resized; the canvas passes along its mousedown events
+		 * ...........................................................................
+		 */
+		public handleMouseDown(e: MouseEvent): void {
+			this._onMouseDown(e);
+			if (!this._target) { return; }
+
+			window.addEventListener("mousemove", this._windowMouseMove);
+			window.addEventListener("mouseup", this._windowMouseUp);
+		}
+
+		/**...........................................................................
+		 * handleClick
+		 * ...........................................................................
+		 * Keep the click that ends a drag from being treated as a click on the
+		 * element; the canvas passes along its click events before anything else
+		 * sees them
+		 * ...........................................................................
+		 */
+		public handleClick(e: MouseEvent): void {
+			if (!this._ignoreNextClick) { return; }
+			this._ignoreNextClick = false;
+			e.stopImmediatePropagation();
+		}
+
+		/**...........................................................................
+		 * cancelDrag
+		 * ...........................................................................
+		 * Stop any drag in progress, leaving the element wherever it is
+		 * ...........................................................................
+		 */
+		public cancelDrag(): void {
+			this._target = null;
+			this._stopListeningToWindow();
+		}
+
+		/** stop following the mouse once a drag is over */
+		private _stopListeningToWindow(): void {
+			window.removeEventListener("mousemove", this._windowMouseMove);
+			window.removeEventListener("mouseup", this._windowMouseUp);
+		}
+
+		/**...........................................................................
+		 * _onMouseDown
+		 * ...........................................................................
+		 * Start resizing if a handle was grabbed, or moving if a draggable
+		 * element was. Either way, the canvas doesn't pan or start selecting.
+		 * ...........................................................................
+		 */
+		protected _onMouseDown(e: MouseEvent): void {
+			if (e.button !== 0) { return; }
+			this._ignoreNextClick = false;
+
+			let absPt: IPoint = this._toAbsolutePoint(e);
+			let displayPt: IPoint = this._canvas.convertAbsolutePointToRelativePoint(absPt);
+
+			// handles sit on top of everything, so check them first
+			let handle: IResizeHandle = null;
+			let target: CanvasElement = null;
+			for (let elem of this._getElementsWithHandles()) {
+				handle = this._findHandleAt(elem, displayPt);
+				if (handle) { target = elem; break; }
+			}
+
+			if (!target) {
+				target = this._canvas.findTopElementAt(absPt, (elem: CanvasElement) => elem.isDraggable);
+			}
+			if (!target) { return; }
+
+			e.stopImmediatePropagation();
+
+			this._target = target;
+			this._handle = handle;
+			this._startPoint = absPt;
+			this._startDimensions = cloneRect(target.dimensions);
+			this._hasChanged = false;
+		}
+
+		/**...........................................................................
+		 * _onMouseMove
+		 * ...........................................................................
+		 * Move or resize the element along with the mouse
+		 * ...........................................................................
+		 */
+		protected _onMouseMove(e: MouseEvent): void {
+			if (!this._target) { return; }
+
+			let pt: IPoint = this._toAbsolutePoint(e);
+			let delta: IPoint = {
+				x: pt.x - this._startPoint.x,
+				y: pt.y - this._startPoint.y
+			};
+
+			let dim: IBasicRect;
+			if (this._handle) {
+				dim = this._calculateResize(delta, this._target.resizeOptions);
+			} else {
+				dim = this._calculateMove(delta, this._target.dragOptions);
+			}
+
+			if (CanvasManipulator._isSameRect(dim, this._target.dimensions)) { return; }
+
+			this._target.applyDimensions(dim);
+			this._hasChanged = true;
+		}
+
+		/**...........................................................................
+		 * _onMouseUp
+		 * ...........................................................................
+		 * Finish the drag, letting the element's listeners know where it ended up
+		 * ...........................................................................
+		 */
+		protected _onMouseUp(e: MouseEvent): void {
+			this._stopListeningToWindow();
+
+			let target: CanvasElement = this._target;
+			if (!target) { return; }
+			this._target = null;
+
+			if (!this._hasChanged) { return; }
+			this._ignoreNextClick = true;
+
+			let type: ManipulationTypeEnum = this._handle ? ManipulationTypeEnum.RESIZE : ManipulationTypeEnum.MOVE;
+			target.notifyManipulated(type, e);
+		}
+
+		//#endregion
+
+		//#region DIMENSION CALCULATION
+
+		/**...........................................................................
+		 * _calculateMove
+		 * ...........................................................................
+		 * Figure out where the element should move to
+		 *
+		 * @param	delta		How far the mouse has moved, in absolute space
+		 * @param	options		How the element can be moved
+		 *
+		 * @returns	The new dimensions for the element
+		 * ...........................................................................
+		 */
+		protected _calculateMove(delta: IPoint, options: ICanvasManipulationOptions): IBasicRect {
+			let start: IBasicRect = this._startDimensions;
+			let grid: IPoint = options.gridSize;
+
+			let out: IBasicRect = {
+				x: CanvasManipulator._snap(start.x + delta.x, grid && grid.x),
+				y: CanvasManipulator._snap(start.y + delta.y, grid && grid.y),
+				w: start.w,
+				h: start.h
+			};
+
+			if (options.constrain) { out = options.constrain(out, cloneRect(start)); }
+			return out;
+		}
+
+		/**...........................................................................
+		 * _calculateResize
+		 * ...........................................................................
+		 * Figure out what the element should be resized to, based on the handle
+		 * being dragged
+		 *
+		 * @param	delta		How far the mouse has moved, in absolute space
+		 * @param	options		How the element can be resized
+		 *
+		 * @returns	The new dimensions for the element
+		 * ...........................................................................
+		 */
+		protected _calculateResize(delta: IPoint, options: ICanvasManipulationOptions): IBasicRect {
+			let start: IBasicRect = this._startDimensions;
+			let grid: IPoint = options.gridSize || { x: 0, y: 0 };
+			let minSize: IDimensions = options.minSize;
+
+			let left: number = start.x;
+			let right: number = start.x + start.w;
+			let top: number = start.y;
+			let bottom: number = start.y + start.h;
+
+			// move whichever edges the handle controls, keeping them from crossing
+			if (this._handle.x === -1) {
+				left = Math.min(CanvasManipulator._snap(left + delta.x, grid.x), right - minSize.width);
+			} else if (this._handle.x === 1) {
+				right = Math.max(CanvasManipulator._snap(right + delta.x, grid.x), left + minSize.width);
+			}
+
+			if (this._handle.y === -1) {
+				top = Math.min(CanvasManipulator._snap(top + delta.y, grid.y), bottom - minSize.height);
+			} else if (this._handle.y === 1) {
+				bottom = Math.max(CanvasManipulator._snap(bottom + delta.y, grid.y), top + minSize.height);
+			}
+
+			let out: IBasicRect = {
+				x: left,
+				y: top,
+				w: right - left,
+				h: bottom - top
+			};
+
+			if (options.constrain) { out = options.constrain(out, cloneRect(start)); }
+			return out;
+		}
+
+		/** check whether two rects cover the same area */
+		private static _isSameRect(a: IBasicRect, b: IBasicRect): boolean {
+			return (a.x === b.x) && (a.y === b.y) && (a.w === b.w) && (a.h === b.h);
+		}
+
+		/** round a value to the nearest grid line */
+		private static _snap(value: number, gridSize: number): number {
+			if (!gridSize) { return value; }
+			return Math.round(value / gridSize) * gridSize;
+		}
+
+		//#endregion
+
+		//#region RESIZE HANDLES
+
+		/**...........................................................................
+		 * draw
+		 * ...........................................................................
+		 * Draw resize handles for the elements that should show them
+		 *
+		 * @param	context		The context to draw on
+		 * ...........................................................................
+		 */
+		public draw(context: CanvasRenderingContext2D): void {
+			let elems: CanvasElement[] = this._getElementsWithHandles();
+			if (elems.length === 0) { return; }
+
+			context.save();
+			context.fillStyle = "#FFF";
+			context.strokeStyle = "#333";
+			context.lineWidth = 1;
+
+			for (let elem of elems) {
+				for (let handle of RESIZE_HANDLES) {
+					let rect: IBasicRect = this._getHandleRect(elem, handle);
+					context.fillRect(rect.x, rect.y, rect.w, rect.h);
+					context.strokeRect(rect.x, rect.y, rect.w, rect.h);
+				}
+			}
+
+			context.restore();
+		}
+
+		/**...........................................................................
+		 * _getElementsWithHandles
+		 * ...........................................................................
+		 * Find the resizable elements that are selected or focused
+		 * ...........................................................................
+		 */
+		protected _getElementsWithHandles(): CanvasElement[] {
+			let candidates: CanvasElement[] = [];
+			if (this._canvas.selection) { candidates = this._canvas.selection.selected; }
+			if (this._canvas.focusedElement) { candidates.push(this._canvas.focusedElement); }
+
+			let out: CanvasElement[] = [];
+			for (let elem of candidates) {
+				if (!elem.isResizable || elem.isHidden || elem.isOffScreen) { continue; }
+				if (!elem.displayDimensions) { continue; }
+				if (out.indexOf(elem) !== -1) { continue; }
+				out.push(elem);
+			}
+			return out;
+		}
+
+		/** find which of an element's handles is under a point, in display space */
+		protected _findHandleAt(elem: CanvasElement, displayPt: IPoint): IResizeHandle {
+			for (let handle of RESIZE_HANDLES) {
+				if (Trig.isPointContained(displayPt, this._getHandleRect(elem, handle))) { return handle; }
+			}
+			return null;
+		}
+
+		/** find where a handle is drawn for an element, in display space */
+		protected _getHandleRect(elem: CanvasElement, handle: IResizeHandle): IBasicRect {
+			let dim: IBasicRect = elem.displayDimensions;
+			let size: number = this._handleSize;
+
+			let centerX: number = dim.x + ((handle.x + 1) * dim.w / 2);
+			let centerY: number = dim.y + ((handle.y + 1) * dim.h / 2);
+
+			return {
+				x: centerX - (size / 2),
+				y: centerY - (size / 2),
+				w: size,
+				h: size
+			};
+		}
+
+		//#endregion
+
+		/** find where a mouse event happened in absolute space */
+		private _toAbsolutePoint(e: MouseEvent): IPoint {
+			return this._canvas.convertPhysicalPointToRelativePoint({ x: e.pageX, y: e.pageY });
+		}
+	}
+}
@@ -0,0 +1,478 @@
+///<reference path="canvas.ts" />
+namespace KIP {
+
+	//#region INTERFACES
+
+	/**...........................................................................
+	 * ICanvasSelectionOptions
+	 * ...........................................................................
+	 * Options for how elements on a canvas are selected
+	 * ...........................................................................
+	 */
+	export interface ICanvasSelectionOptions {
+
+		/** if false, only one element can be selected at a time */
+		multiple?: boolean;
+
+		/** how selected elements are outlined */
+		outlineColor?: string;
+		outlineWidth?: number;
+
+		/** how the rubber-band rectangle is drawn */
+		marqueeColor?: string;
+		marqueeBorderColor?: string;
+
+		/** how far the mouse needs to move before a drag draws a rectangle, in px */
+		dragTolerance?: number;
+	}
+
+	/**...........................................................................
+	 * ICanvasSelectionChange
+	 * ...........................................................................
+	 * Details about how the selection on a canvas changed
+	 * ...........................................................................
+	 */
+	export interface ICanvasSelectionChange {
+
+		/** everything that is now selected */
+		selected: CanvasElement[];
+
+		/** what was just selected */
+		added: CanvasElement[];
+
+		/** what was just deselected */
+		removed: CanvasElement[];
+	}
+
+	/**...........................................................................
+	 * SelectionChangedListener
+	 * ...........................................................................
+	 * Callback for whenever the selection on a canvas changes
+	 * ...........................................................................
+	 */
+	export interface SelectionChangedListener {
+		(change: ICanvasSelectionChange): void;
+	}
+
+	//#endregion
+
+	/**...........................................................................
+	 * @class CanvasSelection
+	 * ...........................................................................
+	 * Keep track of which elements are selected on a canvas. Clicking selects
+	 * an element, shift / ctrl-clicking toggles it, and dragging across empty
+	 * space draws a rectangle that selects everything it touches.
+	 * @version 1.0
+	 * ...........................................................................
+	 */
+	export class CanvasSelection {
+
+		//#region PROPERTIES
+
+		/** the canvas elements are selected on */
+		protected _canvas: HTML5Canvas;
+
+		/** how selection behaves */
+		protected _options: ICanvasSelectionOptions;
+
+		/** the elements currently selected, in the order they were selected */
+		protected _selected: CanvasElement[];
+		public get selected(): CanvasElement[] { return this._selected.slice(); }
+
+		/** callbacks for when the selection changes */
+		protected _listeners: SelectionChangedListener[];
+
+		/** where the current drag started, in physical & absolute space */
+		protected _dragStart: IPoint;
+		protected _marqueeStart: IPoint;
+
+		/** the rectangle currently being dragged out, in absolute space */
+		protected _marquee: IBasicRect;
+
+		/** true if the click that ends a drag shouldn't change the selection */
+		protected _ignoreNextClick: boolean;
+
+		/** how far outside of an element its selection outline extends */
+		public get outlinePadding(): number { return this._options.outlineWidth * 2; }
+
+		//#endregion
+
+		/**...........................................................................
+		 * Create a selection model for a canvas
+		 *
+		 * @param	canvas		The canvas to select elements on
+		 * @param	options		How selection should behave
+		 * ...........................................................................
+		 */
+		constructor(canvas: HTML5Canvas, options?: ICanvasSelectionOptions) {
+			this._canvas = canvas;
+			this._options = reconcileOptions(options || {}, {
+				multiple: true,
+				outlineColor: "#1A73E8",
+				outlineWidth: 2,
+				marqueeColor: "rgba(26,115,232,0.15)",
+				marqueeBorderColor: "#1A73E8",
+				dragTolerance: 3
+			});
+
+			this._selected = [];
+			this._listeners = [];
+
+			this._addEventListeners();
+		}
+
+		//#region SELECTION
+
+		/**...........................................................................
+		 * isSelected
+		 * ...........................................................................
+		 * Check whether an element is selected
+		 * ...........................................................................
+		 */
+		public isSelected(elem: CanvasElement): boolean {
+			return this._selected.indexOf(elem) !== -1;
+		}
+
+		/**...........................................................................
+		 * select
+		 * ...........................................................................
+		 * Select a set of elements
+		 *
+		 * @param	elems		The elements to select
+		 * @param	additive	If true, keeps whatever was already selected
+		 * ...........................................................................
+		 */
+		public select(elems: CanvasElement[], additive?: boolean): void {
+			let toSelect: CanvasElement[] = [];
+			for (let elem of elems) {
+				if (!elem || (toSelect.indexOf(elem) !== -1)) { continue; }
+				toSelect.push(elem);
+			}
+
+			if (!this._options.multiple) {
+				toSelect = toSelect.slice(-1);
+				additive = false;
+			}
+
+			let removed: CanvasElement[] = [];
+			if (!additive) {
+				for (let elem of this._selected) {
+					if (toSelect.indexOf(elem) === -1) { removed.push(elem); }
+				}
+			}
+
+			let added: CanvasElement[] = [];
+			for (let elem of toSelect) {
+				if (!this.isSelected(elem)) { added.push(elem); }
+			}
+
+			this._applyChange(added, removed);
+		}
+
+		/**...........................................................................
+		 * toggle
+		 * ...........................................................................
+		 * Select an element if it isn't already, or deselect it if it is
+		 * ...........................................................................
+		 */
+		public toggle(elem: CanvasElement): void {
+			if (this.isSelected(elem)) {
+				this.deselect([elem]);
+			} else {
+				this.select([elem], true);
+			}
+		}
+
+		/**...........................................................................
+		 * deselect
+		 * ...........................................................................
+		 * Remove elements from the selection
+		 * ...........................................................................
+		 */
+		public deselect(elems: CanvasElement[]): void {
+			let removed: CanvasElement[] = [];
+			for (let elem of elems) {
+				if (this.isSelected(elem) && (removed.indexOf(elem) === -1)) { removed.push(elem); }
+			}
+			this._applyChange([], removed);
+		}
+
+		/**...........................................................................
+		 * clear
+		 * ...........................................................................
+		 * Deselect everything
+		 * ...........................................................................
+		 */
+		public clear(): void {
+			this._applyChange([], this._selected.slice());
+		}
+
+		/**...........................................................................
+		 * selectInRegion
+		 * ...........................................................................
+		 * Select everything that overlaps a region of the canvas
+		 *
+		 * @param	absoluteRect	The region to select within, in absolute space
+		 * @param	additive		If true, keeps whatever was already selected
+		 * ...........................................................................
+		 */
+		public selectInRegion(absoluteRect: IBasicRect, additive?: boolean): void {
+			let elems: CanvasElement[] = [];
+			for (let layer of this._canvas.layers) {
+				if (!layer) { continue; }
+				for (let elem of layer.getElementsInRegion(absoluteRect)) {
+					if (CanvasSelection._isSelectable(elem)) { elems.push(elem); }
+				}
+			}
+			this.select(elems, additive);
+		}
+
+		/**...........................................................................
+		 * addSelectionChangedListener
+		 * ...........................................................................
+		 * Register a callback for whenever the selection changes
+		 * ...........................................................................
+		 */
+		public addSelectionChangedListener(listener: SelectionChangedListener): void {
+			this._listeners.push(listener);
+		}
+
+		/**...........................................................................
+		 * _applyChange
+		 * ...........................................................................
+		 * Update which elements are selected and let listeners know
+		 *
+		 * @param	added		Elements that are newly selected
+		 * @param	removed		Elements that are no longer selected
+		 * ...........................................................................
+		 */
+		protected _applyChange(added: CanvasElement[], removed: CanvasElement[]): void {
+			if (added.length === 0 && removed.length === 0) { return; }
+
+			for (let elem of removed) {
+				this._selected.splice(this._selected.indexOf(elem), 1);
+				elem.isSelected = false;
+			}
+
+			for (let elem of added) {
+				this._selected.push(elem);
+				elem.isSelected = true;
+			}
+
+			let change: ICanvasSelectionChange = {
+				selected: this.selected,
+				added: added,
+				removed: removed
+			};
+			for (let listener of this._listeners) {
+				listener(change);
+			}
+		}
+
+		//#endregion
+
+		//#region EVENT HANDLING
+
+		/**...........................................................................
+		 * _addEventListeners
+		 * ...........................................................................
+		 * Listen for clicks & drags on the canvas
+		 * ...........................................................................
+		 */
+		private _addEventListeners(): void {
+			let base: HTMLCanvasElement = this._canvas.canvas;
+
+			base.addEventListener("mousedown", (e: MouseEvent) => { this._onMouseDown(e); });
+			window.addEventListener("mousemove", (e: MouseEvent) => { this._onMouseMove(e); });
+			window.addEventListener("mouseup", (e: MouseEvent) => { this._onMouseUp(e); });
+			base.addEventListener("click", (e: MouseEvent) => { this._onClick(e); });
+		}
+
+		/**...........................................................................
+		 * _onMouseDown
+		 * ...........................................................................
+		 * Start a potential rubber-band drag. Dragging selects instead of panning
+		 * the canvas.
+		 * ...........................................................................
+		 */
+		protected _onMouseDown(e: MouseEvent): void {
+			if (e.button !== 0) { return; }
+			e.stopPropagation();
+
+			this._ignoreNextClick = false;
+
+			// dragging from an element shouldn't start a rectangle
+			if (this._findSelectableAt(e)) { return; }
+
+			this._dragStart = { x: e.pageX, y: e.pageY };
+			this._marqueeStart = this._toAbsolutePoint(e);
+		}
+
+		/**...........................................................................
+		 * _onMouseMove
+		 * ...........................................................................
+		 * Grow the rubber-band rectangle as the mouse moves
+		 * ...........................................................................
+		 */
+		protected _onMouseMove(e: MouseEvent): void {
+			if (!this._dragStart) { return; }
+
+			// don't treat small wobbles during a click as a drag
+			if (!this._marquee) {
+				let dx: number = e.pageX - this._dragStart.x;
+				let dy: number = e.pageY - this._dragStart.y;
+				if (Math.sqrt((dx * dx) + (dy * dy)) <= this._options.dragTolerance) { return; }
+			}
+
+			let pt: IPoint = this._toAbsolutePoint(e);
+			this._setMarquee({
+				x: Math.min(this._marqueeStart.x, pt.x),
+				y: Math.min(this._marqueeStart.y, pt.y),
+				w: Math.abs(pt.x - this._marqueeStart.x),
+				h: Math.abs(pt.y - this._marqueeStart.y)
+			});
+		}
+
+		/**...........................................................................
+		 * _onMouseUp
+		 * ...........................................................................
+		 * Select everything within the rubber-band rectangle
+		 * ...........................................................................
+		 */
+		protected _onMouseUp(e: MouseEvent): void {
+			if (!this._dragStart) { return; }
+			this._dragStart = null;
+
+			let marquee: IBasicRect = this._marquee;
+			if (!marquee) { return; }
+			this._setMarquee(null);
+
+			if (this._options.multiple) {
+				this.selectInRegion(marquee, CanvasSelection._isAdditive(e));
+			}
+			this._ignoreNextClick = true;
+		}
+
+		/**...........................................................................
+		 * _onClick
+		 * ...........................................................................
+		 * Select whatever was clicked, or toggle it if shift / ctrl is held
+		 * ...........................................................................
+		 */
+		protected _onClick(e: MouseEvent): void {
+			if (this._ignoreNextClick) {
+				this._ignoreNextClick = false;
+				return;
+			}
+
+			let elem: CanvasElement = this._findSelectableAt(e);
+
+			if (CanvasSelection._isAdditive(e)) {
+				if (elem) { this.toggle(elem); }
+			} else if (elem) {
+				this.select([elem]);
+			} else {
+				this.clear();
+			}
+		}
+
+		//#endregion
+
+		//#region DRAWING
+
+		/**...........................................................................
+		 * draw
+		 * ...........................................................................
+		 * Outline the selected elements and draw the rubber-band rectangle
+		 *
+		 * @param	context		The context to draw on
+		 * ...........................................................................
+		 */
+		public draw(context: CanvasRenderingContext2D): void {
+			let width: number = this._options.outlineWidth;
+
+			context.save();
+			context.strokeStyle = this._options.outlineColor;
+			context.lineWidth = width;
+
+			for (let elem of this._selected) {
+				if (elem.isHidden || elem.isOffScreen) { continue; }
+				let rect: IBasicRect = elem.displayDimensions;
+				if (!rect) { continue; }
+				context.strokeRect(rect.x - width, rect.y - width, rect.w + (2 * width), rect.h + (2 * width));
+			}
+
+			if (this._marquee) {
+				let rect: IBasicRect = this._canvas.convertAbsoluteRectToRelativeRect(this._marquee);
+				context.fillStyle = this._options.marqueeColor;
+				context.strokeStyle = this._options.marqueeBorderColor;
+				context.lineWidth = 1;
+				context.fillRect(rect.x, rect.y, rect.w, rect.h);
+				context.strokeRect(rect.x, rect.y, rect.w, rect.h);
+			}
+
+			context.restore();
+		}
+
+		/**...........................................................................
+		 * _setMarquee
+		 * ...........................................................................
+		 * Update the rubber-band rectangle, repainting where it was & where it is
+		 *
+		 * @param	marquee		The new rectangle, in absolute space
+		 * ...........................................................................
+		 */
+		protected _setMarquee(marquee: IBasicRect): void {
+			this._markMarqueeDirty();
+			this._marquee = marquee;
+			this._markMarqueeDirty();
+		}
+
+		/** flag the area the rubber-band rectangle covers as needing a repaint */
+		private _markMarqueeDirty(): void {
+			if (!this._marquee) { return; }
+			let rect: IBasicRect = this._canvas.convertAbsoluteRectToRelativeRect(this._marquee);
+			this._canvas.markDirty({
+				x: rect.x - 1,
+				y: rect.y - 1,
+				w: rect.w + 2,
+				h: rect.h + 2
+			});
+		}
+
+		//#endregion
+
+		//#region HELPERS
+
+		/**...........................................................................
+		 * _findSelectableAt
+		 * ...........................................................................
+		 * Find the top-most selectable element under the mouse
+		 *
+		 * @param	e	The mouse event to look under
+		 *
+		 * @returns	The element, if there is one
+		 * ...........................................................................
+		 */
+		protected _findSelectableAt(e: MouseEvent): CanvasElement {
+			return this._canvas.findTopElementAt(this._toAbsolutePoint(e), CanvasSelection._isSelectable);
+		}
+
+		/** find where a mouse event happened in absolute space */
+		private _toAbsolutePoint(e: MouseEvent): IPoint {
+			return this._canvas.convertPhysicalPointToRelativePoint({ x: e.pageX, y: e.pageY });
+		}
+
+		/** only visible, non-effect elements can be selected */
+		private static _isSelectable(elem: CanvasElement): boolean {
+			return elem.isSelectable && !elem.isEffect && !elem.isHidden;
+		}
+
+		/** shift, ctrl & cmd all add to the selection instead of replacing it */
+		private static _isAdditive(e: MouseEvent): boolean {
+			return e.shiftKey || e.ctrlKey || e.metaKey;
+		}
+
+		//#endregion
+	}
+}
@@ -10,13 +10,27 @@ namespace KIP {
         FONT_SIZE = 4,
         STROKE_SIZE = 5,
         TEXT_ALIGN = 6,
-        FONT = 7
+        FONT = 7,
+        OPACITY = 8
     };
 
     export interface StyleChangeHandler {
         () : void;
     }
 
+    /** serializable version of a canvas element style */
+    export interface ICanvasStyleJSON {
+        fillColor?: string;
+        strokeColor?: string;
+        fontFamily?: string;
+        fontVariant?: string;
+        fontSize?: number;
+        strokeSize?: number;
+        textAlign?: string;
+        font?: string;
+        opacity?: number;
+    }
+
     export class CanvasElementStyle {
 
         protected _fillColor: CanvasColor;
@@ -68,6 +82,13 @@ namespace KIP {
             this._onChange(StyleChangeEnum.TEXT_ALIGN);
         }
 
+        protected _opacity: number;
+        public get opacity (): number { return this._opacity; }
+        public set opacity (opacity: number) {
+            this._opacity = opacity;
+            this._onChange(StyleChangeEnum.OPACITY);
+        }
+
         protected _font: string;
         public get font (): string { 
             if (this._font) { return this._font; }
@@ -83,11 +104,15 @@ namespace KIP {
 
         protected _listeners: StyleChangeHandler[][];
 
+        /** listeners that care about any change to the style */
+        protected _generalListeners: StyleChangeHandler[];
+
         protected _oldStyle: CanvasElementStyle;
 
         /** nothing to construct */
         public constructor (style?: CanvasElementStyle) {
             this._listeners = [];
+            this._generalListeners = [];
 
             // clone the existing style
             if (style) {
@@ -99,6 +124,7 @@ namespace KIP {
                 this._fontVariant = style.fontVariant;
                 this._strokeSize = style.strokeSize;
                 this._textAlign = style.textAlign;
+                this._opacity = style.opacity;
 
             // or just use defaults
             } else {
@@ -108,9 +134,49 @@ namespace KIP {
 				this._fontFamily = "Helvetica";
 				this._fontSize = 40;
 				this._textAlign = "left";
+				this._opacity = 1;
 			}
         }
 
+        /** 
+         * create a serializable version of this style. Gradients & patterns can't
+         * be read back out of the canvas API, so they are left out.
+         */
+        public toJSON () : ICanvasStyleJSON {
+            let out: ICanvasStyleJSON = {
+                fontFamily: this._fontFamily,
+                fontVariant: this._fontVariant,
+                fontSize: this._fontSize,
+                strokeSize: this._strokeSize,
+                textAlign: this._textAlign,
+                font: this._font,
+                opacity: this._opacity
+            };
+
+            if (typeof this._fillColor === "string") { out.fillColor = this._fillColor; }
+            if (typeof this._strokeColor === "string") { out.strokeColor = this._strokeColor; }
+
+            return out;
+        }
+
+        /** create a style from its serialized version */
+        public static fromJSON (json: ICanvasStyleJSON) : CanvasElementStyle {
+            let out: CanvasElementStyle = new CanvasElementStyle();
+            if (!json) { return out; }
+
+            if (!isNullOrUndefined(json.fillColor)) { out._fillColor = json.fillColor; }
+            if (!isNullOrUndefined(json.strokeColor)) { out._strokeColor = json.strokeColor; }
+            if (!isNullOrUndefined(json.fontFamily)) { out._fontFamily = json.fontFamily; }
+            if (!isNullOrUndefined(json.fontVariant)) { out._fontVariant = json.fontVariant; }
+            if (!isNullOrUndefined(json.fontSize)) { out._fontSize = json.fontSize; }
+            if (!isNullOrUndefined(json.strokeSize)) { out._strokeSize = json.strokeSize; }
+            if (!isNullOrUndefined(json.textAlign)) { out._textAlign = json.textAlign; }
+            if (!isNullOrUndefined(json.font)) { out._font = json.font; }
+            if (!isNullOrUndefined(json.opacity)) { out._opacity = json.opacity; }
+
+            return out;
+        }
+
         public addStyleChangeListener (changeType: StyleChangeEnum, func: StyleChangeHandler) : void {
             if (!this._listeners[changeType]) {
                 this._listeners[changeType] = [];
@@ -120,10 +186,18 @@ namespace KIP {
             this._listeners[changeType].push(func);
         }
 
+        /** listen for any change to the style, regardless of type */
+        public addGeneralChangeListener (func: StyleChangeHandler) : void {
+            this._generalListeners.push(func);
+        }
+
         protected _onChange (changeType: StyleChangeEnum) : void {
-            if (!this._listeners[changeType]) { return; }
             let listener: StyleChangeHandler;
-            for (listener of this._listeners[changeType]) {
+            for (listener of this._listeners[changeType] || []) {
+                listener();
+            }
+
+            for (listener of this._generalListeners) {
                 listener();
             }
         }
@@ -131,6 +205,9 @@ namespace KIP {
         public setStyle (context: CanvasRenderingContext2D) : void {
             this._saveOffOldStyle(context);
             this._applyStyleToContext(context, this);
+
+            // opacity builds on whatever is already applied, so groups can fade their contents
+            context.globalAlpha = this._oldStyle.opacity * CanvasElementStyle._getOpacity(this);
         }
 
         public restoreStyle (context: CanvasRenderingContext2D) : void {
@@ -145,6 +222,7 @@ namespace KIP {
             this._oldStyle.font = context.font;
             this._oldStyle.strokeSize = context.lineWidth;
             this._oldStyle.textAlign = context.textAlign;
+            this._oldStyle.opacity = context.globalAlpha;
         }
 
         protected _applyStyleToContext(context: CanvasRenderingContext2D, style: CanvasElementStyle): void {
@@ -153,6 +231,12 @@ namespace KIP {
             context.textAlign = style.textAlign;
             context.font = style.font;
             context.lineWidth = style.strokeSize;
+            context.globalAlpha = CanvasElementStyle._getOpacity(style);
+        }
+
+        /** styles without an opacity are fully opaque */
+        private static _getOpacity (style: CanvasElementStyle): number {
+            return isNullOrUndefined(style.opacity) ? 1 : style.opacity;
         }
     }
 }
\ No newline at end of file
@@ -3,6 +3,7 @@ namespace KIP {
 	export class CircleElement extends CanvasElement {
 		private _center: IPoint;
 		private _radius: IPoint;
+		public get radius (): IPoint { return this._radius; }
 		private _displayRadius: IPoint;
 
 		public get type(): ElementType { return ElementType.Circle; }
@@ -64,6 +65,22 @@ namespace KIP {
 			};
 		}
 
+		/** resizing a circle changes its radius */
+		protected _resize (w: number, h: number): void {
+			this._radius = {
+				x: w / 2,
+				y: h / 2
+			};
+			super._resize(w, h);
+		}
+
+		/** include the radius when serializing; the center comes from the dimensions */
+		public toJSON (): ICanvasElementJSON {
+			let out: ICanvasElementJSON = super.toJSON();
+			out.radius = clonePoint(this._radius);
+			return out;
+		}
+
 		/** override default dimensions for circle specific dimensions */
 		protected _debugDimensions () {
 			console.log("CIRCLE:");
@@ -0,0 +1,273 @@
+///<reference path="canvasElement.ts" />
+namespace KIP {
+
+	/**...........................................................................
+	 * ICanvasSpriteOptions
+	 * ...........................................................................
+	 * Describe how a sprite sheet is divided into frames. Frames are numbered
+	 * left to right, then top to bottom.
+	 * ...........................................................................
+	 */
+	export interface ICanvasSpriteOptions {
+
+		/** how big each frame is within the source image, in px */
+		frameWidth: number;
+		frameHeight: number;
+
+		/** which frame to draw; defaults to the first */
+		frame?: number;
+	}
+
+	/**...........................................................................
+	 * @class ImageElement
+	 * ...........................................................................
+	 * Draw a bitmap (or a single frame of a sprite sheet) at a particular set of
+	 * absolute dimensions. Images load asynchronously; the element repaints
+	 * itself once its image is ready.
+	 * @version 1.0
+	 * ...........................................................................
+	 */
+	export class ImageElement extends CanvasElement {
+
+		//#region PROPERTIES
+
+		/** images that have already been requested, so elements with the same source share them */
+		private static _images: { [src: string]: HTMLImageElement } = {};
+
+		/** where the image comes from */
+		protected _src: string;
+		public get src (): string { return this._src; }
+
+		/** the image being drawn */
+		protected _image: HTMLImageElement;
+
+		/** how the image is split into frames, if it is a sprite sheet */
+		protected _sprite: ICanvasSpriteOptions;
+		public get sprite (): ICanvasSpriteOptions { return this._sprite; }
+
+		/** which frame of the sprite sheet is drawn */
+		public get frame (): number { return this._sprite ? this._sprite.frame : 0; }
+		public set frame (frame: number) {
+			if (!this._sprite || (this._sprite.frame === frame)) { return; }
+			this._sprite.frame = frame;
+			this.markDirty();
+		}
+
+		/** how big the source image is, in px */
+		public get naturalSize (): IDimensions {
+			return {
+				width: this._image.naturalWidth,
+				height: this._image.naturalHeight
+			};
+		}
+
+		/** true once the image can be drawn */
+		public get isLoaded (): boolean { return ImageElement._isReady(this._image); }
+
+		/** resolves with this element once the image has loaded */
+		protected _loaded: KipPromise;
+		public get loaded (): KipPromise { return this._loaded; }
+
+		public get type (): ElementType { return ElementType.Image; }
+
+		//#endregion
+
+		/**...........................................................................
+		 * Create an image element
+		 *
+		 * @param	id			Unique ID for the element
+		 * @param	src			The URL of the image, or an image element to draw
+		 * @param	dimensions	Where the image should be drawn, in absolute space
+		 * @param	sprite		If the image is a sprite sheet, how it is divided
+		 * ...........................................................................
+		 */
+		constructor (id: string, src: string | HTMLImageElement, dimensions: IBasicRect, sprite?: ICanvasSpriteOptions) {
+			super(id);
+			this._dimensions = dimensions;
+
+			if (sprite) {
+				this._sprite = {
+					frameWidth: sprite.frameWidth,
+					frameHeight: sprite.frameHeight,
+					frame: sprite.frame || 0
+				};
+			}
+
+			this._initializeRects();
+			this._loadImage(src);
+		}
+
+		//#region IMAGE LOADING
+
+		/**...........................................................................
+		 * _loadImage
+		 * ...........................................................................
+		 * Find or start loading the image, repainting once it's available
+		 *
+		 * @param	src		The URL of the image, or the image itself
+		 * ...........................................................................
+		 */
+		protected _loadImage (src: string | HTMLImageElement): void {
+			if (typeof src === "string") {
+				this._src = src;
+				this._image = ImageElement._getImage(src);
+			} else {
+				this._src = src.src;
+				this._image = src;
+			}
+
+			let image: HTMLImageElement = this._image;
+
+			this._loaded = new KipPromise((resolve: Function, reject: Function) => {
+				if (ImageElement._isReady(image)) {
+					resolve(this);
+					return;
+				}
+
+				// the image already failed, so it won't fire any more events
+				if (image.complete) {
+					ImageElement._forgetImage(image);
+					reject(new Error("could not load image: " + this._src));
+					return;
+				}
+
+				image.addEventListener("load", () => {
+					this.markDirty();
+					resolve(this);
+				});
+
+				image.addEventListener("error", () => {
+					ImageElement._forgetImage(image);
+					reject(new Error("could not load image: " + this._src));
+				});
+			});
+		}
+
+		/** find the shared image for a source, creating it if needed */
+		private static _getImage (src: string): HTMLImageElement {
+			let image: HTMLImageElement = ImageElement._images[src];
+			if (image) { return image; }
+
+			image = new Image();
+			image.src = src;
+			ImageElement._images[src] = image;
+			return image;
+		}
+
+		/** stop sharing an image that failed to load, so the next request tries again */
+		private static _forgetImage (image: HTMLImageElement): void {
+			for (let src in ImageElement._images) {
+				if (ImageElement._images[src] === image) { delete ImageElement._images[src]; }
+			}
+		}
+
+		/** check whether an image has finished loading successfully */
+		private static _isReady (image: HTMLImageElement): boolean {
+			return !!image && image.complete && (image.naturalWidth > 0);
+		}
+
+		//#endregion
+
+		//#region DRAWING
+
+		/**...........................................................................
+		 * _onDraw
+		 * ...........................................................................
+		 * Draw the image (or the current frame) scaled to our display dimensions
+		 *
+		 * @param	context		The context to draw on
+		 * ...........................................................................
+		 */
+		protected _onDraw (context: CanvasRenderingContext2D): void {
+
+			// nothing to draw until the image is ready; we'll repaint once it is
+			if (!this.isLoaded) { return; }
+
+			let source: IBasicRect = this.getSourceRect();
+			let dim: IBasicRect = this._displayDimensions;
+
+			context.drawImage(
+				this._image,
+				source.x, source.y, source.w, source.h,
+				dim.x, dim.y, dim.w, dim.h
+			);
+		}
+
+		/**...........................................................................
+		 * getSourceRect
+		 * ...........................................................................
+		 * Find the part of the source image that gets drawn
+		 *
+		 * @returns	The region of the image to draw, in image pixels
+		 * ...........................................................................
+		 */
+		public getSourceRect (): IBasicRect {
+			let image: HTMLImageElement = this._image;
+
+			if (!this._sprite) {
+				return { x: 0, y: 0, w: image.naturalWidth, h: image.naturalHeight };
+			}
+
+			let sprite: ICanvasSpriteOptions = this._sprite;
+			let columns: number = Math.max(1, Math.floor(image.naturalWidth / sprite.frameWidth));
+
+			return {
+				x: (sprite.frame % columns) * sprite.frameWidth,
+				y: Math.floor(sprite.frame / columns) * sprite.frameHeight,
+				w: sprite.frameWidth,
+				h: sprite.frameHeight
+			};
+		}
+
+		/**...........................................................................
+		 * toDataURL
+		 * ...........................................................................
+		 * Copy the full source image into a data URL, so it can be embedded
+		 * without needing to be loaded again
+		 *
+		 * @returns	The data URL of the image, or null if it isn't loaded or can't
+		 * 			be read (e.g. a cross-origin image)
+		 * ...........................................................................
+		 */
+		public toDataURL (): string {
+			if (!this.isLoaded) { return null; }
+
+			let canvas: HTMLCanvasElement = document.createElement("canvas");
+			canvas.width = this._image.naturalWidth;
+			canvas.height = this._image.naturalHeight;
+			canvas.getContext("2d").drawImage(this._image, 0, 0);
+
+			// cross-origin images taint the canvas, which makes it unreadable
+			try {
+				return canvas.toDataURL("image/png");
+			} catch (err) {
+				return null;
+			}
+		}
+
+		//#endregion
+
+		//#region SERIALIZATION & CLONING
+
+		/** include the source & sprite details when serializing */
+		public toJSON (): ICanvasElementJSON {
+			let out: ICanvasElementJSON = super.toJSON();
+			out.src = this._src;
+			if (this._sprite) {
+				out.sprite = {
+					frameWidth: this._sprite.frameWidth,
+					frameHeight: this._sprite.frameHeight,
+					frame: this._sprite.frame
+				};
+			}
+			return out;
+		}
+
+		/** clone an element for an effect to be applied */
+		protected _cloneForEffect (id: string): ImageElement {
+			return new ImageElement(id, this._image, cloneRect(this._dimensions), this._sprite);
+		}
+
+		//#endregion
+	}
+}
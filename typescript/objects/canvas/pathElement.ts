@@ -2,6 +2,7 @@
 namespace KIP {
 	export class PathElement extends CanvasElement {
 		protected _points: IPoint[];
+		public get points (): IPoint[] { return this._points; }
 		protected _displayPoints: IPoint[];
 
 		public get type(): ElementType { return ElementType.Path; }
@@ -40,6 +41,7 @@ namespace KIP {
 			
 			// Update extrema
 			this._updateExtremaFromPoint(point);
+			this._notifyDimensionsChanged();
 		}
 
 		/** loop through and update extremas based on all points */
@@ -106,6 +108,27 @@ namespace KIP {
 			}
 		}
 
+		/** resizing a path stretches its points away from its top-left corner */
+		protected _resize (w: number, h: number): void {
+			let origin: IPoint = { x: this._dimensions.x, y: this._dimensions.y };
+			let xScale: number = this._dimensions.w ? (w / this._dimensions.w) : 1;
+			let yScale: number = this._dimensions.h ? (h / this._dimensions.h) : 1;
+
+			for (let point of this._points) {
+				point.x = origin.x + ((point.x - origin.x) * xScale);
+				point.y = origin.y + ((point.y - origin.y) * yScale);
+			}
+
+			super._resize(w, h);
+		}
+
+		/** include the points when serializing */
+		public toJSON (): ICanvasElementJSON {
+			let out: ICanvasElementJSON = super.toJSON();
+			out.points = clonePointArray(this._points);
+			return out;
+		}
+
 		/** clone in order to be able to apply various effects */
 		protected _cloneForEffect (id: string) : PathElement {
 			let out: PathElement = new PathElement(id, clonePointArray(this._points));
@@ -5,6 +5,7 @@ namespace KIP {
         protected _oldDimensions: IBasicRect;
 
         protected _borderRadius: number = 0;
+        public get borderRadius (): number { return this._borderRadius; }
         public set borderRadius (bRad: number) { this._borderRadius = bRad; }
 
         protected _displayBorderRadius: IPoint;
@@ -121,6 +122,18 @@ namespace KIP {
             };
         }
 
+        /** include the border radius when serializing */
+        public toJSON (): ICanvasElementJSON {
+            let out: ICanvasElementJSON = super.toJSON();
+            out.borderRadius = this._borderRadius;
+            return out;
+        }
+
+        protected _loadJSON (json: ICanvasElementJSON): void {
+            super._loadJSON(json);
+            this._borderRadius = json.borderRadius || 0;
+        }
+
         /** clone an element for an effect to be applied */
         protected _cloneForEffect(id: string): RectangleElement {
             let dim = cloneRect(this._dimensions);
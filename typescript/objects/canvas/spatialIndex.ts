@@ -0,0 +1,377 @@
+namespace KIP {
+
+	//#region INTERFACES
+
+	/**...........................................................................
+	 * IQuadTreeItem
+	 * ...........................................................................
+	 * Keep track of an item stored in a quadtree
+	 * ...........................................................................
+	 */
+	export interface IQuadTreeItem<T> {
+		key: string;
+		value: T;
+		bounds: IBasicRect;
+		node: QuadTreeNode<T>;
+	}
+
+	//#endregion
+
+	/**...........................................................................
+	 * @class QuadTreeNode
+	 * ...........................................................................
+	 * A single region of a quadtree. Items live in the deepest node that fully
+	 * contains them.
+	 * ...........................................................................
+	 */
+	export class QuadTreeNode<T> {
+
+		/** the region this node covers */
+		public bounds: IBasicRect;
+
+		/** how deep in the tree this node is */
+		public depth: number;
+
+		/** the items that don't fit entirely within a child */
+		public items: IQuadTreeItem<T>[];
+
+		/** the four sub-regions, if this node has been split */
+		public children: QuadTreeNode<T>[];
+
+		constructor(bounds: IBasicRect, depth: number) {
+			this.bounds = bounds;
+			this.depth = depth;
+			this.items = [];
+		}
+	}
+
+	/**...........................................................................
+	 * @class QuadTree
+	 * ...........................................................................
+	 * Spatial index over rectangles, allowing for quick lookup of everything at
+	 * a point or within a region
+	 * @version 1.0
+	 * ...........................................................................
+	 */
+	export class QuadTree<T> {
+
+		//#region PROPERTIES
+
+		/** the top-level region */
+		protected _root: QuadTreeNode<T>;
+
+		/** every item in the tree, by key */
+		protected _items: { [key: string]: IQuadTreeItem<T> };
+
+		/** how many items a node can hold before it is split */
+		protected _maxItems: number;
+
+		/** how deep the tree can get */
+		protected _maxDepth: number;
+
+		/** how many items are in the tree */
+		protected _size: number;
+		public get size(): number { return this._size; }
+
+		//#endregion
+
+		/**...........................................................................
+		 * Create a quadtree
+		 *
+		 * @param	maxItems	How many items a region holds before splitting
+		 * @param	maxDepth	How many times regions can be split
+		 * ...........................................................................
+		 */
+		constructor(maxItems?: number, maxDepth?: number) {
+			this._maxItems = maxItems || 8;
+			this._maxDepth = maxDepth || 10;
+			this.clear();
+		}
+
+		//#region ADD & REMOVE
+
+		/**...........................................................................
+		 * insert
+		 * ...........................................................................
+		 * Add an item to the tree, replacing any item with the same key
+		 *
+		 * @param	key		Unique key for the item
+		 * @param	bounds	The region the item covers
+		 * @param	value	The item itself
+		 * ...........................................................................
+		 */
+		public insert(key: string, bounds: IBasicRect, value: T): void {
+			this.remove(key);
+
+			let item: IQuadTreeItem<T> = {
+				key: key,
+				value: value,
+				bounds: QuadTree._normalizeRect(bounds),
+				node: null
+			};
+
+			// grow the tree if this item falls outside of it
+			if (!QuadTree._contains(this._root.bounds, item.bounds)) {
+				this._grow(item.bounds);
+			}
+
+			this._items[key] = item;
+			this._size += 1;
+			this._insertIntoNode(this._root, item);
+		}
+
+		/**...........................................................................
+		 * update
+		 * ...........................................................................
+		 * Move an item that is already in the tree
+		 *
+		 * @param	key		The key of the item
+		 * @param	bounds	The new region the item covers
+		 *
+		 * @returns	True if the item was in the tree
+		 * ...........................................................................
+		 */
+		public update(key: string, bounds: IBasicRect): boolean {
+			let item: IQuadTreeItem<T> = this._items[key];
+			if (!item) { return false; }
+			this.insert(key, bounds, item.value);
+			return true;
+		}
+
+		/**...........................................................................
+		 * remove
+		 * ...........................................................................
+		 * Remove an item from the tree
+		 *
+		 * @param	key		The key of the item to remove
+		 *
+		 * @returns	True if the item was removed
+		 * ...........................................................................
+		 */
+		public remove(key: string): boolean {
+			let item: IQuadTreeItem<T> = this._items[key];
+			if (!item) { return false; }
+
+			let items: IQuadTreeItem<T>[] = item.node.items;
+			items.splice(items.indexOf(item), 1);
+
+			delete this._items[key];
+			this._size -= 1;
+			return true;
+		}
+
+		/**...........................................................................
+		 * has
+		 * ...........................................................................
+		 * Check if an item is in the tree
+		 * ...........................................................................
+		 */
+		public has(key: string): boolean {
+			return !!this._items[key];
+		}
+
+		/**...........................................................................
+		 * clear
+		 * ...........................................................................
+		 * Remove everything from the tree
+		 * ...........................................................................
+		 */
+		public clear(): void {
+			this._root = new QuadTreeNode<T>({ x: 0, y: 0, w: 1024, h: 1024 }, 0);
+			this._items = {};
+			this._size = 0;
+		}
+
+		//#endregion
+
+		//#region QUERIES
+
+		/**...........................................................................
+		 * queryPoint
+		 * ...........................................................................
+		 * Find all items whose region contains a point
+		 *
+		 * @param	pt	The point to look at
+		 *
+		 * @returns	The items at that point
+		 * ...........................................................................
+		 */
+		public queryPoint(pt: IPoint): T[] {
+			return this.query({ x: pt.x, y: pt.y, w: 0, h: 0 });
+		}
+
+		/**...........................................................................
+		 * query
+		 * ...........................................................................
+		 * Find all items whose region overlaps a rectangle (edges included)
+		 *
+		 * @param	rect	The region to look within
+		 *
+		 * @returns	The items in that region
+		 * ...........................................................................
+		 */
+		public query(rect: IBasicRect): T[] {
+			let out: T[] = [];
+			this._queryNode(this._root, QuadTree._normalizeRect(rect), out);
+			return out;
+		}
+
+		/**...........................................................................
+		 * _queryNode
+		 * ...........................................................................
+		 * Collect items that overlap a rectangle from a node and its children
+		 * ...........................................................................
+		 */
+		protected _queryNode(node: QuadTreeNode<T>, rect: IBasicRect, out: T[]): void {
+			if (!QuadTree._overlaps(node.bounds, rect)) { return; }
+
+			for (let item of node.items) {
+				if (QuadTree._overlaps(item.bounds, rect)) { out.push(item.value); }
+			}
+
+			if (!node.children) { return; }
+			for (let child of node.children) {
+				this._queryNode(child, rect, out);
+			}
+		}
+
+		//#endregion
+
+		//#region TREE MANAGEMENT
+
+		/**...........................................................................
+		 * _insertIntoNode
+		 * ...........................................................................
+		 * Place an item in the deepest node that fully contains it
+		 * ...........................................................................
+		 */
+		protected _insertIntoNode(node: QuadTreeNode<T>, item: IQuadTreeItem<T>): void {
+			while (true) {
+
+				// split the node if it is getting crowded
+				if (!node.children && node.items.length >= this._maxItems && node.depth < this._maxDepth) {
+					this._split(node);
+				}
+
+				let child: QuadTreeNode<T> = this._findContainingChild(node, item.bounds);
+				if (!child) { break; }
+				node = child;
+			}
+
+			node.items.push(item);
+			item.node = node;
+		}
+
+		/**...........................................................................
+		 * _split
+		 * ...........................................................................
+		 * Divide a node into quadrants, pushing down any items that fit into one
+		 * ...........................................................................
+		 */
+		protected _split(node: QuadTreeNode<T>): void {
+			let b: IBasicRect = node.bounds;
+			let halfW: number = b.w / 2;
+			let halfH: number = b.h / 2;
+
+			node.children = [
+				new QuadTreeNode<T>({ x: b.x, y: b.y, w: halfW, h: halfH }, node.depth + 1),
+				new QuadTreeNode<T>({ x: b.x + halfW, y: b.y, w: halfW, h: halfH }, node.depth + 1),
+				new QuadTreeNode<T>({ x: b.x, y: b.y + halfH, w: halfW, h: halfH }, node.depth + 1),
+				new QuadTreeNode<T>({ x: b.x + halfW, y: b.y + halfH, w: halfW, h: halfH }, node.depth + 1)
+			];
+
+			let items: IQuadTreeItem<T>[] = node.items;
+			node.items = [];
+			for (let item of items) {
+				let child: QuadTreeNode<T> = this._findContainingChild(node, item.bounds);
+				if (child) {
+					child.items.push(item);
+					item.node = child;
+				} else {
+					node.items.push(item);
+				}
+			}
+		}
+
+		/**...........................................................................
+		 * _findContainingChild
+		 * ...........................................................................
+		 * Find the child of a node that entirely contains a rectangle
+		 * ...........................................................................
+		 */
+		protected _findContainingChild(node: QuadTreeNode<T>, bounds: IBasicRect): QuadTreeNode<T> {
+			if (!node.children) { return null; }
+			for (let child of node.children) {
+				if (QuadTree._contains(child.bounds, bounds)) { return child; }
+			}
+			return null;
+		}
+
+		/**...........................................................................
+		 * _grow
+		 * ...........................................................................
+		 * Expand the root so it covers a new rectangle, re-adding everything that
+		 * was already in the tree
+		 * ...........................................................................
+		 */
+		protected _grow(bounds: IBasicRect): void {
+			let r: IBasicRect = this._root.bounds;
+
+			let minX: number = Math.min(r.x, bounds.x);
+			let minY: number = Math.min(r.y, bounds.y);
+			let maxX: number = Math.max(r.x + r.w, bounds.x + bounds.w);
+			let maxY: number = Math.max(r.y + r.h, bounds.y + bounds.h);
+
+			// leave room to grow so this doesn't need to happen often
+			let size: number = Math.max(maxX - minX, maxY - minY, 1) * 2;
+			this._root = new QuadTreeNode<T>({
+				x: minX - (size / 4),
+				y: minY - (size / 4),
+				w: size,
+				h: size
+			}, 0);
+
+			for (let key in this._items) {
+				if (!this._items.hasOwnProperty(key)) { continue; }
+				this._insertIntoNode(this._root, this._items[key]);
+			}
+		}
+
+		//#endregion
+
+		//#region GEOMETRY HELPERS
+
+		/** make sure a rect has a positive width & height */
+		protected static _normalizeRect(rect: IBasicRect): IBasicRect {
+			let x: number = rect.x || 0;
+			let y: number = rect.y || 0;
+			let w: number = rect.w || 0;
+			let h: number = rect.h || 0;
+
+			return {
+				x: Math.min(x, x + w),
+				y: Math.min(y, y + h),
+				w: Math.abs(w),
+				h: Math.abs(h)
+			};
+		}
+
+		/** check whether the outer rect entirely contains the inner one */
+		protected static _contains(outer: IBasicRect, inner: IBasicRect): boolean {
+			return (inner.x >= outer.x) &&
+				(inner.y >= outer.y) &&
+				(inner.x + inner.w <= outer.x + outer.w) &&
+				(inner.y + inner.h <= outer.y + outer.h);
+		}
+
+		/** check whether two rects overlap, including touching edges */
+		protected static _overlaps(a: IBasicRect, b: IBasicRect): boolean {
+			return (a.x <= b.x + b.w) &&
+				(b.x <= a.x + a.w) &&
+				(a.y <= b.y + b.h) &&
+				(b.y <= a.y + a.h);
+		}
+
+		//#endregion
+	}
+}
@@ -4,9 +4,11 @@ namespace KIP {
 
 		protected _type: ElementType = ElementType.Text;
 		private _text: string;
+		public get text (): string { return this._text; }
 		public set text (txt: string) { this._text = txt; }
 
 		private _fixed: boolean;
+		public get fixed (): boolean { return this._fixed; }
 		public set fixed (fixed: boolean) { this._fixed = fixed;}
 
 		public get type(): ElementType { return ElementType.Text; }
@@ -56,6 +58,9 @@ namespace KIP {
 			this._displayDimensions.w = metrics.width;
 			this._displayDimensions.h = this.style.fontSize;
 
+			// make sure we can be found by our measured size
+			this._notifyDimensionsChanged();
+
 		}
 
 		/** draw the text element on the canvas */
@@ -73,6 +78,43 @@ namespace KIP {
 			this._displayDimensions.h = this._dimensions.h;
 		}
 
+		/** text is drawn at its unscaled size, so its future region can't come from a simple conversion */
+		protected _getDirtyRegions (): IBasicRect[] {
+			let pt: IPoint = this._canvas.convertAbsolutePointToRelativePoint(this._dimensions);
+			return [
+				this._padForRepaint(this._displayDimensions),
+				this._padForRepaint({ x: pt.x, y: pt.y, w: this._dimensions.w, h: this._dimensions.h })
+			];
+		}
+
+		/** leave room for descenders, which drop below the baseline we draw on */
+		protected _padForRepaint (rect: IBasicRect): IBasicRect {
+			let out: IBasicRect = super._padForRepaint(rect);
+			out.h += (this._style.fontSize || 0) / 2;
+			return out;
+		}
+
+		/** text describes itself */
+		protected _getDefaultDescription (): string {
+			return this._text || super._getDefaultDescription();
+		}
+
+		/** text is sized by its font, not by resizing */
+		protected _resize (w: number, h: number): void { }
+
+		/** include the text when serializing */
+		public toJSON (): ICanvasElementJSON {
+			let out: ICanvasElementJSON = super.toJSON();
+			out.text = this._text;
+			if (this._fixed) { out.fixed = true; }
+			return out;
+		}
+
+		protected _loadJSON (json: ICanvasElementJSON): void {
+			super._loadJSON(json);
+			this._fixed = !!json.fixed;
+		}
+
 		/** clone a text effect */
 		protected _cloneForEffect (id: string) : TextElement {
 			let pt: IPoint = {
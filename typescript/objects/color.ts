@@ -279,9 +279,11 @@ namespace KIP.Colors {
 
 		/** keep track of whether the color was parsed correctly */
 		protected _parsedCorrectly: boolean;
+		public get parsedCorrectly (): boolean { return this._parsedCorrectly; }
 
 		/** shared alpha property for the color */
 		protected _alpha: number = 1;
+		public get alpha (): number { return this._alpha; }
 		public set alpha (value: number) {
 			value = Math.min(1, Math.max(0, value)); 
 			this._alpha = value; 
@@ -291,6 +293,7 @@ namespace KIP.Colors {
 
 		/** red value of RGB */
 		protected _red: number;
+		public get red (): number { return this._red; }
 		public set red (value: number) { 
 			value = Math.min(255, Math.max(0, Math.round(value)));
 			this._red = value; 
@@ -298,6 +301,7 @@ namespace KIP.Colors {
 		
 		/** green value of RGB */
 		protected _green: number;
+		public get green (): number { return this._green; }
 		public set green (value: number) { 
 			value = Math.min(255, Math.max(0, Math.round(value)));
 			this._green = value; 
@@ -305,6 +309,7 @@ namespace KIP.Colors {
 
 		/** blue value of RGB */
 		protected _blue: number;
+		public get blue (): number { return this._blue; }
 		public set blue (value: number) { 
 			value = Math.min(255, Math.max(0, Math.round(value)));
 			this._blue = value; 
@@ -346,7 +346,7 @@ namespace KIP.Forms {
 
                     window.setTimeout(() => {
                         this._updateInternalData(true);
-                        this._dispatchChangeEvent();
+                        this._dispatchChangeEvent(elem.id);
                     }, 0);
                 },
                 uniqueId: this._id + "|" + elem.id
@@ -370,6 +370,12 @@ namespace KIP.Forms {
             } else {
                 if (this._data === null) { return; }
                 map(this._children, (elem: FormElement<T[K]>, key: K) => {
+
+                    // hidden elements aren't included in a real save
+                    if (!internalOnly && elem.isHidden) {
+                        delete this._data[key];
+                        return;
+                    }
                     this._data[key] = elem.save(internalOnly);
                 });
             }
@@ -406,6 +412,7 @@ namespace KIP.Forms {
          * ...........................................................................
          */
         public canSave<K extends keyof T>(): ICanSaveTracker {
+            if (this._isHidden) { return { hasErrors: false, hasMissingRequired: false }; }
            
             // if we only have a single child, check that one
             if (isFormElement(this._children)) {
@@ -415,7 +422,8 @@ namespace KIP.Forms {
             } else {
                 let canSave: ICanSaveTracker = {
                     hasErrors: false,
-                    hasMissingRequired: false
+                    hasMissingRequired: false,
+                    isValidating: false
                 };
 
                 map(this._children,
@@ -423,6 +431,7 @@ namespace KIP.Forms {
                         let childCanSave: ICanSaveTracker = child.canSave();
                         canSave.hasErrors = canSave.hasErrors || childCanSave.hasErrors;
                         canSave.hasMissingRequired = canSave.hasMissingRequired || childCanSave.hasMissingRequired;
+                        canSave.isValidating = canSave.isValidating || childCanSave.isValidating;
                     },
                     () => { return canSave.hasErrors && canSave.hasMissingRequired; }
                 );
@@ -446,6 +455,51 @@ namespace KIP.Forms {
             }
         }
 
+        /**...........................................................................
+         * evaluateRules
+         * ...........................................................................
+         * Apply the rules for this section and all of its children
+         * 
+         * @param   formData    The current data of the form this section is in
+         * 
+         * @returns True if any computed value changed
+         * ...........................................................................
+         */
+        public evaluateRules<K extends keyof T>(formData: any): boolean {
+            let changed: boolean = super.evaluateRules(formData);
+
+            if (isFormElement(this._children)) {
+                return this._children.evaluateRules(formData) || changed;
+            }
+
+            map(this._children, (elem: FormElement<T[K]>) => {
+                changed = elem.evaluateRules(formData) || changed;
+            });
+            return changed;
+        }
+
+        /**...........................................................................
+         * findElement
+         * ...........................................................................
+         * Find the element with the specified ID within this section or its children
+         * 
+         * @param   id  The ID of the element to find
+         * 
+         * @returns The matching element, or null if it isn't in this section
+         * ...........................................................................
+         */
+        public findElement<K extends keyof T>(id: string): FormElement<any> {
+            if (this._id === id) { return this; }
+            if (isFormElement(this._children)) { return this._children.findElement(id); }
+
+            let out: FormElement<any> = null;
+            map(this._children,
+                (elem: FormElement<T[K]>) => { out = elem.findElement(id); },
+                () => { return !!out; }
+            );
+            return out;
+        }
+
         //#endregion
 
         //#region HANDLE CHANGES
@@ -641,7 +695,10 @@ namespace KIP.Forms {
             this._elems.childrenContainer = createSimpleElement("", "formChildren", "", null, null, this._elems.core);
             this._elems.newButton = createSimpleElement("", "kipBtn new", this._newLabel, null, null, this._elems.core);
             this._elems.newButton.addEventListener("click", () => {
+                let oldData: T[] = this.save(true);
                 this._createNewChild();
+                this._updateInternalData(true);
+                this._dispatchChangeEvent(null, oldData);
             });
             this._createStyles();
         }
@@ -672,6 +729,7 @@ namespace KIP.Forms {
                 let child: ArrayChildElement<T> = this._createNewChild();
                 child.update(elem);
             });
+            this._updateInternalData(true);
         }
 
         //#endregion
@@ -697,8 +755,15 @@ namespace KIP.Forms {
                         if (key !== elem.id) { return; }
 
                         window.setTimeout(() => {
+                            let oldData: T[] = this._data;
                             this._updateInternalData(true);
-                            this._dispatchChangeEvent();
+
+                            // deleting a child is a change to the array itself
+                            if (elem.data === null) {
+                                this._dispatchChangeEvent(null, oldData);
+                            } else {
+                                this._dispatchChangeEvent(elem.id);
+                            }
                         }, 0);
                     },
                     uniqueId: this.id + "|" + elem.id
@@ -758,14 +823,18 @@ namespace KIP.Forms {
         public canSave<K extends keyof T>(): ICanSaveTracker {
             let canSave: ICanSaveTracker = {
                 hasErrors: false,
-                hasMissingRequired: false
+                hasMissingRequired: false,
+                isValidating: false
             };
+            if (this._isHidden) { return canSave; }
+
             map(
                 this._children,
                 (child: FormElement<T[K]>) => {
                     let childCanSave: ICanSaveTracker = child.canSave();
                     canSave.hasErrors = canSave.hasErrors || childCanSave.hasErrors;
                     canSave.hasMissingRequired = canSave.hasMissingRequired || childCanSave.hasMissingRequired;
+                    canSave.isValidating = canSave.isValidating || childCanSave.isValidating;
                 },
                 () => { return canSave.hasErrors && canSave.hasMissingRequired; }
             );
@@ -778,7 +847,58 @@ namespace KIP.Forms {
             this._children = [];
         }
 
+        /**...........................................................................
+         * evaluateRules
+         * ...........................................................................
+         * Apply the rules for this array and all of its children
+         * 
+         * @param   formData    The current data of the form this array is in
+         * 
+         * @returns True if any computed value changed
+         * ...........................................................................
+         */
+        public evaluateRules(formData: any): boolean {
+            let changed: boolean = super.evaluateRules(formData);
+
+            map(this._children, (child: FormElement<T>) => {
+                changed = child.evaluateRules(formData) || changed;
+            });
+            return changed;
+        }
+
+        /**...........................................................................
+         * findElement
+         * ...........................................................................
+         * Find the element with the specified ID within this array or its children
+         * 
+         * @param   id  The ID of the element to find
+         * 
+         * @returns The matching element, or null if it isn't in this array
+         * ...........................................................................
+         */
+        public findElement(id: string): FormElement<any> {
+            if (this._id === id) { return this; }
+
+            let out: FormElement<any> = null;
+            map(this._children,
+                (child: FormElement<T>) => { out = child.findElement(id); },
+                () => { return !!out; }
+            );
+            return out;
+        }
+
+        /**...........................................................................
+         * onChangeOrder
+         * ...........................................................................
+         * Move a child of this array to a new position
+         * 
+         * @param   child       The child being moved
+         * @param   direction   The direction in which the child is moving
+         * @param   moveTo      If provided, the index the child should move to
+         * ...........................................................................
+         */
         public onChangeOrder(child: ArrayChildElement<T>, direction: DirectionType, moveTo?: number): void {
+            let oldData: T[] = this.save(true);
 
             // update data array
             let curIdx: number;
@@ -802,7 +922,10 @@ namespace KIP.Forms {
             } else {
                 this._elems.childrenContainer.appendChild(childElem);
             }
-            
+
+            // let listeners know that the order of our data changed
+            this._updateInternalData(true);
+            this._dispatchChangeEvent(null, oldData);
         }
 
         //#endregion
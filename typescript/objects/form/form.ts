@@ -137,6 +137,9 @@ namespace KIP.Forms {
             return this._coreFormElem.save(true);
         }
 
+        /** the section containing all elements of the form */
+        public get coreElement(): SectionElement<F> { return this._coreFormElem; }
+
         /** internal tracking for whether the form is showing or not */
         protected _hidden: boolean;
 
@@ -170,6 +173,45 @@ namespace KIP.Forms {
         /** keep track of whether we can save this form */
         protected _canSaveTracker: ICanSaveTracker;
 
+        /** true if a save was requested while validation was still running */
+        protected _saveWhenValidated: boolean;
+
+        /** key under which drafts of this form are stored, if autosaving */
+        protected _autosaveKey: string;
+
+        /** how often (in ms) drafts are saved */
+        protected _autosaveInterval: number;
+
+        /** the timer that periodically saves drafts, while there are unsaved changes */
+        protected _autosaveTimer: number;
+
+        /** true if we've already told the user that drafts can't be saved */
+        protected _hasReportedDraftError: boolean;
+
+        /** how long (in ms) a draft is kept before it expires */
+        protected _draftExpiration: number;
+
+        /** where drafts are kept */
+        protected _draftStorage: IFormDraftStorage;
+
+        /** true once we've asked the user about restoring their draft */
+        protected _hasOfferedDraft: boolean;
+
+        /** changes that can be undone, with the most recent change last */
+        protected _undoStack: IFormHistoryEntry[];
+
+        /** changes that have been undone and can be reapplied */
+        protected _redoStack: IFormHistoryEntry[];
+
+        /** the maximum number of changes we will keep track of */
+        protected _historyLimit: number;
+
+        /** true if there are changes that can be undone */
+        public get canUndo(): boolean { return (this._undoStack.length > 0); }
+
+        /** true if there are undone changes that can be redone */
+        public get canRedo(): boolean { return (this._redoStack.length > 0); }
+
         //#endregion
 
         //#region CONSTRUCTOR
@@ -195,6 +237,9 @@ namespace KIP.Forms {
             this._additionalButtons = options.addlButtons || [];
             this._hasChanges = false;
             this._canSaveTracker = { hasMissingRequired: false, hasErrors: false };
+            this._undoStack = [];
+            this._redoStack = [];
+            this._historyLimit = options.historyLimit || 50;
 
             this._colors = options.colors || ["#4A5", "#284"];
             this._applyColors();
@@ -206,6 +251,8 @@ namespace KIP.Forms {
             this._createElements();
             this._createCoreElem(options, elems);
             this._addWindowEventListeners();
+            this._trackChanges();
+            this._startAutosave(options);
         }
 
         //#endregion
@@ -316,11 +363,25 @@ namespace KIP.Forms {
                         let key: string = event.context.key;
                         if (key !== this._id) { return; }
                         this._hasChanges = true;
+                        this._startAutosaveTimer();
                     },
                     uniqueId: this._id + "|form"
                 }
             );
 
+            // re-evaluate any element rules whenever something in this form changes
+            Events.addEventListener(FORM_ELEM_CHANGE,
+                {
+                    func: (event: Events.Event) => {
+                        let key: string = event.context.key;
+                        if (this._coreFormElem.findElement(key) !== event.context.elem) { return; }
+                        this._evaluateRules();
+                    },
+                    uniqueId: this._id + "|rules"
+                }
+            );
+            this._evaluateRules();
+
             // add listener for savable changes
             this._addSaveButtonUpdater();
 
@@ -333,6 +394,7 @@ namespace KIP.Forms {
             Events.addEventListener(FORM_SAVABLE_CHANGE, {
                 func: (event: Events.Event) => {
                     let canSave = this._canSave();
+
                     if (!canSave) {
                         this._elems.saveButton.title = this._getCannotSaveMessage();
                         addClass(this._elems.saveButton, "disabled");
@@ -340,6 +402,13 @@ namespace KIP.Forms {
                         this._elems.saveButton.title = "";
                         removeClass(this._elems.saveButton, "disabled");
                     }
+
+                    // if a save was waiting on validation, try it now that validation is
+                    // done (after the save button reflects the result)
+                    if (this._saveWhenValidated && !this._canSaveTracker.isValidating) {
+                        this._saveWhenValidated = false;
+                        this.trySave();
+                    }
                 }
             })
         }
@@ -355,21 +424,43 @@ namespace KIP.Forms {
          * ...........................................................................
          */
         protected _save(): F {
-            let data: F = this._coreFormElem.save();
+            let data: F = this._getDataToSave();
 
             // Alert any listeners of this particular form that 
             this._notifySaveListeners(data);
             this._hasChanges = false;
+            this.clearDraft();
             return data;
         }
 
+        /**...........................................................................
+         * _getDataToSave
+         * ...........................................................................
+         * Collect the data that a save of this form should report
+         * ...........................................................................
+         */
+        protected _getDataToSave(): F {
+            return this._coreFormElem.save();
+        }
+
         /**...........................................................................
          * trySave
          * ...........................................................................
-         * Attempt to save the form
+         * Attempt to save the form. If any elements are still validating, the save 
+         * happens once they finish, and save listeners are notified then.
+         * 
+         * @returns The saved data, or null if the form couldn't save yet
          * ...........................................................................
          */
         public trySave(): F {
+
+            // wait for any pending validation before deciding whether we can save
+            this._canSave();
+            if (this._canSaveTracker.isValidating) {
+                this._saveWhenValidated = true;
+                return null;
+            }
+
             if (hasClass(this._elems.saveButton, "disabled")) { return null; }
             if (!this._canSave()) {
                 this._showCannotSaveMessage();
@@ -388,7 +479,7 @@ namespace KIP.Forms {
         protected _canSave(): boolean {
             this._canSaveTracker = this._coreFormElem.canSave();
 
-            return !(this._canSaveTracker.hasErrors || this._canSaveTracker.hasMissingRequired);
+            return !(this._canSaveTracker.hasErrors || this._canSaveTracker.hasMissingRequired || this._canSaveTracker.isValidating);
         }
 
         /**...........................................................................
@@ -422,6 +513,8 @@ namespace KIP.Forms {
                 msg = "There are some errors in your form; correct them before saving.";
             }  else if (this._canSaveTracker.hasMissingRequired) {
                 msg = "There are some fields with missing data; fill them in before saving.";
+            } else if (this._canSaveTracker.isValidating) {
+                msg = "Some fields are still being checked; the form can be saved once they finish.";
             }
 
             return msg;
@@ -472,7 +565,10 @@ namespace KIP.Forms {
          * ...........................................................................
          */
         protected _cancel(): void {
+            this._saveWhenValidated = false;
             this.clear();
+            this.clearHistory();
+            this.clearDraft();
             this._notifyCancelListeners(this._hasChanges);
             this._hasChanges = false;
             this.hide();
@@ -526,23 +622,367 @@ namespace KIP.Forms {
          */
         public update(data: F): void {
             this._coreFormElem.update(data);
+            this._evaluateRules();
             this._hasChanges = false;
+            this.clearHistory();
+        }
+
+        /**...........................................................................
+         * _evaluateRules
+         * ...........................................................................
+         * Apply visibility, enabled, and computed value rules across the form. 
+         * Computed values can depend on each other, so keep going until they settle.
+         * ...........................................................................
+         */
+        protected _evaluateRules(): void {
+            let passes: number = 0;
+            while (this._coreFormElem.evaluateRules(this.data) && passes < 10) {
+                passes += 1;
+            }
         }
 
         //#endregion
 
         //#region TRACK CHANGES
-        public undo(): void {
-            // TODO
+
+        /**...........................................................................
+         * undo
+         * ...........................................................................
+         * Revert the most recent change made to the form
+         * 
+         * @returns True if there was a change to undo
+         * ...........................................................................
+         */
+        public undo(): boolean {
+            let entry: IFormHistoryEntry = this._undoStack.pop();
+            if (!entry) { return false; }
+
+            this._applyHistoryEntry(entry, entry.before);
+            this._redoStack.push(entry);
+            this._notifyHistoryChange();
+            return true;
         }
 
-        public redo(): void {
+        /**...........................................................................
+         * redo
+         * ...........................................................................
+         * Reapply the most recently undone change to the form
+         * 
+         * @returns True if there was a change to redo
+         * ...........................................................................
+         */
+        public redo(): boolean {
+            let entry: IFormHistoryEntry = this._redoStack.pop();
+            if (!entry) { return false; }
+
+            this._applyHistoryEntry(entry, entry.after);
+            this._undoStack.push(entry);
+            this._notifyHistoryChange();
+            return true;
+        }
 
+        /**...........................................................................
+         * clearHistory
+         * ...........................................................................
+         * Forget all changes that could be undone or redone
+         * ...........................................................................
+         */
+        public clearHistory(): void {
+            this._undoStack = [];
+            this._redoStack = [];
+            this._notifyHistoryChange();
         }
 
+        /**...........................................................................
+         * _trackChanges
+         * ...........................................................................
+         * Listen for changes to the elements of this form so they can be undone
+         * ...........................................................................
+         */
         protected _trackChanges(): void {
-            // TODO
+            Events.addEventListener(FORM_ELEM_CHANGE, {
+                func: (event: Events.Event) => {
+                    this._recordChange(event.context);
+                },
+                uniqueId: this._id + "|history"
+            });
+
+            this._elems.base.addEventListener("keydown", (e: KeyboardEvent) => {
+                this._onHistoryKeyEvent(e);
+            });
+        }
+
+        /**...........................................................................
+         * _recordChange
+         * ...........................................................................
+         * Add a change to the history, if it was made to an element of this form
+         * 
+         * @param   context     The context of the change event that fired
+         * ...........................................................................
+         */
+        protected _recordChange(context: Events.IEventContext): void {
+
+            // changes passed up from children are tracked by the child itself
+            if (context.subkey) { return; }
+            if (context.oldData === undefined) { return; }
+
+            // make sure this is actually an element in our form
+            let key: string = context.key;
+            if (this._coreFormElem.findElement(key) !== context.elem) { return; }
+
+            let before: any = cloneFormData(context.oldData);
+            let after: any = cloneFormData(context.data);
+            if (this._isSameData(before, after)) { return; }
+
+            // merge quick successive changes to the same element (e.g. typing) 
+            let now: number = Date.now();
+            let last: IFormHistoryEntry = this._undoStack[this._undoStack.length - 1];
+            if (last && last.key === key && (now - last.timestamp) < 1000 && this._redoStack.length === 0) {
+                last.after = after;
+                last.timestamp = now;
+            } else {
+                this._undoStack.push({ key: key, before: before, after: after, timestamp: now });
+            }
+
+            // make sure we don't grow past our limit
+            while (this._undoStack.length > this._historyLimit) {
+                this._undoStack.shift();
+            }
+
+            this._redoStack = [];
+            this._notifyHistoryChange();
+        }
+
+        /**...........................................................................
+         * _applyHistoryEntry
+         * ...........................................................................
+         * Set the element associated with a history entry to a particular snapshot
+         * 
+         * @param   entry   The entry being undone or redone
+         * @param   data    The snapshot to apply to the element
+         * ...........................................................................
+         */
+        protected _applyHistoryEntry(entry: IFormHistoryEntry, data: any): void {
+            let elem: FormElement<any> = this._coreFormElem.findElement(entry.key);
+            if (!elem) { return; }
+
+            elem.update(cloneFormData(data));
+            this._evaluateRules();
+            this._hasChanges = true;
+            this._startAutosaveTimer();
+            Events.dispatchEvent(FORM_SAVABLE_CHANGE, {});
+        }
+
+        /**...........................................................................
+         * _isSameData
+         * ...........................................................................
+         * Determine whether two snapshots of data are equivalent
+         * ...........................................................................
+         */
+        protected _isSameData(a: any, b: any): boolean {
+            return (JSON.stringify(a) === JSON.stringify(b));
+        }
+
+        /**...........................................................................
+         * _onHistoryKeyEvent
+         * ...........................................................................
+         * Handle Ctrl+Z / Ctrl+Y (or Ctrl+Shift+Z) within the form
+         * ...........................................................................
+         */
+        protected _onHistoryKeyEvent(e: KeyboardEvent): void {
+            if (!e.ctrlKey && !e.metaKey) { return; }
+
+            let handled: boolean;
+            if (e.keyCode === 90 && !e.shiftKey) {
+                handled = this.undo();
+            } else if (e.keyCode === 89 || (e.keyCode === 90 && e.shiftKey)) {
+                handled = this.redo();
+            }
+
+            // if we took care of it, don't let the browser's own undo run as well
+            if (handled) { e.preventDefault(); }
+        }
+
+        /**...........................................................................
+         * _notifyHistoryChange
+         * ...........................................................................
+         * Let listeners know whether undo / redo are currently available
+         * ...........................................................................
+         */
+        protected _notifyHistoryChange(): void {
+            Events.dispatchEvent(FORM_HISTORY_CHANGE, {
+                key: this._id,
+                canUndo: this.canUndo,
+                canRedo: this.canRedo
+            });
+        }
+        //#endregion
+
+        //#region DRAFTS
+
+        /**...........................................................................
+         * _startAutosave
+         * ...........................................................................
+         * Periodically save a draft of the form, if the form was set up to do so
+         * 
+         * @param   options     The options the form was created with
+         * ...........................................................................
+         */
+        protected _startAutosave(options: IFormOptions): void {
+            this._autosaveKey = options.autosaveKey;
+            if (!this._autosaveKey) { return; }
+
+            this._autosaveInterval = options.autosaveInterval || 5000;
+            this._draftExpiration = options.draftExpiration || (7 * 24 * 60 * 60 * 1000);
+            this._draftStorage = options.draftStorage || _getLocalStorage();
+        }
+
+        /** start saving drafts periodically, if we aren't already */
+        protected _startAutosaveTimer(): void {
+            if (!this._autosaveKey || this._autosaveTimer) { return; }
+
+            this._autosaveTimer = window.setInterval(() => {
+                if (!this._hasChanges) { return; }
+                this.saveDraft();
+            }, this._autosaveInterval);
+        }
+
+        /** stop saving drafts until there are new changes */
+        protected _stopAutosaveTimer(): void {
+            if (!this._autosaveTimer) { return; }
+            window.clearInterval(this._autosaveTimer);
+            this._autosaveTimer = null;
+        }
+
+        /**...........................................................................
+         * saveDraft
+         * ...........................................................................
+         * Store the in-progress data of the form so it can be restored later
+         * ...........................................................................
+         */
+        public saveDraft(): void {
+            if (!this._autosaveKey) { return; }
+
+            let draft: IFormDraft<F> = { savedAt: Date.now(), data: this.data };
+            try {
+                this._draftStorage.setItem(this._autosaveKey, JSON.stringify(draft));
+                this._hasReportedDraftError = false;
+            } catch (e) {
+                this._showDraftErrorMessage();
+            }
+        }
+
+        /**...........................................................................
+         * _showDraftErrorMessage
+         * ...........................................................................
+         * Let the user know their changes aren't being kept (e.g. because storage
+         * is full), without repeating the message on every autosave
+         * ...........................................................................
+         */
+        protected _showDraftErrorMessage(): void {
+            if (this._hasReportedDraftError) { return; }
+            this._hasReportedDraftError = true;
+
+            let popup: ErrorPopup = new ErrorPopup("Your changes couldn't be saved as a draft; save the form to keep them.", "Couldn't Save Draft");
+            popup.setThemeColor(0, this._colors[0]);
+            popup.setThemeColor(1, this._colors[1]);
+            popup.draw(document.body);
+        }
+
+        /**...........................................................................
+         * loadDraft
+         * ...........................................................................
+         * Grab the stored draft of this form, if there is one that hasn't expired
+         * 
+         * @returns The stored draft, or null if there isn't one
+         * ...........................................................................
+         */
+        public loadDraft(): IFormDraft<F> {
+            if (!this._autosaveKey) { return null; }
+
+            let draft: IFormDraft<F>;
+            try {
+                let stored: string = this._draftStorage.getItem(this._autosaveKey);
+                if (!stored) { return null; }
+                draft = JSON.parse(stored, _reviveDraftDates);
+            } catch (e) {
+                this.clearDraft();
+                return null;
+            }
+
+            // don't hold onto drafts forever
+            if (!draft || (Date.now() - draft.savedAt) > this._draftExpiration) {
+                this.clearDraft();
+                return null;
+            }
+
+            return draft;
         }
+
+        /**...........................................................................
+         * clearDraft
+         * ...........................................................................
+         * Remove the stored draft of this form, and stop autosaving until there
+         * are new changes
+         * ...........................................................................
+         */
+        public clearDraft(): void {
+            if (!this._autosaveKey) { return; }
+            this._stopAutosaveTimer();
+
+            // if storage isn't working, there's nothing we can clear
+            try {
+                this._draftStorage.removeItem(this._autosaveKey);
+            } catch (e) { }
+        }
+
+        /**...........................................................................
+         * restoreDraft
+         * ...........................................................................
+         * Load the stored draft into the form
+         * 
+         * @returns True if there was a draft to restore
+         * ...........................................................................
+         */
+        public restoreDraft(): boolean {
+            let draft: IFormDraft<F> = this.loadDraft();
+            if (!draft) { return false; }
+
+            this.update(draft.data);
+
+            // the restored data still hasn't been saved
+            this._hasChanges = true;
+            this._startAutosaveTimer();
+            return true;
+        }
+
+        /**...........................................................................
+         * _offerDraftRestore
+         * ...........................................................................
+         * Ask the user whether they want to pick up where they left off
+         * ...........................................................................
+         */
+        protected _offerDraftRestore(): void {
+            if (this._hasOfferedDraft) { return; }
+            this._hasOfferedDraft = true;
+
+            let draft: IFormDraft<F> = this.loadDraft();
+            if (!draft) { return; }
+
+            let popup: YesNoPopup = new YesNoPopup(
+                "You have unsaved changes from " + Dates.shortDateTime(new Date(draft.savedAt)) + ". Do you want to restore them?",
+                (response: YesNoEnum) => {
+                    if (response === YesNoEnum.YES) {
+                        this.restoreDraft();
+                    } else {
+                        this.clearDraft();
+                    }
+                }
+            );
+            popup.setThemeColor(0, this._colors[0]);
+            popup.draw(document.body);
+        }
+
         //#endregion
 
         //#region HIDE OR SHOW THE FORM
@@ -570,6 +1010,17 @@ namespace KIP.Forms {
             KIP.addClass(this._elems.base, "hidden");
         }
 
+        /**...........................................................................
+         * erase
+         * ...........................................................................
+         * remove the form, no longer autosaving its drafts
+         * ...........................................................................
+         */
+        public erase(): void {
+            super.erase();
+            this._stopAutosaveTimer();
+        }
+
         /**...........................................................................
          * draw
          * ...........................................................................
@@ -586,6 +1037,7 @@ namespace KIP.Forms {
                 document.body.appendChild(this._elems.base);
             }
             if (!noShow) { this.show(); }
+            this._offerDraftRestore();
         }
         //#endregion
 
@@ -626,6 +1078,7 @@ namespace KIP.Forms {
         protected _addWindowEventListeners(): void {
             window.addEventListener("beforeunload", (e: Event) => {
                 if (this._hasChanges) {
+                    this.saveDraft();
                     let msg = "You have unsaved changes; are you sure you want to leave this page?";
                     e.returnValue = msg as any;
                     return msg;
@@ -641,6 +1094,35 @@ namespace KIP.Forms {
         //#endregion
     }
 
+    /**...........................................................................
+     * _getLocalStorage
+     * ...........................................................................
+     * Find the browser's local storage, which can throw when it is disabled (e.g.
+     * in sandboxed iframes)
+     * 
+     * @returns The local storage, or null if it isn't available
+     * ...........................................................................
+     */
+    function _getLocalStorage(): IFormDraftStorage {
+        try {
+            return window.localStorage;
+        } catch (e) {
+            return null;
+        }
+    }
+
+    /**...........................................................................
+     * _reviveDraftDates
+     * ...........................................................................
+     * Turn the date strings in a stored draft back into dates
+     * ...........................................................................
+     */
+    function _reviveDraftDates(key: string, value: any): any {
+        if (!isString(value)) { return value; }
+        if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(value)) { return value; }
+        return new Date(value);
+    }
+
     //#region EVENT HANDLER FOR FORMS
 
     // create a particular event for all form change events
@@ -655,6 +1137,12 @@ namespace KIP.Forms {
         name: "Form Savable Change",
         key: FORM_SAVABLE_CHANGE
     });
+
+    export const FORM_HISTORY_CHANGE = "formhistorychange";
+    KIP.Events.createEvent({
+        name: "Form History Change",
+        key: FORM_HISTORY_CHANGE
+    });
     //#endregion
 
 }
\ No newline at end of file
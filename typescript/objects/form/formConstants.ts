@@ -18,12 +18,15 @@ namespace KIP.Forms {
             HIDDEN = 14,
             FILE_UPLOAD = 15,
             FILE_PATH = 16,
-            COLOR = 17
+            COLOR = 17,
+            RICH_TEXT = 18,
+            TYPEAHEAD = 19
         };
 
         export interface ICanSaveTracker {
             hasErrors: boolean;
             hasMissingRequired: boolean;
+            isValidating?: boolean;
         }
     
         /** options for layout */
@@ -51,6 +54,25 @@ namespace KIP.Forms {
             noStandardStyles?: boolean;
             colors?: string[];
             addlButtons?: IFormButton[];
+            historyLimit?: number;
+
+            autosaveKey?: string;
+            autosaveInterval?: number;
+            draftExpiration?: number;
+            draftStorage?: IFormDraftStorage;
+        }
+
+        /** where drafts of in-progress forms are kept; window.localStorage by default */
+        export interface IFormDraftStorage {
+            getItem(key: string): string;
+            setItem(key: string, value: string): void;
+            removeItem(key: string): void;
+        }
+
+        /** a saved copy of an in-progress form */
+        export interface IFormDraft<F> {
+            savedAt: number;
+            data: F;
         }
 
         export interface IFormButton {
@@ -59,6 +81,14 @@ namespace KIP.Forms {
             callback: Function;
         }
 
+        /** a single formatting action in the rich text toolbar */
+        export interface IRichTextCommand {
+            display: string;
+            title: string;
+            command: string;
+            value?: string;
+        }
+
          /** handle the template for setting up a form */
          export interface IFormElemTemplate<T> extends IFormDisplay {
             value?: T,
@@ -66,8 +96,14 @@ namespace KIP.Forms {
             required?: boolean;
     
             onValidate?: IValidateFunc<T>;
+            onValidateAsync?: IAsyncValidateFunc<T>;
+            validationDelay?: number;
             onOtherChange?: IOtherChangeFunc<T>;
 
+            visibleWhen?: IFormConditionFunc;
+            enabledWhen?: IFormConditionFunc;
+            computeFrom?: IFormComputeFunc<T>;
+
             validationType?: ValidationType;
            
             [key: string]: any; 
@@ -98,6 +134,14 @@ namespace KIP.Forms {
             options?: IToggleBtnOption<T>[];
         }
 
+        /** typeahead-specific template options */
+        export interface IFormTypeaheadTemplate extends IFormElemTemplate<string | string[]> {
+            options?: IDynamicOption[];
+            onQuery?: ITypeaheadQueryFunc;
+            dataSource?: IDynamicSelectDataSource;
+            multiple?: boolean;
+        }
+
         export interface IFormFileElemTemplate<T> extends IFormElemTemplate<T> {
             attr?: IAttributes;
         }
@@ -117,11 +161,39 @@ namespace KIP.Forms {
             (data: T, errorString: IErrorString): boolean;
         }
     
+        /** handle validation that needs to wait on something else (e.g. the server) */
+        export interface IAsyncValidateFunc<T> {
+            (data: T, errorString: IErrorString): PromiseLike<boolean>;
+        }
+    
+        /** find the options that match what has been typed into a typeahead */
+        export interface ITypeaheadQueryFunc {
+            (queryText: string): PromiseLike<IDynamicOption[] | IDynamicSelectPage>;
+        }
+    
         /** handle when another element of the form has changed */
         export interface IOtherChangeFunc<T> {
             (otherID: string, data: any, formElement: FormElement<T>, context?: any): void;
         }
 
+        /** determine whether a rule applies, based on the current data of the form */
+        export interface IFormConditionFunc {
+            (formData: any): boolean;
+        }
+
+        /** calculate the value of an element from the current data of the form */
+        export interface IFormComputeFunc<T> {
+            (formData: any): T;
+        }
+
+        /** keep track of a single recorded change to an element of the form */
+        export interface IFormHistoryEntry {
+            key: string;
+            before: any;
+            after: any;
+            timestamp: number;
+        }
+
         export interface IFileChangeCallback {
             (files: FileList): string;
         }
@@ -47,6 +47,25 @@ namespace KIP.Forms {
         /** what to use to validate the function */
         protected _onValidate: IValidateFunc<T>;
 
+        /** what to use to validate the function when it needs to wait on a result */
+        protected _onValidateAsync: IAsyncValidateFunc<T>;
+
+        /** how long to wait after a change before running the async validation */
+        protected _validationDelay: number;
+
+        /** keep track of whether we are waiting on an async validation */
+        protected _isValidating: boolean;
+        public get isValidating(): boolean { return this._isValidating; }
+
+        /** keep track of which async validation is the most recent */
+        protected _validationCount: number = 0;
+
+        /** timeout for the debounced async validation */
+        protected _validationTimeout: number;
+
+        /** the most recently validated data & its result */
+        protected _lastAsyncValidation: { data: string, isValid: boolean, errorString: IErrorString };
+
         /** handler for when another element changes */
         protected _onOtherChange: IOtherChangeFunc<T>;
         public get onOtherChange(): IOtherChangeFunc<T> { return this._onOtherChange; }
@@ -81,6 +100,14 @@ namespace KIP.Forms {
         protected _validationType: ValidationType;
         public get validationType(): ValidationType { return this._validationType; }
 
+        /** keep track of whether this element has been hidden by its visibility rule */
+        protected _isHidden: boolean;
+        public get isHidden(): boolean { return this._isHidden; }
+
+        /** keep track of whether this element has been disabled by its enabled rule */
+        protected _isDisabled: boolean;
+        public get isDisabled(): boolean { return this._isDisabled; }
+
         /** placeholder for individual CSS styles */
         protected static _uncoloredStyles: Styles.IStandardStyles = {
             ".kipFormElem, .kipFormElem input, .kipFormElem select, .kipFormElem textarea": {
@@ -131,6 +158,20 @@ namespace KIP.Forms {
                 fontStyle: "italic"
             },
 
+            ".kipFormElem.ruleHidden": {
+                display: "none"
+            },
+
+            ".kipFormElem.disabled": {
+                opacity: "0.5",
+                pointerEvents: "none"
+            },
+
+            ".kipFormElem.validating .error:before": {
+                content: '"Validating\u2026"',
+                color: "#888"
+            },
+
             ".kipFormElem.flex": {
                 display: "flex",
                 alignItems: "center",
@@ -239,6 +280,8 @@ namespace KIP.Forms {
 
             // handle validation options
             this._onValidate = template.onValidate;
+            this._onValidateAsync = template.onValidateAsync;
+            this._validationDelay = isNullOrUndefined(template.validationDelay) ? 300 : template.validationDelay;
             this._validationType = template.validationType;
             if (isNullOrUndefined(this._validationType)) { this._validationType = ValidationType.KEEP_ERROR_VALUE; }
 
@@ -431,9 +474,11 @@ namespace KIP.Forms {
          * ...........................................................................
          */
         public canSave(): ICanSaveTracker {
+            if (this._isHidden) { return { hasErrors: false, hasMissingRequired: false }; }
             return {
                 hasErrors: this._hasErrors,
-                hasMissingRequired: this._hasBlankRequiredElems()
+                hasMissingRequired: this._hasBlankRequiredElems(),
+                isValidating: this._isValidating
             };
         }
 
@@ -457,6 +502,7 @@ namespace KIP.Forms {
          * ...........................................................................
          */
         public update(data: T): void {
+            this._cancelAsyncValidation();
             this._onClear();
             if (isNullOrUndefined(data)) { data = this._defaultValue; }
             
@@ -491,9 +537,88 @@ namespace KIP.Forms {
          * ...........................................................................
          */
         public clear(): void {
+            this._cancelAsyncValidation();
             return this._onClear();
         }
 
+        /**...........................................................................
+         * evaluateRules
+         * ...........................................................................
+         * Apply any visibility, enabled, or computed value rules for this element
+         * 
+         * @param   formData    The current data of the form this element is in
+         * 
+         * @returns True if a computed value changed
+         * ...........................................................................
+         */
+        public evaluateRules(formData: any): boolean {
+            let template: IFormElemTemplate<T> = this._template;
+
+            if (template.visibleWhen) { this._setHidden(!template.visibleWhen(formData)); }
+            if (template.enabledWhen) { this._setDisabled(!template.enabledWhen(formData)); }
+            if (!template.computeFrom) { return false; }
+
+            // only update if the computed value is actually different
+            let value: T = template.computeFrom(formData);
+            if (JSON.stringify(value) === JSON.stringify(this._data)) { return false; }
+            this.update(value);
+            return true;
+        }
+
+        /**...........................................................................
+         * findElement
+         * ...........................................................................
+         * Find the element with the specified ID within this element
+         * 
+         * @param   id  The ID of the element to find
+         * 
+         * @returns The matching element, or null if it isn't a part of this element
+         * ...........................................................................
+         */
+        public findElement(id: string): FormElement<any> {
+            if (this._id === id) { return this; }
+            return null;
+        }
+
+        //#endregion
+
+        //#region Handle rule-based display of the element
+
+        /**...........................................................................
+         * _setHidden
+         * ...........................................................................
+         * Show or hide this element
+         * ...........................................................................
+         */
+        protected _setHidden(hidden: boolean): void {
+            this._isHidden = hidden;
+            if (hidden) {
+                addClass(this._elems.core, "ruleHidden");
+            } else {
+                removeClass(this._elems.core, "ruleHidden");
+            }
+        }
+
+        /**...........................................................................
+         * _setDisabled
+         * ...........................................................................
+         * Allow or prevent the user from editing this element
+         * ...........................................................................
+         */
+        protected _setDisabled(disabled: boolean): void {
+            this._isDisabled = disabled;
+            if (disabled) {
+                addClass(this._elems.core, "disabled");
+            } else {
+                removeClass(this._elems.core, "disabled");
+            }
+
+            let inputs: NodeListOf<Element> = this._elems.core.querySelectorAll("input, select, textarea");
+            for (let i = 0; i < inputs.length; i += 1) {
+                (inputs[i] as HTMLInputElement).disabled = disabled;
+            }
+        }
+
         //#endregion
 
         //#region Handle changes to the element's data 
@@ -507,12 +632,13 @@ namespace KIP.Forms {
         protected _changeEventFired(): void {
 
             this._clearErrors();
+            let oldData: T = this._data;
 
             // call the child's version of the validation
             if (this._onChange()) {
 
                 // let the listeners know that this succeeded
-                this._dispatchChangeEvent();
+                this._dispatchChangeEvent(null, oldData);
             }
 
             this._dispatchSavableChangeEvent();
@@ -551,12 +677,12 @@ namespace KIP.Forms {
         }
 
         /**...........................................................................
-         * _onValidateError
+         * _showErrorMessage
          * ...........................................................................
-         * display a default error message 
+         * display the message for a particular validation error 
          * ...........................................................................
          */
-        protected _onValidateError(err?: IErrorString): void {
+        protected _showErrorMessage(err?: IErrorString): void {
             let msg: string;
 
             if (err) {
@@ -569,6 +695,16 @@ namespace KIP.Forms {
             if (this._elems.error) {
                 this._elems.error.innerHTML = msg;
             }
+        }
+
+        /**...........................................................................
+         * _onValidateError
+         * ...........................................................................
+         * display a default error message 
+         * ...........................................................................
+         */
+        protected _onValidateError(err?: IErrorString): void {
+            this._showErrorMessage(err);
 
             /** update the thing */
             if (this._elems.input) {
@@ -595,6 +731,98 @@ namespace KIP.Forms {
             }
 
             
+        }
+
+        /**...........................................................................
+         * _startAsyncValidation
+         * ...........................................................................
+         * Run the async validation for this element once the user has stopped 
+         * changing it for a moment. Any check that is still outstanding when a newer 
+         * one starts is ignored.
+         * 
+         * @param   data    The data to validate
+         * ...........................................................................
+         */
+        protected _startAsyncValidation(data: T): void {
+            if (!this._onValidateAsync) { return; }
+
+            // if we already know the answer for this data, reuse it
+            let dataStr: string = JSON.stringify(data);
+            let last = this._lastAsyncValidation;
+            if (!this._isValidating && last && last.data === dataStr) {
+                this._applyAsyncValidation(last.isValid, last.errorString);
+                return;
+            }
+
+            this._cancelAsyncValidation();
+            let checkId: number = this._validationCount;
+            this._setValidating(true);
+
+            this._validationTimeout = window.setTimeout(() => {
+                let errorString: IErrorString = { title: "", details: "" };
+
+                let onResult = (result: boolean) => {
+                    if (checkId !== this._validationCount) { return; }
+
+                    let isValid: boolean = !!result;
+                    this._lastAsyncValidation = { data: dataStr, isValid: isValid, errorString: errorString };
+                    this._setValidating(false);
+                    this._applyAsyncValidation(isValid, errorString);
+                };
+
+                let onError = () => {
+                    if (checkId !== this._validationCount) { return; }
+                    this._setValidating(false);
+                    this._applyAsyncValidation(false, { title: errorString.title, details: errorString.details || "couldn't be validated" });
+                };
+
+                try {
+                    KipPromise.resolve(this._onValidateAsync(data, errorString)).then(onResult, onError);
+                } catch (e) {
+                    onError();
+                }
+            }, this._validationDelay);
+        }
+
+        /**...........................................................................
+         * _cancelAsyncValidation
+         * ...........................................................................
+         * Make sure any outstanding async validation is ignored
+         * ...........................................................................
+         */
+        protected _cancelAsyncValidation(): void {
+            window.clearTimeout(this._validationTimeout);
+            this._validationCount += 1;
+            if (this._isValidating) { this._setValidating(false); }
+        }
+
+        /**...........................................................................
+         * _applyAsyncValidation
+         * ...........................................................................
+         * Update the error state of this element with an async validation result
+         * ...........................................................................
+         */
+        protected _applyAsyncValidation(isValid: boolean, errorString: IErrorString): void {
+            if (!isValid) {
+                this._hasErrors = true;
+                this._showErrorMessage(errorString);
+            }
+            this._dispatchSavableChangeEvent();
+        }
+
+        /**...........................................................................
+         * _setValidating
+         * ...........................................................................
+         * Track whether we are waiting on an async validation
+         * ...........................................................................
+         */
+        protected _setValidating(isValidating: boolean): void {
+            this._isValidating = isValidating;
+            if (isValidating) {
+                addClass(this._elems.core, "validating");
+            } else {
+                removeClass(this._elems.core, "validating");
+            }
         }
 
          /**...........................................................................
@@ -611,13 +839,19 @@ namespace KIP.Forms {
          * _dispatchChangeEvent
          * ...........................................................................
          * let any listeners know that we updated our stuff 
+         * 
+         * @param   subkey      If provided, the child element whose change is being
+         *                      passed along
+         * @param   oldData     If provided, the data before this change occurred
          * ...........................................................................
          */
-        protected _dispatchChangeEvent(subkey?: string): void {
+        protected _dispatchChangeEvent(subkey?: string, oldData?: T): void {
             Events.dispatchEvent(FORM_ELEM_CHANGE, {
                 key: this._id,
                 subkey: subkey,
-                data: this._data
+                data: this._data,
+                oldData: oldData,
+                elem: this
             });
         }
 
@@ -677,11 +911,13 @@ namespace KIP.Forms {
             };
 
             if (!this._validate(value, errorString)) {
+                this._cancelAsyncValidation();
                 this._onValidateError(errorString);
                 return false;
             }
 
             this._data = value;
+            this._startAsyncValidation(value);
             return true;
         }
 
@@ -10,8 +10,14 @@ namespace KIP.Forms {
             required: template.required,
 
             onValidate: template.onValidate,
+            onValidateAsync: template.onValidateAsync,
+            validationDelay: template.validationDelay,
             onOtherChange: template.onOtherChange,
 
+            visibleWhen: template.visibleWhen,
+            enabledWhen: template.enabledWhen,
+            computeFrom: template.computeFrom,
+
             label: template.label,
             cls: template.cls,
             layout: template.layout
@@ -20,6 +26,30 @@ namespace KIP.Forms {
         return temp;
     }
 
+    /**
+     * Creates a deep copy of form data, keeping dates intact
+     * @param data - The data to copy
+     * @returns The copied data
+     */
+    export function cloneFormData<D>(data: D): D {
+        if (isNullOrUndefined(data)) { return data; }
+        if (data instanceof Date) { return new Date(data.getTime()) as any; }
+
+        // only plain arrays + objects get copied; anything else is kept as is
+        if (data instanceof Array) {
+            return (data as any).map((elem: any) => { return cloneFormData(elem); });
+        }
+        if (typeof data !== "object" || Object.getPrototypeOf(data) !== Object.prototype) { 
+            return data; 
+        }
+
+        let out: any = {};
+        map(data, (value: any, key: string) => {
+            out[key] = cloneFormData(value);
+        });
+        return out;
+    }
+
     /**
      * Creates a select element with associated options
      * @param id - ID to use for the select element
@@ -164,4 +194,87 @@ namespace KIP.Forms {
         // return the element
         return elem;
     }
-}
\ No newline at end of file
+
+    /** tags that are kept when cleaning up rich text */
+    const RICH_TEXT_TAGS: string[] = ["B", "STRONG", "I", "EM", "U", "UL", "OL", "LI", "A", "H1", "H2", "H3", "P", "DIV", "BR"];
+
+    /** tags that are dropped entirely (including their contents) when cleaning up rich text */
+    const RICH_TEXT_DROPPED_TAGS: string[] = ["SCRIPT", "STYLE", "IFRAME", "OBJECT", "EMBED", "HEAD", "META", "LINK", "TITLE", "TEMPLATE"];
+
+    /** the protocols links in rich text are allowed to use */
+    const SAFE_LINK_PROTOCOLS: string[] = ["http:", "https:", "mailto:"];
+
+    /**
+     * Cleans up HTML so that only basic formatting remains: no styles, classes, 
+     * scripts, or event handlers
+     * @param html - The HTML to clean
+     * @returns The cleaned HTML
+     */
+    export function sanitizeRichText(html: string): string {
+        if (!html) { return ""; }
+
+        // parse into a separate document so nothing loads or runs while we look at it
+        let doc: Document = document.implementation.createHTMLDocument("");
+        let source: HTMLElement = doc.createElement("div");
+        source.innerHTML = html;
+
+        let out: HTMLElement = doc.createElement("div");
+        _copySanitizedChildren(source, out, doc);
+        return out.innerHTML;
+    }
+
+    /**
+     * Copy over the allowed pieces of each child node into a clean parent
+     */
+    function _copySanitizedChildren(source: Node, target: Node, doc: Document): void {
+        for (let i = 0; i < source.childNodes.length; i += 1) {
+            let child: Node = source.childNodes[i];
+
+            if (child.nodeType === Node.TEXT_NODE) {
+                target.appendChild(doc.createTextNode(child.textContent));
+                continue;
+            }
+            if (child.nodeType !== Node.ELEMENT_NODE) { continue; }
+
+            let tag: string = (child as Element).tagName.toUpperCase();
+            if (RICH_TEXT_DROPPED_TAGS.indexOf(tag) !== -1) { continue; }
+
+            // unknown tags are unwrapped, keeping their contents
+            if (RICH_TEXT_TAGS.indexOf(tag) === -1) {
+                _copySanitizedChildren(child, target, doc);
+                continue;
+            }
+
+            let clean: HTMLElement = doc.createElement(tag);
+            if (tag === "A") {
+                let href: string = _getSafeLink((child as Element).getAttribute("href"));
+                if (href) { clean.setAttribute("href", href); }
+            }
+            target.appendChild(clean);
+            _copySanitizedChildren(child, clean, doc);
+        }
+    }
+
+    /**
+     * Clean up a link in rich text, returning null if it isn't safe to keep
+     */
+    function _getSafeLink(href: string): string {
+        if (!href) { return null; }
+
+        // browsers ignore tabs, newlines & other control characters in URLs,
+        // so they can't be allowed to hide the scheme (e.g. "java\tscript:")
+        href = trim(href.replace(/[\u0000-\u001F\u007F]/g, ""));
+        if (!href) { return null; }
+
+        // check the protocol the browser would actually use, so relative links
+        // resolve against the page & only the standard protocols are kept
+        let protocol: string;
+        try {
+            protocol = new URL(href, window.location.href).protocol.toLowerCase();
+        } catch (err) {
+            return null;
+        }
+        if (SAFE_LINK_PROTOCOLS.indexOf(protocol) === -1) { return null; }
+        return href;
+    }
+}
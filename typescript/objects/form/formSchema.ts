@@ -0,0 +1,507 @@
+///<reference path="form.ts" />
+///<reference path="simpleFormElems.ts" />
+///<reference path="complexFormElems.ts" />
+
+namespace KIP.Forms {
+
+    //#region INTERFACES
+
+    /** the types of data a schema can describe */
+    export type FormSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array";
+
+    /**...........................................................................
+     * IFormSchema
+     * ...........................................................................
+     * JSON-Schema-like description of the data a form collects
+     * ...........................................................................
+     */
+    export interface IFormSchema {
+
+        /** the type of data being described */
+        type: FormSchemaType;
+
+        /** display name for the field */
+        title?: string;
+
+        /** more detailed description of the field */
+        description?: string;
+
+        /** value the field should start with */
+        default?: any;
+
+        /** further detail on string types (date, time, date-time, color) */
+        format?: string;
+
+        /** the allowed values for the field */
+        enum?: (string | number)[];
+
+        /** display names for each of the allowed values */
+        enumNames?: string[];
+
+        /** the fields of an object */
+        properties?: { [key: string]: IFormSchema };
+
+        /** which fields of an object must be filled in */
+        required?: string[];
+
+        /** the type of each element of an array */
+        items?: IFormSchema;
+
+        /** numeric constraints */
+        minimum?: number;
+        maximum?: number;
+
+        /** string constraints */
+        minLength?: number;
+        maxLength?: number;
+        pattern?: string;
+    }
+
+    /**...........................................................................
+     * IFormSchemaTemplate
+     * ...........................................................................
+     * Template created from a schema, which remembers the schema it came from
+     * ...........................................................................
+     */
+    export interface IFormSchemaTemplate<T> extends IFormElemTemplate<T> {
+        schema?: IFormSchema;
+    }
+
+    //#endregion
+
+    //#region SCHEMA ELEMENTS
+
+    /**...........................................................................
+     * @class SchemaEnumElement
+     * ...........................................................................
+     * Dropdown for a schema's enumerated values. Unlike a SelectElement, the
+     * data is the enum value itself (string or number), so saved data conforms
+     * to the schema; the options are only keyed by index within the DOM.
+     * @version 1.0
+     * ...........................................................................
+     */
+    export class SchemaEnumElement extends FormElement<string | number> {
+        protected get _type(): FormElementTypeEnum { return FormElementTypeEnum.SELECT; }
+        protected get _defaultValue(): string | number { return null; }
+        protected get _defaultCls(): string { return "select"; }
+
+        /** the allowed values, in the order they are displayed */
+        protected _values: (string | number)[];
+
+        protected _elems: {
+            core: HTMLElement;
+            input: HTMLSelectElement;
+            lbl: HTMLElement;
+        }
+
+        /** create the dropdown */
+        constructor(id: string, template: IFormSchemaTemplate<string | number> | SchemaEnumElement) {
+            super(id, template);
+        }
+
+        protected _parseElemTemplate(template: IFormSchemaTemplate<string | number>): void {
+            super._parseElemTemplate(template);
+            this._values = (template.schema && template.schema.enum) || [];
+        }
+
+        protected _onCreateElements(): void {
+            this._elems.input = createSelectElement(this._id, "input", _createSchemaSelectOptions((this._template as IFormSchemaTemplate<string | number>).schema));
+            this._createStandardLabel();
+            this._handleStandardLayout();
+            this._updateSelection();
+        }
+
+        protected _onChange(): boolean {
+            let value: string | number = this._values[+this._elems.input.value];
+            return this._standardValidation(value);
+        }
+
+        /** select the option matching the new data */
+        public update(data: string | number): void {
+            super.update(data);
+            this._updateSelection();
+        }
+
+        /** the default handling writes the raw value to the input, so reselect by index */
+        protected _onValidateError(err?: IErrorString): void {
+            super._onValidateError(err);
+            this._updateSelection();
+        }
+
+        /** show the option for our current data, or nothing if it isn't one of the values */
+        protected _updateSelection(): void {
+            if (!this._elems.input) { return; }
+            let idx: number = this._values.indexOf(this._data);
+            this._elems.input.value = (idx === -1) ? "" : idx.toString();
+            if (idx === -1) { this._elems.input.selectedIndex = -1; }
+        }
+
+        protected _createClonedElement(appendToID: string): SchemaEnumElement {
+            return new SchemaEnumElement(this._id + appendToID, this);
+        }
+    }
+
+    //#endregion
+
+    //#region SCHEMA TO FORM
+
+    /**...........................................................................
+     * createFormFromSchema
+     * ...........................................................................
+     * Build a fully wired form from a description of its data
+     *
+     * @param   id          Unique ID for the form
+     * @param   schema      The object schema describing the form's data
+     * @param   options     Any additional options for the form
+     *
+     * @returns The created form
+     * ...........................................................................
+     */
+    export function createFormFromSchema<F>(id: string, schema: IFormSchema, options?: IFormOptions): Form<F> {
+        if (!schema || schema.type !== "object") {
+            throw new Error("form schemas must describe an object");
+        }
+
+        options = options || {};
+        if (isNullOrUndefined(options.label)) { options.label = schema.title; }
+
+        let elems: IFormElements<F> = createElementsFromSchema<F>(schema);
+        return new Form<F>(id, options, elems);
+    }
+
+    /**...........................................................................
+     * createElementsFromSchema
+     * ...........................................................................
+     * Build the keyed set of form elements for each property of an object schema
+     *
+     * @param   schema  The object schema to create elements for
+     *
+     * @returns The form elements for each property
+     * ...........................................................................
+     */
+    export function createElementsFromSchema<F>(schema: IFormSchema): IFormElements<F> {
+        let out: IFormElements<F> = {} as IFormElements<F>;
+        let required: string[] = schema.required || [];
+        let position: number = 0;
+
+        map(schema.properties, (propSchema: IFormSchema, key: string) => {
+            out[key] = createElementFromSchema(key, propSchema, contains(required, key), position);
+            position += 1;
+        });
+
+        return out;
+    }
+
+    /**...........................................................................
+     * createElementFromSchema
+     * ...........................................................................
+     * Build the appropriate form element for a particular schema
+     *
+     * @param   id          The ID to give the element
+     * @param   schema      The schema describing the element's data
+     * @param   required    True if the element must be filled in
+     * @param   position    Where the element sits within its parent
+     *
+     * @returns The created form element
+     * ...........................................................................
+     */
+    export function createElementFromSchema(id: string, schema: IFormSchema, required?: boolean, position?: number): FormElement<any> {
+        let template: IFormSchemaTemplate<any> = {
+            label: schema.title || id,
+            value: schema.default,
+            required: required,
+            position: position,
+            onValidate: _createSchemaValidator(schema),
+            schema: schema
+        };
+
+        // enumerated values of any type become a dropdown
+        if (schema.enum) {
+            return new SchemaEnumElement(id, template);
+        }
+
+        switch (schema.type) {
+            case "object":
+                return new SectionElement<any>(id, template, createElementsFromSchema(schema));
+
+            case "array":
+                let childTemplate: IFormElements<any> | FormElement<any>;
+                if (schema.items && schema.items.type === "object") {
+                    childTemplate = createElementsFromSchema(schema.items);
+                } else {
+                    childTemplate = createElementFromSchema(id + "|item", schema.items || { type: "string" });
+                }
+                return new ArrayElement<any>(id, template, childTemplate);
+
+            case "number":
+            case "integer":
+                return new NumberElement(id, template);
+
+            case "boolean":
+                return new CheckElement(id, template);
+
+            case "string":
+            default:
+                return _createStringElementFromSchema(id, schema, template);
+        }
+    }
+
+    /**...........................................................................
+     * _createStringElementFromSchema
+     * ...........................................................................
+     * Determine which element to use for string data, based on its format
+     * ...........................................................................
+     */
+    function _createStringElementFromSchema(id: string, schema: IFormSchema, template: IFormSchemaTemplate<any>): FormElement<any> {
+        switch (schema.format) {
+            case "date":
+                return new DateElement(id, template);
+            case "time":
+                return new TimeElement(id, template);
+            case "date-time":
+                return new DateTimeElement(id, template);
+            case "color":
+                return new ColorElement(id, template);
+            default:
+                return new TextElement(id, template);
+        }
+    }
+
+    /**...........................................................................
+     * _createSchemaSelectOptions
+     * ...........................................................................
+     * Turn the enumerated values of a schema into select options, keyed by
+     * their index in the enum
+     * ...........................................................................
+     */
+    function _createSchemaSelectOptions(schema: IFormSchema): ISelectOptions {
+        let out: ISelectOptions = {};
+        let names: string[] = schema.enumNames || [];
+
+        schema.enum.map((value: string | number, idx: number) => {
+            out[idx] = names[idx] || value.toString();
+        });
+
+        return out;
+    }
+
+    /**...........................................................................
+     * _createSchemaValidator
+     * ...........................................................................
+     * Create a validation function for the constraints within a schema
+     *
+     * @param   schema  The schema to validate against
+     *
+     * @returns The validation function, or undefined if there are no constraints
+     * ...........................................................................
+     */
+    function _createSchemaValidator(schema: IFormSchema): IValidateFunc<any> {
+        let hasNumericConstraints: boolean = !isNullOrUndefined(schema.minimum) || !isNullOrUndefined(schema.maximum) || (schema.type === "integer");
+        let hasStringConstraints: boolean = !isNullOrUndefined(schema.minLength) || !isNullOrUndefined(schema.maxLength) || !!schema.pattern;
+        if (!hasNumericConstraints && !hasStringConstraints) { return undefined; }
+
+        let pattern: RegExp = schema.pattern ? new RegExp(schema.pattern) : null;
+        let label: string = schema.title || "This field";
+
+        return (data: any, errorString: IErrorString): boolean => {
+            if (isNullOrUndefined(data)) { return true; }
+            errorString.title = label;
+
+            if (isNumber(data)) {
+                if (schema.type === "integer" && Math.floor(data) !== data) {
+                    errorString.details = "must be a whole number";
+                    return false;
+                }
+                if (!isNullOrUndefined(schema.minimum) && data < schema.minimum) {
+                    errorString.details = "must be at least " + schema.minimum;
+                    return false;
+                }
+                if (!isNullOrUndefined(schema.maximum) && data > schema.maximum) {
+                    errorString.details = "must be at most " + schema.maximum;
+                    return false;
+                }
+            }
+
+            if (isString(data)) {
+                if (!isNullOrUndefined(schema.minLength) && data.length < schema.minLength) {
+                    errorString.details = "must be at least " + schema.minLength + " characters";
+                    return false;
+                }
+                if (!isNullOrUndefined(schema.maxLength) && data.length > schema.maxLength) {
+                    errorString.details = "must be at most " + schema.maxLength + " characters";
+                    return false;
+                }
+                if (pattern && data && !pattern.test(data)) {
+                    errorString.details = "isn't in the expected format";
+                    return false;
+                }
+            }
+
+            return true;
+        };
+    }
+
+    //#endregion
+
+    //#region FORM TO SCHEMA
+
+    /**...........................................................................
+     * createSchemaFromForm
+     * ...........................................................................
+     * Describe the data collected by an existing form
+     *
+     * @param   form    The form to describe
+     *
+     * @returns The schema for the form's data
+     * ...........................................................................
+     */
+    export function createSchemaFromForm<F>(form: Form<F>): IFormSchema {
+        return createSchemaFromElement(form.coreElement);
+    }
+
+    /**...........................................................................
+     * createSchemaFromElement
+     * ...........................................................................
+     * Describe the data collected by a particular form element
+     *
+     * @param   elem    The element to describe
+     *
+     * @returns The schema for the element's data
+     * ...........................................................................
+     */
+    export function createSchemaFromElement(elem: FormElement<any>): IFormSchema {
+        let template: IFormSchemaTemplate<any> = elem.template || {};
+
+        // if this element came from a schema, start with its constraints
+        let out: IFormSchema = { type: "string" };
+        if (template.schema) {
+            out = _copySchemaConstraints(template.schema);
+        }
+
+        if (template.label && template.label !== elem.id) { out.title = template.label; }
+        if (!isNullOrUndefined(template.value)) { out.default = template.value; }
+
+        switch (elem.type) {
+            case FormElementTypeEnum.SECTION:
+            case FormElementTypeEnum.ARRAY_CHILD:
+                return _addSectionSchema(out, (elem as SectionElement<any>).children);
+
+            case FormElementTypeEnum.ARRAY:
+                out.type = "array";
+                out.items = _createChildrenSchema((elem as ArrayElement<any>).childTemplate);
+                break;
+
+            case FormElementTypeEnum.NUMBER:
+                if (out.type !== "integer") { out.type = "number"; }
+                break;
+
+            case FormElementTypeEnum.SELECT:
+                if (template.schema && template.schema.enum) {
+                    out.enum = template.schema.enum;
+                    if (template.schema.enumNames) { out.enumNames = template.schema.enumNames; }
+                } else {
+                    out.type = "number";
+                    _addSelectSchema(out, (template as IFormSelectTemplate).options);
+                }
+                break;
+
+            case FormElementTypeEnum.CHECKBOX:
+                out.type = "boolean";
+                break;
+
+            case FormElementTypeEnum.DATE:
+                out.format = "date";
+                break;
+
+            case FormElementTypeEnum.TIME:
+                out.format = "time";
+                break;
+
+            case FormElementTypeEnum.DATE_TIME:
+                out.format = "date-time";
+                break;
+
+            case FormElementTypeEnum.COLOR:
+                out.format = "color";
+                break;
+        }
+
+        return out;
+    }
+
+    /**...........................................................................
+     * _createChildrenSchema
+     * ...........................................................................
+     * Describe either a single child element or a keyed set of child elements
+     * ...........................................................................
+     */
+    function _createChildrenSchema(children: IFormElements<any> | FormElement<any>): IFormSchema {
+        if (isFormElement(children)) { return createSchemaFromElement(children); }
+        return _addSectionSchema({ type: "object" }, children);
+    }
+
+    /**...........................................................................
+     * _addSectionSchema
+     * ...........................................................................
+     * Fill in the properties and required fields for a section's children
+     * ...........................................................................
+     */
+    function _addSectionSchema(schema: IFormSchema, children: IFormElements<any> | FormElement<any>): IFormSchema {
+
+        // a section wrapping a single element is described by that element
+        if (isFormElement(children)) {
+            let childSchema: IFormSchema = createSchemaFromElement(children);
+            if (schema.title) { childSchema.title = schema.title; }
+            return childSchema;
+        }
+
+        schema.type = "object";
+        schema.properties = {};
+        let required: string[] = [];
+
+        map(children, (child: FormElement<any>, key: string) => {
+            schema.properties[key] = createSchemaFromElement(child);
+            if (child.template && child.template.required) { required.push(key); }
+        });
+
+        if (required.length > 0) { schema.required = required; }
+        return schema;
+    }
+
+    /**...........................................................................
+     * _addSelectSchema
+     * ...........................................................................
+     * Describe the options of a select element as an enum
+     * ...........................................................................
+     */
+    function _addSelectSchema(schema: IFormSchema, options: ISelectOptions): void {
+        if (!options) { return; }
+        schema.enum = [];
+        schema.enumNames = [];
+
+        map(options, (lbl: string, value: string) => {
+            schema.enum.push(+value);
+            schema.enumNames.push(lbl);
+        });
+    }
+
+    /**...........................................................................
+     * _copySchemaConstraints
+     * ...........................................................................
+     * Copy the non-structural pieces of a schema
+     * ...........................................................................
+     */
+    function _copySchemaConstraints(schema: IFormSchema): IFormSchema {
+        let out: IFormSchema = { type: schema.type };
+        let keys: string[] = ["description", "format", "minimum", "maximum", "minLength", "maxLength", "pattern"];
+
+        for (let key of keys) {
+            if (isNullOrUndefined(schema[key])) { continue; }
+            out[key] = schema[key];
+        }
+
+        return out;
+    }
+
+    //#endregion
+}
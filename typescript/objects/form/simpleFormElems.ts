@@ -188,6 +188,198 @@ namespace KIP.Forms {
         }
     }
 
+    /**...........................................................................
+     * @class RichTextElement
+     * ...........................................................................
+     * create a rich text editor for a form, whose data is sanitized HTML
+     * @version 1.0
+     * ...........................................................................
+     */
+    export class RichTextElement extends FormElement<string> {
+        protected get _type(): FormElementTypeEnum { return FormElementTypeEnum.RICH_TEXT; }
+        protected get _defaultValue(): string { return ""; }
+        protected get _defaultCls(): string { return "richText"; }
+
+        /** the formatting options available in the toolbar */
+        protected static _commands: IRichTextCommand[] = [
+            { display: "B", title: "Bold", command: "bold" },
+            { display: "I", title: "Italic", command: "italic" },
+            { display: "H1", title: "Heading", command: "formatBlock", value: "h1" },
+            { display: "H2", title: "Subheading", command: "formatBlock", value: "h2" },
+            { display: "\u2022", title: "Bulleted list", command: "insertUnorderedList" },
+            { display: "1.", title: "Numbered list", command: "insertOrderedList" },
+            { display: "\uD83D\uDD17", title: "Link", command: "createLink" }
+        ];
+
+        protected _elems: {
+            core: HTMLElement;
+            error?: HTMLElement;
+            lbl?: HTMLElement;
+            toolbar?: HTMLElement;
+            editor?: HTMLElement;
+        }
+
+        protected static _uncoloredStyles: Styles.IStandardStyles = {
+            ".kipFormElem.richText .toolbar": {
+                display: "flex",
+                border: "1px solid #CCC",
+                borderBottom: "none",
+                backgroundColor: "#F5F5F5"
+            },
+
+            ".kipFormElem.richText .toolbarBtn": {
+                padding: "2px 8px",
+                cursor: "pointer",
+                fontSize: "0.8em",
+                color: "#555",
+                userSelect: "none",
+
+                nested: {
+                    "&:hover": {
+                        color: "<0>",
+                        backgroundColor: "#EEE"
+                    }
+                }
+            },
+
+            ".kipFormElem.richText .editor": {
+                border: "1px solid #CCC",
+                minHeight: "100px",
+                padding: "4px",
+                fontSize: "0.8em",
+                overflowY: "auto",
+                backgroundColor: "#FFF",
+
+                nested: {
+                    "&:focus": {
+                        outline: "none",
+                        borderColor: "<0>"
+                    }
+                }
+            }
+        };
+
+        protected _getUncoloredStyles(): Styles.IStandardStyles {
+            return this._mergeThemes(RichTextElement._uncoloredStyles, FormElement._uncoloredStyles);
+        }
+
+        /** create the toolbar & editable area */
+        protected _onCreateElements(): void {
+            this._elems.lbl = createLabelForInput(this._label, this._id, "lbl", this._elems.core);
+            this._elems.toolbar = createSimpleElement("", "toolbar", "", null, null, this._elems.core);
+
+            for (let cmd of RichTextElement._commands) {
+                this._createToolbarButton(cmd);
+            }
+
+            this._elems.editor = createElement({
+                id: this._id,
+                cls: "editor",
+                attr: { contenteditable: "true" },
+                parent: this._elems.core,
+                eventListeners: {
+                    input: () => { this._changeEventFired(); },
+                    blur: () => { this._changeEventFired(); }
+                }
+            });
+            this._elems.editor.addEventListener("paste", (e: ClipboardEvent) => { this._onPaste(e); });
+            this._elems.editor.innerHTML = sanitizeRichText(this._data);
+        }
+
+        /** create a button that applies a particular format */
+        protected _createToolbarButton(cmd: IRichTextCommand): void {
+            createElement({
+                cls: "toolbarBtn",
+                content: cmd.display,
+                attr: { title: cmd.title },
+                parent: this._elems.toolbar,
+                eventListeners: {
+
+                    // keep the selection in the editor when the button is pressed
+                    mousedown: (e: MouseEvent) => { e.preventDefault(); },
+                    click: () => { this._applyCommand(cmd); }
+                }
+            });
+        }
+
+        /** apply a formatting command to the current selection */
+        protected _applyCommand(cmd: IRichTextCommand): void {
+            if (this._isDisabled) { return; }
+            let value: string = cmd.value;
+
+            if (cmd.command === "createLink") {
+                value = window.prompt("Link address:", "https://");
+                if (!value) { return; }
+            }
+
+            this._elems.editor.focus();
+            document.execCommand(cmd.command, false, value);
+            this._changeEventFired();
+        }
+
+        /** only allow clean HTML to be pasted in */
+        protected _onPaste(e: ClipboardEvent): void {
+            if (!e.clipboardData) { return; }
+            e.preventDefault();
+
+            let html: string = e.clipboardData.getData("text/html");
+            if (html) {
+                document.execCommand("insertHTML", false, sanitizeRichText(html));
+            } else {
+                document.execCommand("insertText", false, e.clipboardData.getData("text/plain"));
+            }
+            this._changeEventFired();
+        }
+
+        protected _onChange(): boolean {
+            let value: string = sanitizeRichText(this._elems.editor.innerHTML);
+
+            // an editor with nothing but markup left in it is blank
+            if (!trim(this._elems.editor.textContent)) { value = ""; }
+            return this._standardValidation(value);
+        }
+
+        /** apply the validation type to the editor, since it isn't a standard input */
+        protected _onValidateError(err?: IErrorString): void {
+            this._showErrorMessage(err);
+
+            switch (this._validationType) {
+                case ValidationType.KEEP_ERROR_VALUE:
+                    break;
+                case ValidationType.NO_BLUR_PROCESSED:
+                    window.setTimeout(() => { this._elems.editor.focus(); }, 10);
+                    break;
+                case ValidationType.RESTORE_OLD_VALUE:
+                    this._elems.editor.innerHTML = sanitizeRichText(this._data);
+                    break;
+                case ValidationType.CLEAR_ERROR_VALUE:
+                default:
+                    this._elems.editor.innerHTML = this._defaultValue;
+                    break;
+            }
+        }
+
+        protected _setDisabled(disabled: boolean): void {
+            super._setDisabled(disabled);
+            this._elems.editor.setAttribute("contenteditable", disabled ? "false" : "true");
+        }
+
+        protected _createClonedElement(appendToID: string): RichTextElement {
+            return new RichTextElement(this._id + appendToID, this);
+        }
+
+        public update(data: string): void {
+            this._cancelAsyncValidation();
+            this._data = sanitizeRichText(data);
+            this._elems.editor.innerHTML = this._data;
+        }
+
+        protected _onClear(): void {
+            this._data = this._defaultValue;
+            this._elems.editor.innerHTML = this._defaultValue;
+        }
+    }
+
     /**...........................................................................
      * @class DateElement
      * ...........................................................................
@@ -0,0 +1,254 @@
+///<reference path="formElement.ts" />
+///<reference path="../select/queryDynamicSelect.ts" />
+
+namespace KIP.Forms {
+
+    /**...........................................................................
+     * @class TypeaheadElement
+     * ...........................................................................
+     * create a searchable select for a form, whose data is the ID of the selected
+     * option (or the IDs of all selected options, if multiple can be selected)
+     * @version 1.0
+     * ...........................................................................
+     */
+    export class TypeaheadElement extends FormElement<string | string[]> {
+        protected get _type(): FormElementTypeEnum { return FormElementTypeEnum.TYPEAHEAD; }
+        protected get _defaultValue(): string | string[] { return this._multiple ? [] : null; }
+        protected get _defaultCls(): string { return "typeahead"; }
+
+        /** the options that are always available */
+        protected _options: IDynamicOption[];
+
+        /** where to find additional options as the user types */
+        protected _dataSource: IDynamicSelectDataSource;
+
+        /** whether more than one option can be selected */
+        protected _multiple: boolean;
+
+        /** the select field the user interacts with */
+        protected _select: QueryDynamicSelect;
+
+        /** the IDs currently selected in the UI */
+        protected _selectedIds: string[];
+
+        /** display strings for any option we have seen, by ID */
+        protected _knownOptions: IDictionary;
+
+        protected _elems: {
+            core: HTMLElement;
+            error?: HTMLElement;
+            lbl?: HTMLElement;
+            chips?: HTMLElement;
+        }
+
+        protected static _uncoloredStyles: Styles.IStandardStyles = {
+            ".kipFormElem.typeahead .dynamicSelect input": {
+                fontSize: "1em"
+            },
+
+            ".kipFormElem.typeahead .chips": {
+                display: "flex",
+                flexWrap: "wrap"
+            },
+
+            ".kipFormElem.typeahead .chip": {
+                display: "flex",
+                alignItems: "center",
+                borderRadius: "12px",
+                border: "1px solid <0>",
+                padding: "1px 8px",
+                margin: "2px",
+                fontSize: "0.8em",
+
+                nested: {
+                    ".removeChip": {
+                        marginLeft: "6px",
+                        cursor: "pointer",
+                        color: "#555",
+
+                        nested: {
+                            "&:hover": {
+                                color: "<0>"
+                            }
+                        }
+                    }
+                }
+            }
+        };
+
+        protected _getUncoloredStyles(): Styles.IStandardStyles {
+            return this._mergeThemes(TypeaheadElement._uncoloredStyles, FormElement._uncoloredStyles);
+        }
+
+        /** create the typeahead element */
+        constructor(id: string, template: IFormTypeaheadTemplate | TypeaheadElement) {
+            super(id, template);
+        }
+
+        protected _parseElemTemplate(template: IFormTypeaheadTemplate): void {
+
+            // needs to be known before the default value is calculated
+            this._multiple = !!(template && template.multiple);
+
+            super._parseElemTemplate(template);
+            this._options = template.options || [];
+            this._dataSource = template.dataSource;
+            if (!this._dataSource && template.onQuery) { this._dataSource = new FunctionDataSource(template.onQuery); }
+        }
+
+        /**...........................................................................
+         * _onCreateElements
+         * ...........................................................................
+         * create the label, the selected chips, and the select field
+         * ...........................................................................
+         */
+        protected _onCreateElements(): void {
+            this._knownOptions = {};
+            for (let opt of this._options) { this._knownOptions[opt.id] = opt.display; }
+
+            this._createStandardLabel(this._elems.core);
+            this._elems.chips = createSimpleElement("", "chips", "", null, null, this._elems.core);
+
+            this._select = new QueryDynamicSelect(this._dataSource);
+            this._select.label = this._label;
+            this._select.addOptions(this._options);
+            this._select.addEventListener("select", (opt: DynamicOption) => { this._onSelect(opt); });
+            this._select.addEventListener("search", () => { this._onSearch(); });
+            this._select.draw(this._elems.core);
+
+            this._showSelection(this._toIds(this._data));
+        }
+
+        /**...........................................................................
+         * _onSelect
+         * ...........................................................................
+         * Handle the user picking an option
+         * ...........................................................................
+         */
+        protected _onSelect(opt: DynamicOption): void {
+            if (this._isDisabled) { return; }
+            this._knownOptions[opt.id] = opt.display;
+
+            if (!this._multiple) {
+                this._selectedIds = [opt.id];
+            } else if (this._selectedIds.indexOf(opt.id) === -1) {
+                this._selectedIds = this._selectedIds.concat([opt.id]);
+            }
+
+            this._showSelection(this._selectedIds);
+            this._changeEventFired();
+        }
+
+        /**...........................................................................
+         * _onSearch
+         * ...........................................................................
+         * Free text that doesn't match an option can't be saved, so put the field
+         * back to what is actually selected
+         * ...........................................................................
+         */
+        protected _onSearch(): void {
+            this._showSelection(this._selectedIds);
+        }
+
+        /**...........................................................................
+         * _removeSelection
+         * ...........................................................................
+         * Deselect a particular option
+         * ...........................................................................
+         */
+        protected _removeSelection(id: string): void {
+            if (this._isDisabled) { return; }
+            this._selectedIds = this._selectedIds.filter((selId: string) => { return selId !== id; });
+            this._showSelection(this._selectedIds);
+            this._changeEventFired();
+        }
+
+        /**...........................................................................
+         * _showSelection
+         * ...........................................................................
+         * Update the chips (or the search text) to reflect the selected options
+         * ...........................................................................
+         */
+        protected _showSelection(ids: string[]): void {
+            this._selectedIds = ids;
+
+            if (!this._multiple) {
+                this._select.value = ids.length ? this._getDisplay(ids[0]) : "";
+                return;
+            }
+
+            this._select.value = "";
+            this._elems.chips.innerHTML = "";
+            for (let id of ids) {
+                let chip: HTMLElement = createSimpleElement("", "chip", this._getDisplay(id), null, null, this._elems.chips);
+                createElement({
+                    cls: "removeChip",
+                    content: "x",
+                    parent: chip,
+                    eventListeners: {
+                        click: () => { this._removeSelection(id); }
+                    }
+                });
+            }
+        }
+
+        /** find what to show for a particular option */
+        protected _getDisplay(id: string): string {
+            let display: string = this._knownOptions[id];
+            return isNullOrUndefined(display) ? id : display;
+        }
+
+        /** turn data for this element into a list of IDs */
+        protected _toIds(data: string | string[]): string[] {
+            if (isNullOrUndefined(data)) { return []; }
+            if (data instanceof Array) { return data.slice(); }
+            return [data as string];
+        }
+
+        protected _onChange(): boolean {
+            let value: string | string[];
+            if (this._multiple) {
+                value = this._selectedIds.slice();
+            } else {
+                value = this._selectedIds.length ? this._selectedIds[0] : null;
+            }
+            return this._standardValidation(value);
+        }
+
+        /** apply the validation type to the selection, since there is no standard input */
+        protected _onValidateError(err?: IErrorString): void {
+            this._showErrorMessage(err);
+
+            switch (this._validationType) {
+                case ValidationType.RESTORE_OLD_VALUE:
+                    this._showSelection(this._toIds(this._data));
+                    break;
+                case ValidationType.CLEAR_ERROR_VALUE:
+                    this._showSelection([]);
+                    break;
+            }
+        }
+
+        /** an empty list of selections counts as blank */
+        protected _hasBlankRequiredElems(): boolean {
+            if (!this._isRequired) { return false; }
+            return (this._toIds(this._data).length === 0);
+        }
+
+        protected _createClonedElement(appendToID: string): TypeaheadElement {
+            return new TypeaheadElement(this._id + appendToID, this);
+        }
+
+        public update(data: string | string[]): void {
+            this._cancelAsyncValidation();
+            if (isNullOrUndefined(data)) { data = this._defaultValue; }
+            this._data = data;
+            this._showSelection(this._toIds(data));
+        }
+
+        protected _onClear(): void {
+            this._data = this._defaultValue;
+            this._showSelection([]);
+        }
+    }
+}
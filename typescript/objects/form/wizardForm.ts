@@ -0,0 +1,607 @@
+///<reference path="form.ts" />
+
+namespace KIP.Forms {
+
+    /** options specific to a wizard form */
+    export interface IWizardFormOptions extends IFormOptions {
+
+        /** keys of the steps that the user is allowed to skip */
+        optionalSteps?: string[];
+
+        /** if true, doesn't show a summary of the data before the final save */
+        noReviewStep?: boolean;
+
+        /** label to use for the review step */
+        reviewLabel?: string;
+    }
+
+    /** keep track of a single page of the wizard */
+    export interface IWizardStep {
+        key: string;
+        label: string;
+        elem: FormElement<any>;
+        container: HTMLElement;
+        isOptional: boolean;
+        isSkipped: boolean;
+    }
+
+    export interface IWizardFormElems extends IFormElems {
+        progress?: HTMLElement;
+        progressLabel?: HTMLElement;
+        review?: HTMLElement;
+        backButton?: HTMLElement;
+        nextButton?: HTMLElement;
+        skipButton?: HTMLElement;
+    }
+
+    /**...........................................................................
+     * @class WizardForm
+     * ...........................................................................
+     * Form that shows each of its top-level sections as a separate step, with
+     * Back / Next navigation and an optional review of the data before saving
+     * @version 1.0
+     * ...........................................................................
+     */
+    export class WizardForm<F> extends Form<F> {
+
+        //#region PROPERTIES
+
+        /** styles for the wizard-specific pieces of the form */
+        protected static _uncoloredStyles: Styles.IStandardStyles = {
+            ".kipForm .wizardProgress": {
+                display: "flex",
+                alignItems: "center",
+                padding: "10px 5px 5px",
+                flexShrink: "0",
+                fontSize: "0.8em",
+
+                nested: {
+                    ".wizardStep": {
+                        flexGrow: "1",
+                        textAlign: "center",
+                        paddingBottom: "5px",
+                        borderBottom: "4px solid #DDD",
+                        color: "#999",
+                        transition: "all ease-in-out .1s"
+                    },
+
+                    ".wizardStep.complete": {
+                        borderBottomColor: "<1>",
+                        color: "#666"
+                    },
+
+                    ".wizardStep.skipped": {
+                        fontStyle: "italic"
+                    },
+
+                    ".wizardStep.current": {
+                        borderBottomColor: "<0>",
+                        color: "<0>",
+                        fontWeight: "bold"
+                    }
+                }
+            },
+
+            ".kipForm .wizardProgressLabel": {
+                fontSize: "0.7em",
+                color: "#666",
+                padding: "0 5px"
+            },
+
+            ".kipForm .wizardPage.hidden": {
+                display: "none"
+            },
+
+            ".kipForm .kipBtn.hidden": {
+                display: "none"
+            },
+
+            ".kipForm .kipBtn.back, .kipForm .kipBtn.skip": {
+                backgroundColor: "#999",
+                color: "#FFF"
+            },
+
+            ".kipForm .kipBtn.next": {
+                backgroundColor: "<0>",
+                color: "#FFF"
+            },
+
+            ".kipForm .wizardReview": {
+                nested: {
+                    ".reviewSection": {
+                        marginTop: "10px",
+                        fontFamily: "OpenSansBold,Segoe UI,Helvetica",
+                        color: "<0>"
+                    },
+
+                    ".reviewRow": {
+                        display: "flex",
+                        fontSize: "0.9em",
+                        padding: "2px 0 2px 25px"
+                    },
+
+                    ".reviewKey": {
+                        color: "#666",
+                        width: "30%",
+                        flexShrink: "0"
+                    },
+
+                    ".reviewSkipped": {
+                        fontStyle: "italic",
+                        color: "#999",
+                        paddingLeft: "25px",
+                        fontSize: "0.9em"
+                    }
+                }
+            }
+        };
+
+        /** merge the wizard styles with the standard form styles */
+        protected _getUncoloredStyles(): Styles.IStandardStyles {
+            return this._mergeThemes(WizardForm._uncoloredStyles, Form._uncoloredStyles);
+        }
+
+        /** elements of the wizard */
+        protected _elems: IWizardFormElems;
+
+        /** the steps of the wizard, in order */
+        protected _steps: IWizardStep[];
+
+        /** index of the step currently showing; equal to the step count on the review page */
+        protected _currentStep: number;
+        public get currentStep(): number { return this._currentStep; }
+
+        /** the number of pages in the wizard, including the review page */
+        public get pageCount(): number { return this._steps.length + (this._showReview ? 1 : 0); }
+
+        /** true if the wizard is currently showing its review page */
+        public get isReviewing(): boolean { return this._showReview && this._currentStep === this._steps.length; }
+
+        /** keep track of whether we show the review page */
+        protected _showReview: boolean;
+
+        /** label to show for the review page */
+        protected _reviewLabel: string;
+
+        //#endregion
+
+        //#region CONSTRUCTOR
+
+        /**...........................................................................
+         * Create the wizard form
+         *
+         * @param   id          Unique ID for the form
+         * @param   options     Specific way this form should be created
+         * @param   elems       Form elements; each top-level section becomes a step,
+         *                      and nothing else may sit at the top level
+         * ...........................................................................
+         */
+        constructor(id: string, options: IWizardFormOptions, elems?: IFormElements<F>) {
+            super(id, options, elems);
+            this._addClassName("WizardForm");
+
+            this._showReview = !options.noReviewStep;
+            this._reviewLabel = options.reviewLabel || "Review";
+
+            let optionalSteps: string[] = options.optionalSteps || [];
+            for (let step of this._steps) {
+                step.isOptional = contains(optionalSteps, step.key);
+            }
+
+            this._createProgress();
+            this._createReview();
+            this.goToStep(0);
+        }
+
+        //#endregion
+
+        //#region CREATE ELEMENTS
+
+        /**...........................................................................
+         * _createButtons
+         * ...........................................................................
+         * Add the navigation buttons to the standard form buttons
+         * ...........................................................................
+         */
+        protected _createButtons(): void {
+            super._createButtons();
+
+            this._elems.backButton = createSimpleElement("", "kipBtn back", "Back");
+            this._elems.backButton.addEventListener("click", () => { this.back(); });
+
+            this._elems.skipButton = createSimpleElement("", "kipBtn skip", "Skip");
+            this._elems.skipButton.addEventListener("click", () => { this.skip(); });
+
+            this._elems.nextButton = createSimpleElement("", "kipBtn next", "Next");
+            this._elems.nextButton.addEventListener("click", () => { this.next(); });
+
+            // navigation sits before the save button
+            this._elems.buttons.insertBefore(this._elems.backButton, this._elems.saveButton);
+            this._elems.buttons.insertBefore(this._elems.skipButton, this._elems.saveButton);
+            this._elems.buttons.insertBefore(this._elems.nextButton, this._elems.saveButton);
+        }
+
+        /**...........................................................................
+         * _createCoreElem
+         * ...........................................................................
+         * Create the core section, then split its top-level sections into steps
+         *
+         * @param   options     the options that are passed in for the general form
+         * @param   elems       Elements associated with this form
+         * ...........................................................................
+         */
+        protected _createCoreElem(options: IFormOptions, elems: IFormElements<F>): void {
+            super._createCoreElem(options, elems);
+            this._steps = [];
+
+            let children = this._coreFormElem.children;
+            if (!children || isFormElement(children)) { return; }
+
+            // every field needs to belong to a step, so only sections can sit at the top level
+            map(children, (child: FormElement<any>, key: string) => {
+                if (child.type === FormElementTypeEnum.SECTION) { return; }
+                throw new Error("wizard forms can only contain sections at the top level; move '" + key + "' into a section");
+            });
+
+            map(children, (child: FormElement<any>, key: string) => {
+
+                // move the section into its own page of the wizard
+                let container: HTMLElement = createSimpleElement("", "wizardPage hidden", "", null, null, this._elems.formContent);
+                child.render(container);
+
+                this._steps.push({
+                    key: key,
+                    label: (child.template && child.template.label) || key,
+                    elem: child,
+                    container: container,
+                    isOptional: false,
+                    isSkipped: false
+                });
+            });
+        }
+
+        /**...........................................................................
+         * _createProgress
+         * ...........................................................................
+         * Create the indicator showing where the user is in the wizard
+         * ...........................................................................
+         */
+        protected _createProgress(): void {
+            this._elems.progress = createSimpleElement("", "wizardProgress");
+            this._elems.progressLabel = createSimpleElement("", "wizardProgressLabel");
+
+            for (let step of this._steps) {
+                createSimpleElement("", "wizardStep", step.label, null, null, this._elems.progress);
+            }
+            if (this._showReview) {
+                createSimpleElement("", "wizardStep", this._reviewLabel, null, null, this._elems.progress);
+            }
+
+            this._elems.background.insertBefore(this._elems.progress, this._elems.formContent);
+            this._elems.background.insertBefore(this._elems.progressLabel, this._elems.formContent);
+        }
+
+        /**...........................................................................
+         * _createReview
+         * ...........................................................................
+         * Create the page that will summarize the form's data
+         * ...........................................................................
+         */
+        protected _createReview(): void {
+            if (!this._showReview) { return; }
+            this._elems.review = createSimpleElement("", "wizardPage wizardReview hidden", "", null, null, this._elems.formContent);
+        }
+
+        //#endregion
+
+        //#region NAVIGATION
+
+        /**...........................................................................
+         * next
+         * ...........................................................................
+         * Move to the next page, if the current step can be saved
+         *
+         * @returns True if the wizard moved forward
+         * ...........................................................................
+         */
+        public next(): boolean {
+            if (this._currentStep >= this.pageCount - 1) { return false; }
+
+            let step: IWizardStep = this._steps[this._currentStep];
+            if (step && !this._canLeaveStep(step)) { return false; }
+            if (step) { step.isSkipped = false; }
+
+            this.goToStep(this._currentStep + 1);
+            return true;
+        }
+
+        /**...........................................................................
+         * back
+         * ...........................................................................
+         * Move to the previous page
+         *
+         * @returns True if the wizard moved backward
+         * ...........................................................................
+         */
+        public back(): boolean {
+            if (this._currentStep <= 0) { return false; }
+            this.goToStep(this._currentStep - 1);
+            return true;
+        }
+
+        /**...........................................................................
+         * skip
+         * ...........................................................................
+         * Skip past the current step without validating it, if it is optional
+         *
+         * @returns True if the step was skipped
+         * ...........................................................................
+         */
+        public skip(): boolean {
+            let step: IWizardStep = this._steps[this._currentStep];
+            if (!step || !step.isOptional) { return false; }
+
+            step.isSkipped = true;
+            this.goToStep(this._currentStep + 1);
+            return true;
+        }
+
+        /**...........................................................................
+         * goToStep
+         * ...........................................................................
+         * Show a particular page of the wizard
+         *
+         * @param   idx     The index of the page to show
+         * ...........................................................................
+         */
+        public goToStep(idx: number): void {
+            if (idx < 0) { idx = 0; }
+            if (idx > this.pageCount - 1) { idx = this.pageCount - 1; }
+            this._currentStep = idx;
+
+            // only show the current page
+            this._steps.map((step: IWizardStep, stepIdx: number) => {
+                this._setHidden(step.container, stepIdx !== idx);
+            });
+
+            if (this._elems.review) {
+                this._setHidden(this._elems.review, !this.isReviewing);
+                if (this.isReviewing) { this._drawReview(); }
+            }
+
+            this._updateButtons();
+            this._updateProgress();
+        }
+
+        /**...........................................................................
+         * _canLeaveStep
+         * ...........................................................................
+         * Check whether the data for a particular step is ready to be saved
+         * ...........................................................................
+         */
+        protected _canLeaveStep(step: IWizardStep): boolean {
+            this._canSaveTracker = step.elem.canSave();
+            if (!this._canSaveTracker.hasErrors && !this._canSaveTracker.hasMissingRequired && !this._canSaveTracker.isValidating) {
+                return true;
+            }
+
+            this._showCannotSaveMessage();
+            return false;
+        }
+
+        /**...........................................................................
+         * _updateButtons
+         * ...........................................................................
+         * Show the navigation buttons that apply to the current page
+         * ...........................................................................
+         */
+        protected _updateButtons(): void {
+            let isLast: boolean = (this._currentStep === this.pageCount - 1);
+            let step: IWizardStep = this._steps[this._currentStep];
+
+            this._setHidden(this._elems.backButton, this._currentStep === 0);
+            this._setHidden(this._elems.nextButton, isLast);
+            this._setHidden(this._elems.skipButton, !step || !step.isOptional);
+            this._setHidden(this._elems.saveButton, !isLast);
+        }
+
+        /**...........................................................................
+         * _updateProgress
+         * ...........................................................................
+         * Update the progress indicator to reflect the current page
+         * ...........................................................................
+         */
+        protected _updateProgress(): void {
+            let stepElems: HTMLCollection = this._elems.progress.children;
+
+            for (let i = 0; i < stepElems.length; i += 1) {
+                let stepElem: HTMLElement = stepElems[i] as HTMLElement;
+                let step: IWizardStep = this._steps[i];
+
+                removeClass(stepElem, "current");
+                removeClass(stepElem, "complete");
+                removeClass(stepElem, "skipped");
+
+                if (i === this._currentStep) { addClass(stepElem, "current"); }
+                else if (i < this._currentStep) { addClass(stepElem, "complete"); }
+                if (step && step.isSkipped) { addClass(stepElem, "skipped"); }
+            }
+
+            this._elems.progressLabel.innerHTML = "Step " + (this._currentStep + 1) + " of " + this.pageCount;
+        }
+
+        /**...........................................................................
+         * _setHidden
+         * ...........................................................................
+         * Show or hide a piece of the wizard
+         * ...........................................................................
+         */
+        protected _setHidden(elem: HTMLElement, hidden: boolean): void {
+            if (hidden) {
+                addClass(elem, "hidden");
+            } else {
+                removeClass(elem, "hidden");
+            }
+        }
+
+        //#endregion
+
+        //#region REVIEW
+
+        /**...........................................................................
+         * _drawReview
+         * ...........................................................................
+         * Fill in the review page with a summary of the current data
+         * ...........................................................................
+         */
+        protected _drawReview(): void {
+            let review: HTMLElement = this._elems.review;
+            review.innerHTML = "";
+
+            let data: F = this.data;
+            for (let step of this._steps) {
+                createSimpleElement("", "reviewSection", step.label, null, null, review);
+
+                if (step.isSkipped) {
+                    createSimpleElement("", "reviewSkipped", "Skipped", null, null, review);
+                    continue;
+                }
+
+                this._drawReviewRows((data as any)[step.key], review);
+            }
+        }
+
+        /**...........................................................................
+         * _drawReviewRows
+         * ...........................................................................
+         * Add a row to the review for each field of the provided data
+         * ...........................................................................
+         */
+        protected _drawReviewRows(data: any, parent: HTMLElement): void {
+            map(data, (value: any, key: string) => {
+                let row: HTMLElement = createSimpleElement("", "reviewRow", "", null, null, parent);
+                createSimpleElement("", "reviewKey", key, null, null, row);
+                createSimpleElement("", "reviewValue", this._formatReviewValue(value), null, null, row);
+            });
+        }
+
+        /**...........................................................................
+         * _formatReviewValue
+         * ...........................................................................
+         * Turn a piece of form data into a readable string
+         * ...........................................................................
+         */
+        protected _formatReviewValue(value: any): string {
+            if (isNullOrUndefined(value) || value === "") { return "\u2014"; }
+            if (value instanceof Date) { return Dates.shortDate(value); }
+            if (isBoolean(value)) { return value ? "Yes" : "No"; }
+            if (value instanceof Array) {
+                return value.map((elem: any) => { return this._formatReviewValue(elem); }).join(", ");
+            }
+            if (typeof value === "object") {
+                let pieces: string[] = [];
+                map(value, (subValue: any, key: string) => {
+                    pieces.push(key + ": " + this._formatReviewValue(subValue));
+                });
+                return "(" + pieces.join("; ") + ")";
+            }
+            return value.toString();
+        }
+
+        //#endregion
+
+        //#region OVERRIDES
+
+        /**...........................................................................
+         * _canSave
+         * ...........................................................................
+         * Check that all steps that weren't skipped are able to save
+         * ...........................................................................
+         */
+        protected _canSave(): boolean {
+            if (!this._steps || this._steps.length === 0) { return super._canSave(); }
+
+            let tracker: ICanSaveTracker = { hasErrors: false, hasMissingRequired: false, isValidating: false };
+            map(this._coreFormElem.children, (child: FormElement<any>, key: string) => {
+                if (this._isSkipped(key)) { return; }
+
+                let childCanSave: ICanSaveTracker = child.canSave();
+                tracker.hasErrors = tracker.hasErrors || childCanSave.hasErrors;
+                tracker.hasMissingRequired = tracker.hasMissingRequired || childCanSave.hasMissingRequired;
+                tracker.isValidating = tracker.isValidating || childCanSave.isValidating;
+            });
+
+            this._canSaveTracker = tracker;
+            return !(tracker.hasErrors || tracker.hasMissingRequired || tracker.isValidating);
+        }
+
+        /**...........................................................................
+         * _getDataToSave
+         * ...........................................................................
+         * Leave the data of any skipped steps out of what gets saved
+         * ...........................................................................
+         */
+        protected _getDataToSave(): F {
+            let data: F = super._getDataToSave();
+            if (!this._steps || this._steps.length === 0) { return data; }
+
+            let out: F = {} as F;
+            map(data, (value: any, key: string) => {
+                if (this._isSkipped(key)) { return; }
+                (out as any)[key] = value;
+            });
+            return out;
+        }
+
+        /**...........................................................................
+         * _isSkipped
+         * ...........................................................................
+         * Determine whether the step with the specified key was skipped
+         * ...........................................................................
+         */
+        protected _isSkipped(key: string): boolean {
+            for (let step of this._steps) {
+                if (step.key === key) { return step.isSkipped; }
+            }
+            return false;
+        }
+
+        /**...........................................................................
+         * _cancel
+         * ...........................................................................
+         * Return to the first step when the form is cancelled
+         * ...........................................................................
+         */
+        protected _cancel(): void {
+            super._cancel();
+            this._resetSteps();
+        }
+
+        /**...........................................................................
+         * update
+         * ...........................................................................
+         * Return to the first step when new data is loaded into the form
+         *
+         * @param   data    The data to update the form with
+         * ...........................................................................
+         */
+        public update(data: F): void {
+            super.update(data);
+            this._resetSteps();
+        }
+
+        /**...........................................................................
+         * _resetSteps
+         * ...........................................................................
+         * Clear any skipped steps and go back to the start of the wizard
+         * ...........................................................................
+         */
+        protected _resetSteps(): void {
+            if (!this._steps) { return; }
+            for (let step of this._steps) { step.isSkipped = false; }
+            this.goToStep(0);
+        }
+
+        //#endregion
+    }
+}
@@ -0,0 +1,361 @@
+namespace KIP {
+
+	//#region INTERFACES
+
+	export interface OnPanGestureFunction {
+		(delta: IPoint): void;
+	}
+
+	export interface OnPinchGestureFunction {
+		(scale: number, center: IPoint): void;
+	}
+
+	export interface OnTapGestureFunction {
+		(point: IPoint, e: PointerEvent): void;
+	}
+
+	/**...........................................................................
+	 * IGestureOptions
+	 * ...........................................................................
+	 * Keep track of how touch gestures on an element should be handled. All
+	 * points are reported in page coordinates.
+	 * ...........................................................................
+	 */
+	export interface IGestureOptions {
+
+		/** what to do when a single finger is dragged */
+		onPan?: OnPanGestureFunction;
+
+		/** what to do when two fingers move apart or together */
+		onPinch?: OnPinchGestureFunction;
+
+		/** what to do when the element is tapped twice in quick succession */
+		onDoubleTap?: OnTapGestureFunction;
+
+		/** what to do when a finger is held down without moving */
+		onLongPress?: OnTapGestureFunction;
+
+		/** how long a finger needs to be held down to count as a long-press, in ms */
+		longPressDelay?: number;
+
+		/** how quickly a second tap needs to follow the first, in ms */
+		doubleTapDelay?: number;
+
+		/** how far a finger can wander before it no longer counts as a tap, in px */
+		tapTolerance?: number;
+	}
+
+	//#endregion
+
+	/**...........................................................................
+	 * @class GestureTracker
+	 * ...........................................................................
+	 * Translate touch & pen pointer events on an element into pan, pinch,
+	 * double-tap and long-press gestures. Mouse pointers are left alone, since
+	 * those are expected to be handled by standard mouse events.
+	 * @version 1.0
+	 * ...........................................................................
+	 */
+	export class GestureTracker {
+
+		//#region PROPERTIES
+
+		/** the element being tracked */
+		protected _elem: HTMLElement;
+
+		/** how gestures should be handled */
+		protected _options: IGestureOptions;
+
+		/** where each active pointer currently is */
+		protected _pointers: { [pointerId: number]: IPoint };
+
+		/** how many pointers are currently down */
+		protected _pointerCount: number;
+
+		/** where the current single-finger gesture started */
+		protected _startPoint: IPoint;
+
+		/** the center & spread of the last two-finger position */
+		protected _lastCenter: IPoint;
+		protected _lastDistance: number;
+
+		/** true if the current gesture can no longer be considered a tap */
+		protected _isGesture: boolean;
+
+		/** true if the click that follows the current gesture should be ignored */
+		protected _suppressClick: boolean;
+
+		/** timer for detecting a long-press */
+		protected _longPressTimeout: number;
+
+		/** the last tap, for detecting double-taps */
+		protected _lastTapPoint: IPoint;
+		protected _lastTapTime: number;
+
+		//#endregion
+
+		/**...........................................................................
+		 * Start tracking gestures on an element
+		 *
+		 * @param	elem		The element to track gestures on
+		 * @param	options		How the gestures should be handled
+		 * ...........................................................................
+		 */
+		constructor(elem: HTMLElement, options: IGestureOptions) {
+			this._elem = elem;
+			this._options = reconcileOptions(options, {
+				longPressDelay: 500,
+				doubleTapDelay: 300,
+				tapTolerance: 10
+			});
+
+			this._pointers = {};
+			this._pointerCount = 0;
+
+			this._addEventListeners();
+		}
+
+		//#region EVENT HANDLING
+
+		/**...........................................................................
+		 * _addEventListeners
+		 * ...........................................................................
+		 * Listen for pointer events on the element
+		 * ...........................................................................
+		 */
+		private _addEventListeners(): void {
+
+			// let us handle panning & zooming instead of the browser
+			this._elem.style.touchAction = "none";
+
+			this._elem.addEventListener("pointerdown", (e: PointerEvent) => { this._onPointerDown(e); });
+			this._elem.addEventListener("pointermove", (e: PointerEvent) => { this._onPointerMove(e); });
+			this._elem.addEventListener("pointerup", (e: PointerEvent) => { this._onPointerUp(e, true); });
+			this._elem.addEventListener("pointercancel", (e: PointerEvent) => { this._onPointerUp(e, false); });
+
+			// swallow the click & context menu the browser sends after a gesture
+			let suppress = (e: Event) => {
+				if (!this._suppressClick) { return; }
+				e.stopPropagation();
+				e.preventDefault();
+				this._suppressClick = false;
+			};
+			this._elem.addEventListener("click", suppress, true);
+			this._elem.addEventListener("contextmenu", suppress, true);
+		}
+
+		/**...........................................................................
+		 * _onPointerDown
+		 * ...........................................................................
+		 * Start tracking a new finger
+		 * ...........................................................................
+		 */
+		protected _onPointerDown(e: PointerEvent): void {
+			if (!GestureTracker._isTrackable(e)) { return; }
+
+			// keep the browser from also sending mouse events for this pointer
+			e.preventDefault();
+			if (this._elem.setPointerCapture) { this._elem.setPointerCapture(e.pointerId); }
+
+			let pt: IPoint = GestureTracker._getPoint(e);
+			this._pointers[e.pointerId] = pt;
+			this._pointerCount += 1;
+
+			// the first finger down starts a fresh gesture
+			if (this._pointerCount === 1) {
+				this._startPoint = pt;
+				this._isGesture = false;
+				this._suppressClick = false;
+				this._startLongPress(pt, e);
+				return;
+			}
+
+			// a second finger means this is a pinch, not a tap
+			this._cancelLongPress();
+			this._isGesture = true;
+			this._suppressClick = true;
+			this._updatePinchState();
+		}
+
+		/**...........................................................................
+		 * _onPointerMove
+		 * ...........................................................................
+		 * Pan or pinch, depending on how many fingers are down
+		 * ...........................................................................
+		 */
+		protected _onPointerMove(e: PointerEvent): void {
+			let lastPt: IPoint = this._pointers[e.pointerId];
+			if (!lastPt) { return; }
+
+			let pt: IPoint = GestureTracker._getPoint(e);
+			this._pointers[e.pointerId] = pt;
+
+			if (this._pointerCount === 1) {
+				this._onSinglePointerMove(lastPt, pt);
+			} else if (this._pointerCount === 2) {
+				this._onPinchMove();
+			}
+		}
+
+		/**...........................................................................
+		 * _onSinglePointerMove
+		 * ...........................................................................
+		 * Pan once a finger has moved far enough to not be a tap
+		 * ...........................................................................
+		 */
+		protected _onSinglePointerMove(lastPt: IPoint, pt: IPoint): void {
+			if (!this._isGesture) {
+				if (GestureTracker._distance(this._startPoint, pt) <= this._options.tapTolerance) { return; }
+
+				this._cancelLongPress();
+				this._isGesture = true;
+				this._suppressClick = true;
+
+				// include the movement that got us past the tolerance
+				lastPt = this._startPoint;
+			}
+
+			if (!this._options.onPan) { return; }
+			this._options.onPan({
+				x: pt.x - lastPt.x,
+				y: pt.y - lastPt.y
+			});
+		}
+
+		/**...........................................................................
+		 * _onPinchMove
+		 * ...........................................................................
+		 * Zoom by how much the fingers have spread, and pan by how much their
+		 * center has moved
+		 * ...........................................................................
+		 */
+		protected _onPinchMove(): void {
+			let lastCenter: IPoint = this._lastCenter;
+			let lastDistance: number = this._lastDistance;
+			this._updatePinchState();
+
+			if (this._options.onPinch && lastDistance && this._lastDistance) {
+				this._options.onPinch(this._lastDistance / lastDistance, this._lastCenter);
+			}
+
+			if (this._options.onPan) {
+				this._options.onPan({
+					x: this._lastCenter.x - lastCenter.x,
+					y: this._lastCenter.y - lastCenter.y
+				});
+			}
+		}
+
+		/**...........................................................................
+		 * _onPointerUp
+		 * ...........................................................................
+		 * Stop tracking a finger, checking whether it finished a tap
+		 *
+		 * @param	e			The event that ended the pointer
+		 * @param	completed	False if the browser cancelled the pointer
+		 * ...........................................................................
+		 */
+		protected _onPointerUp(e: PointerEvent, completed: boolean): void {
+			let pt: IPoint = this._pointers[e.pointerId];
+			if (!pt) { return; }
+
+			delete this._pointers[e.pointerId];
+			this._pointerCount -= 1;
+			this._cancelLongPress();
+
+			// whatever finger is left shouldn't restart the gesture
+			if (this._pointerCount > 0) { return; }
+
+			if (completed && !this._isGesture) { this._onTap(pt, e); }
+		}
+
+		/**...........................................................................
+		 * _onTap
+		 * ...........................................................................
+		 * Check whether a tap completes a double-tap. Single taps are left to
+		 * the click event the browser sends.
+		 * ...........................................................................
+		 */
+		protected _onTap(pt: IPoint, e: PointerEvent): void {
+			let now: number = Date.now();
+
+			let isDoubleTap: boolean = !!this._lastTapPoint &&
+				((now - this._lastTapTime) <= this._options.doubleTapDelay) &&
+				(GestureTracker._distance(this._lastTapPoint, pt) <= this._options.tapTolerance * 2);
+
+			if (!isDoubleTap) {
+				this._lastTapPoint = pt;
+				this._lastTapTime = now;
+				return;
+			}
+
+			this._lastTapPoint = null;
+			if (this._options.onDoubleTap) { this._options.onDoubleTap(pt, e); }
+		}
+
+		//#endregion
+
+		//#region LONG-PRESS
+
+		/** start waiting to see if a finger is held in place */
+		protected _startLongPress(pt: IPoint, e: PointerEvent): void {
+			this._cancelLongPress();
+			if (!this._options.onLongPress) { return; }
+
+			this._longPressTimeout = window.setTimeout(() => {
+				this._longPressTimeout = null;
+				this._isGesture = true;
+				this._suppressClick = true;
+				this._options.onLongPress(pt, e);
+			}, this._options.longPressDelay);
+		}
+
+		/** stop waiting for a long-press */
+		protected _cancelLongPress(): void {
+			if (!this._longPressTimeout) { return; }
+			window.clearTimeout(this._longPressTimeout);
+			this._longPressTimeout = null;
+		}
+
+		//#endregion
+
+		//#region HELPERS
+
+		/** recalculate the center & spread of the first two fingers */
+		protected _updatePinchState(): void {
+			let pts: IPoint[] = [];
+			for (let id in this._pointers) {
+				if (!this._pointers.hasOwnProperty(id)) { continue; }
+				pts.push(this._pointers[id]);
+				if (pts.length === 2) { break; }
+			}
+			if (pts.length < 2) { return; }
+
+			this._lastCenter = {
+				x: (pts[0].x + pts[1].x) / 2,
+				y: (pts[0].y + pts[1].y) / 2
+			};
+			this._lastDistance = GestureTracker._distance(pts[0], pts[1]);
+		}
+
+		/** mice are handled by standard mouse events */
+		private static _isTrackable(e: PointerEvent): boolean {
+			return (e.pointerType === "touch") || (e.pointerType === "pen");
+		}
+
+		/** find where a pointer event took place on the page */
+		private static _getPoint(e: PointerEvent): IPoint {
+			return {
+				x: e.pageX,
+				y: e.pageY
+			};
+		}
+
+		/** find how far apart two points are */
+		private static _distance(a: IPoint, b: IPoint): number {
+			return Math.sqrt(Math.pow(b.x - a.x, 2) + Math.pow(b.y - a.y, 2));
+		}
+
+		//#endregion
+	}
+}
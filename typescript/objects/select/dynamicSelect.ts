@@ -61,6 +61,26 @@ namespace KIP {
          /** keep track of the listeners for searching */
          protected _searchListeners: Function[];
 
+        /** the option that would be selected by pressing enter */
+        protected _hilitedOption: DynamicOption;
+
+        /** whether the drawer of options is showing */
+        protected _isExpanded: boolean;
+
+        /** unique ID of the list of options, so the search field can refer to it */
+        protected _listId: string;
+        public get listId(): string { return this._listId; }
+
+        /** the accessible name of the search field */
+        public set label(lbl: string) { this._elems.input.setAttribute("aria-label", lbl || ""); }
+
+        /** the text currently in the search field */
+        public get value(): string { return this._elems.input.value; }
+        public set value(text: string) {
+            this._elems.input.value = text || "";
+            this._updateFiltering(this._elems.input.value);
+        }
+
         /** keep track of the styles associated with this select field */
         protected static _uncoloredStyles: KIP.Styles.IStandardStyles = {
             "@keyframes rotate": {
@@ -157,13 +177,21 @@ namespace KIP {
         //#region CREATE ELEMENTS
         protected _createElements(): void {
             this._elems = {} as any;
+            this._listId = generateUniqueID("dynamicSelect");
 
             this._elems.base = createElement({
                 cls: "dynamicSelect"
             });
 
+            // the search field acts as a combobox that controls the list of options
             this._elems.input = createElement({
                 type: "input",
+                attr: {
+                    role: "combobox",
+                    "aria-autocomplete": "list",
+                    "aria-expanded": "false",
+                    "aria-controls": this._listId
+                },
                 parent: this._elems.base
             }) as HTMLInputElement;
             this._elems.input.addEventListener("input", (e: Event) => { this._onQueryTextChange(e); });
@@ -175,6 +203,7 @@ namespace KIP {
             this._elems.clearBtn = createElement({
                 cls: "clearBtn",
                 content: "x",
+                attr: { role: "button", "aria-label": "Clear" },
                 parent: this._elems.base,
                 eventListeners: {
                     click: () => { this._elems.input.value = ""; }
@@ -187,7 +216,9 @@ namespace KIP {
             });
 
             this._elems.innerOptions = createElement({
+                id: this._listId,
                 cls: "innerOptions",
+                attr: { role: "listbox" },
                 parent: this._elems.drawer
             });
 
@@ -205,6 +236,9 @@ namespace KIP {
          * ...........................................................................
          */
         protected _expandDrawer(): void {
+            if (this._isExpanded) { return; }
+            this._isExpanded = true;
+            this._elems.input.setAttribute("aria-expanded", "true");
             removeClass(this._elems.drawer, "collapsed");
             transition(this._elems.drawer, { height: "0", opacity: "0" }, { height: "<height>", opacity: "1" }, 300);
         }
@@ -216,6 +250,11 @@ namespace KIP {
          * ...........................................................................
          */
         protected _collapseDrawer(): void {
+            if (!this._isExpanded) { return; }
+            this._isExpanded = false;
+            this._elems.input.setAttribute("aria-expanded", "false");
+            this._hiliteOption(null);
+
             transition(this._elems.drawer, { height: "<height>", opacity: "1" }, { height: "0", opacity: "0" }, 300).then(() => {
               addClass(this._elems.drawer, "collapsed");  
             });
@@ -234,10 +273,8 @@ namespace KIP {
          * ...........................................................................
          */
         public addOption(opt: IDynamicOption): void {
-            let option: DynamicOption = new DynamicOption(opt, this);
-            if (this._availableOptions.addElement(option.id, option) === -1) { return; };
+            if (!this._addOption(opt)) { return; }
             this._updateFiltering(this._elems.input.value);
-            this._elems.innerOptions.appendChild(option.base);
         }
 
         /**...........................................................................
@@ -249,9 +286,30 @@ namespace KIP {
          */
         public addOptions(opts: IDynamicOption[]): void {
             let opt: IDynamicOption;
+            let added: boolean = false;
             for (opt of opts) {
-                this.addOption(opt);
+                if (this._addOption(opt)) { added = true; }
             }
+
+            // only re-rank once the whole set is in
+            if (added) { this._updateFiltering(this._elems.input.value); }
+        }
+
+        /**...........................................................................
+         * _addOption
+         * ...........................................................................
+         * Add an option without updating the filtering
+         * @param   opt     The option to add
+         * @returns True if the option was new
+         * ...........................................................................
+         */
+        protected _addOption(opt: IDynamicOption): boolean {
+            if (this._availableOptions.hasElement(opt.id)) { return false; }
+
+            let option: DynamicOption = new DynamicOption(opt, this);
+            if (this._availableOptions.addElement(option.id, option) === -1) { return false; }
+            this._elems.innerOptions.appendChild(option.base);
+            return true;
         }
         //#endregion
 
@@ -339,57 +397,121 @@ namespace KIP {
         }
 
         /**...........................................................................
-         * _onKeyUp
+         * _onKeyEvent
          * ...........................................................................
-         * Check if we need to handle an enter press in the text field
+         * Handle keyboard navigation of the options from the text field
          * 
          * @param   e   The keyboard event fired
          * ...........................................................................
          */
         protected _onKeyEvent(e: KeyboardEvent): void {
-            let foundNext: boolean = false;
-            let pair: ICollectionElement<DynamicOption>;
             switch (e.keyCode) {
 
                 // enter
                 case 13:
-                    pair = this._availableOptions.getCurrent();
-                    if (pair) {
-                        this.select(pair.value);
+                    if (this._hilitedOption) {
+                        this.select(this._hilitedOption);
                     } else {
                         this.search(this._elems.input.value);
                     }
                     break;
 
+                // escape: close the drawer, or clear the text if it's already closed
+                case 27:
+                    if (this._isExpanded) {
+                        this._collapseDrawer();
+                    } else {
+                        this.clear();
+                    }
+                    break;
+
+                // end
+                case 35:
+                    if (!this._isExpanded) { return; }
+                    this._hiliteOption(this._getVisibleOptions().pop());
+                    break;
+
+                // home
+                case 36:
+                    if (!this._isExpanded) { return; }
+                    this._hiliteOption(this._getVisibleOptions()[0]);
+                    break;
+
                 // up arrow
                 case 38:
-                    pair = this._availableOptions.getCurrent();
-                    
+                    this._moveHilite(-1);
+                    break;
 
-                    while (foundNext === false && this._availableOptions.hasNext(true)) {
-                        let opt: DynamicOption = this._availableOptions.getNext(true).value;
-                        foundNext = opt.hilite();
+                // down arrow; alt + down just opens the drawer
+                case 40:
+                    if (!this._isExpanded) {
+                        this._expandDrawer();
+                        if (e.altKey) { break; }
                     }
+                    this._moveHilite(1);
+                    break;
 
-                    if (foundNext) { if (pair) { pair.value.unhilite(); } }
+                default:
+                    return;
+            }
 
-                    break;
+            // don't let the text field move its cursor for keys we've handled
+            e.preventDefault();
+        }
 
-                // down arrow
-                case 40:
-                    pair = this._availableOptions.getCurrent();
+        /**...........................................................................
+         * _moveHilite
+         * ...........................................................................
+         * Move the hilite up or down through the visible options
+         * 
+         * @param   direction   1 to move down, -1 to move up
+         * ...........................................................................
+         */
+        protected _moveHilite(direction: number): void {
+            let options: DynamicOption[] = this._getVisibleOptions();
+            if (options.length === 0) { return; }
+
+            let idx: number = options.indexOf(this._hilitedOption);
+            if (idx === -1) {
+                idx = (direction > 0) ? 0 : options.length - 1;
+            } else {
+                idx = Math.max(0, Math.min(options.length - 1, idx + direction));
+            }
 
-                    while (foundNext === false && this._availableOptions.hasNext()) {
-                        
-                        let opt: DynamicOption = this._availableOptions.getNext().value;
-                        foundNext = opt.hilite();
-                    }
+            this._hiliteOption(options[idx]);
+        }
 
-                    if (foundNext) { if (pair) { pair.value.unhilite(); } }
-                    
-                    break;
+        /**...........................................................................
+         * _hiliteOption
+         * ...........................................................................
+         * Make a particular option the active one, so assistive tech can follow 
+         * along
+         * 
+         * @param   option  The option to hilite; null to clear the hilite
+         * ...........................................................................
+         */
+        protected _hiliteOption(option: DynamicOption): void {
+            if (this._hilitedOption) { this._hilitedOption.unhilite(); }
+
+            this._hilitedOption = (option && option.hilite()) ? option : null;
+
+            if (this._hilitedOption) {
+                this._elems.input.setAttribute("aria-activedescendant", this._hilitedOption.base.id);
+            } else {
+                this._elems.input.removeAttribute("aria-activedescendant");
             }
+        }
 
+        /**...........................................................................
+         * _getVisibleOptions
+         * ...........................................................................
+         * Get the options that aren't filtered, in the order they are displayed
+         * ...........................................................................
+         */
+        protected _getVisibleOptions(): DynamicOption[] {
+            return this._availableOptions.toValueArray().filter((opt: DynamicOption) => {
+                return !opt.isFiltered;
+            });
         }
 
         /**...........................................................................
@@ -412,7 +534,6 @@ namespace KIP {
          */
         protected _onFocus(event: Event): void {
             this._expandDrawer();
-            this._availableOptions.resetLoop();
         }
 
         /**...........................................................................
@@ -424,6 +545,7 @@ namespace KIP {
          */
         public select(selectedOption: DynamicOption): void {
             this._collapseDrawer();
+            this._hiliteOption(null);
             this._elems.input.value = selectedOption.display;
             this._elems.input.blur();
             this._notifySelectListeners(selectedOption);
@@ -459,6 +581,23 @@ namespace KIP {
             this._availableOptions.map((elem: DynamicOption) => {
                 elem.tryFilter(words);
             });
+
+            // show the best matches first, keeping the original order for ties
+            this._availableOptions.sort((a: ICollectionElement<DynamicOption>, b: ICollectionElement<DynamicOption>) => {
+                if (a.value.score !== b.value.score) { return b.value.score - a.value.score; }
+                return a.origIdx - b.origIdx;
+            });
+            this._availableOptions.map((elem: DynamicOption) => {
+                this._elems.innerOptions.appendChild(elem.base);
+            });
+
+            // type-ahead: keep the best match ready to be selected
+            if (!this._isExpanded) { return; }
+            if (!curText) {
+                this._hiliteOption(null);
+            } else if (!this._hilitedOption || this._hilitedOption.isFiltered) {
+                this._hiliteOption(this._getVisibleOptions()[0]);
+            }
         }
 
         //#endregion
@@ -489,10 +628,12 @@ namespace KIP {
 
             this._isQuerying = true;
             removeClass(this._elems.loadingIcon, "hidden");
+            this._elems.innerOptions.setAttribute("aria-busy", "true");
             this._onQuery(queryText).then(() => {
                 this._currentQuery = "";
                 this._isQuerying = false;
                 addClass(this._elems.loadingIcon, "hidden");
+                this._elems.innerOptions.setAttribute("aria-busy", "false");
 
                 // start the next query if appropriate
                 if (this._nextQuery) {
@@ -550,6 +691,10 @@ namespace KIP {
         protected _isFiltered: boolean;
         public get isFiltered(): boolean { return this._isFiltered; }
 
+        /** how well this option matches the current search; -1 if it doesn't */
+        protected _score: number;
+        public get score(): number { return this._score; }
+
         /** determine whether this option is selected */
         protected _isSelected: boolean;
         public get isSelected(): boolean { return this._isSelected; }
@@ -622,8 +767,9 @@ namespace KIP {
 
             // create the base element
             this._elems.base = createElement({
-                id: "opt|" + this._id,
+                id: this._selectParent.listId + "|opt|" + this._id,
                 cls: "dynamicOption filtered",
+                attr: { role: "option", "aria-selected": "false" },
                 eventListeners: {
                     click: () => { 
                         console.log("click processed");
@@ -664,7 +810,8 @@ namespace KIP {
         public hilite(): boolean {
             if (this._isFiltered) { return false; }
             addClass(this._elems.base, "hilite");
-            this._elems.base.scrollIntoView();
+            this._elems.base.setAttribute("aria-selected", "true");
+            this._elems.base.scrollIntoView({ block: "nearest" });
             return true;
         }
 
@@ -675,6 +822,7 @@ namespace KIP {
          */
         public unhilite(): boolean {
             removeClass(this._elems.base, "hilite");
+            this._elems.base.setAttribute("aria-selected", "false");
             return true;
         }
 
@@ -708,43 +856,39 @@ namespace KIP {
         /**...........................................................................
          * tryFilter
          * ...........................................................................
-         * Asynchronous call to ensure that options that don't match the current 
-         * select string are filtered out of the results
+         * Ensure that options that don't match the current select string are 
+         * filtered out of the results, and score the ones that do. The option is
+         * filtered (and its score updated) immediately.
          * 
-         * @param   words   The words required in a relevant string for the option 
-         *                  in order to not filter
+         * @param   words   The words that need to fuzzily match the display or ID 
+         *                  of the option in order to not filter
          * 
-         * @returns Promise that will run the 
+         * @returns Promise that resolves with the score for this option, or -1 
+         *          if it was filtered
          * ...........................................................................
          */
         public tryFilter(words: string[]): KipPromise {
-            return new KipPromise((resolve: Function) => {
-                window.setTimeout(() => {
-                    let word: string;
-                    let notFound: boolean = false;
-
-                    // loop through the words that were passed in and ensure all are there
-                    for (word of words) {
-                        if (this._display.indexOf(word) === -1) {
-                            if (this._id.indexOf(word) === -1) {
-                                notFound = true;
-                                break;
-                            }
-                        }
-                    }
-
-                    // if a word was missing, filter this element
-                    if (notFound) {
-                        this._filter();
-                    } else {
-                        this._unfilter();
-                    }
-
-                    // return that the promise completed
-                    resolve();
+            let word: string;
+            let score: number = 0;
+
+            // every word needs to match somewhere; better matches score higher
+            for (word of words) {
+                if (!word) { continue; }
+                let wordScore: number = Math.max(fuzzyScore(word, this._display), fuzzyScore(word, this._id));
+                if (wordScore < 0) {
+                    score = -1;
+                    break;
+                }
+                score += wordScore;
+            }
 
-                }, 0);
-            });
+            this._score = score;
+            if (score < 0) {
+                this._filter();
+            } else {
+                this._unfilter();
+            }
+            return KipPromise.resolve(score);
         }
 
         //#endregion
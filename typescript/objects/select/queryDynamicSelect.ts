@@ -0,0 +1,576 @@
+///<reference path="dynamicSelect.ts" />
+namespace KIP {
+
+    //#region INTERFACES
+
+    /**...........................................................................
+     * IDynamicSelectPage
+     * ...........................................................................
+     * A single page of results from a data source
+     * ...........................................................................
+     */
+    export interface IDynamicSelectPage {
+        options: IDynamicOption[];
+        hasMore?: boolean;
+    }
+
+    /**...........................................................................
+     * IDynamicSelectDataSource
+     * ...........................................................................
+     * Somewhere a query-driven select can look for options
+     * ...........................................................................
+     */
+    export interface IDynamicSelectDataSource {
+
+        /** find the options matching some text; pages start at 0 */
+        fetch(queryText: string, page: number): PromiseLike<IDynamicSelectPage>;
+
+        /** stop any request that is still outstanding */
+        cancel?(): void;
+    }
+
+    /**...........................................................................
+     * IDynamicSelectQueryFunc
+     * ...........................................................................
+     * Function that finds the options for a particular query, resolving with
+     * either the options or a page of results
+     * ...........................................................................
+     */
+    export interface IDynamicSelectQueryFunc {
+        (queryText: string, page: number): PromiseLike<IDynamicOption[] | IDynamicSelectPage>;
+    }
+
+    /**...........................................................................
+     * IUrlDataSourceOptions
+     * ...........................................................................
+     * Details of how to query a URL for options
+     * ...........................................................................
+     */
+    export interface IUrlDataSourceOptions {
+
+        /** whether to GET or POST the query; defaults to GET */
+        type?: AjaxTypeEnum;
+
+        /** the parameter that holds the query text; defaults to "q" */
+        queryParam?: string;
+
+        /** the parameter that holds the page number; defaults to "page" */
+        pageParam?: string;
+
+        /** turn the response into options; defaults to parsing it as JSON */
+        parse?: (response: string) => IDynamicOption[] | IDynamicSelectPage;
+    }
+
+    /**...........................................................................
+     * IQueryDynamicSelectOptions
+     * ...........................................................................
+     * Options for a query-driven select
+     * ...........................................................................
+     */
+    export interface IQueryDynamicSelectOptions {
+
+        /** how long to wait after the user stops typing before querying, in ms */
+        debounce?: number;
+
+        /** what to show on the button that loads the next page */
+        loadMoreLabel?: string;
+    }
+
+    /**...........................................................................
+     * IQueryDynamicSelectElems
+     * ...........................................................................
+     * Keep track of the elements used in the query-driven select
+     * ...........................................................................
+     */
+    export interface IQueryDynamicSelectElems extends IDynamicSelectElems {
+        loadMoreBtn: HTMLElement;
+    }
+
+    /** results we have already retrieved for a particular query */
+    interface IQueryCacheEntry {
+        options: IDynamicOption[];
+        page: number;
+        hasMore: boolean;
+    }
+
+    //#endregion
+
+    //#region DATA SOURCES
+
+    /**...........................................................................
+     * toDynamicSelectPage
+     * ...........................................................................
+     * Normalize whatever a data source returned into a page of results
+     *
+     * @param   result  The result of the query: either a list of options or a
+     *                  page of results
+     *
+     * @returns The page of results
+     * ...........................................................................
+     */
+    export function toDynamicSelectPage(result: IDynamicOption[] | IDynamicSelectPage): IDynamicSelectPage {
+        if (!result) { return { options: [], hasMore: false }; }
+        if (result instanceof Array) { return { options: result, hasMore: false }; }
+        return { options: result.options || [], hasMore: !!result.hasMore };
+    }
+
+    /**...........................................................................
+     * @class StaticDataSource
+     * ...........................................................................
+     * Pull options out of a fixed list
+     * @version 1.0
+     * ...........................................................................
+     */
+    export class StaticDataSource implements IDynamicSelectDataSource {
+
+        /** the full set of options */
+        protected _options: IDynamicOption[];
+
+        /** how many options to return at a time */
+        protected _pageSize: number;
+
+        /**...........................................................................
+         * Create a data source from a list of options
+         * @param   options     The options to search through
+         * @param   pageSize    How many matches to return at once
+         * ...........................................................................
+         */
+        constructor(options: IDynamicOption[], pageSize?: number) {
+            this._options = options || [];
+            this._pageSize = pageSize || 50;
+        }
+
+        /**...........................................................................
+         * fetch
+         * ...........................................................................
+         * Find the best matches for the query text
+         * ...........................................................................
+         */
+        public fetch(queryText: string, page: number): KipPromise {
+            let words: string[] = (queryText || "").split(" ");
+            let matches: { opt: IDynamicOption, score: number, idx: number }[] = [];
+
+            this._options.forEach((opt: IDynamicOption, idx: number) => {
+                let score: number = 0;
+                for (let word of words) {
+                    if (!word) { continue; }
+                    let wordScore: number = Math.max(fuzzyScore(word, opt.display), fuzzyScore(word, opt.id));
+                    if (wordScore < 0) { return; }
+                    score += wordScore;
+                }
+                matches.push({ opt: opt, score: score, idx: idx });
+            });
+
+            matches.sort((a, b) => { return (b.score - a.score) || (a.idx - b.idx); });
+
+            let start: number = page * this._pageSize;
+            let out: IDynamicSelectPage = {
+                options: matches.slice(start, start + this._pageSize).map((match) => { return match.opt; }),
+                hasMore: (matches.length > start + this._pageSize)
+            };
+            return KipPromise.resolve(out);
+        }
+    }
+
+    /**...........................................................................
+     * @class FunctionDataSource
+     * ...........................................................................
+     * Pull options from a function that returns a promise
+     * @version 1.0
+     * ...........................................................................
+     */
+    export class FunctionDataSource implements IDynamicSelectDataSource {
+
+        /** the function to run for each query */
+        protected _queryFunc: IDynamicSelectQueryFunc;
+
+        constructor(queryFunc: IDynamicSelectQueryFunc) {
+            this._queryFunc = queryFunc;
+        }
+
+        /**...........................................................................
+         * fetch
+         * ...........................................................................
+         * Run the query function for this text
+         * ...........................................................................
+         */
+        public fetch(queryText: string, page: number): KipPromise {
+            return KipPromise.resolve(this._queryFunc(queryText, page)).then(toDynamicSelectPage);
+        }
+    }
+
+    /**...........................................................................
+     * @class UrlDataSource
+     * ...........................................................................
+     * Pull options from a server
+     * @version 1.0
+     * ...........................................................................
+     */
+    export class UrlDataSource implements IDynamicSelectDataSource {
+
+        /** where to send queries */
+        protected _url: string;
+
+        /** how to send queries */
+        protected _options: IUrlDataSourceOptions;
+
+        /** the request that is currently outstanding */
+        protected _request: XMLHttpRequest;
+
+        /**...........................................................................
+         * Create a data source that queries a URL
+         * @param   url         Where to send queries
+         * @param   options     Details of how to send the query
+         * ...........................................................................
+         */
+        constructor(url: string, options?: IUrlDataSourceOptions) {
+            this._url = url;
+            this._options = reconcileOptions(options, {
+                type: AjaxTypeEnum.GET,
+                queryParam: "q",
+                pageParam: "page",
+                parse: (response: string) => { return JSON.parse(response); }
+            });
+        }
+
+        /**...........................................................................
+         * fetch
+         * ...........................................................................
+         * Send the query to the server
+         * ...........................................................................
+         */
+        public fetch(queryText: string, page: number): KipPromise {
+            let params: IAjaxParams = {};
+            params[this._options.queryParam] = queryText;
+            params[this._options.pageParam] = page.toString();
+
+            let url: string = this._url;
+            if (this._options.type === AjaxTypeEnum.GET) {
+                url += (url.indexOf("?") === -1 ? "?" : "&");
+                url += encodeURIComponent(this._options.queryParam) + "=" + encodeURIComponent(queryText);
+                url += "&" + encodeURIComponent(this._options.pageParam) + "=" + page;
+            }
+
+            return new KipPromise((resolve: Function, reject: Function) => {
+                let request: XMLHttpRequest = ajaxRequest(
+                    this._options.type,
+                    url,
+                    (response: string) => {
+                        if (this._request === request) { this._request = null; }
+                        try {
+                            resolve(toDynamicSelectPage(this._options.parse(response)));
+                        } catch (e) {
+                            reject(e);
+                        }
+                    },
+                    (response: string) => {
+                        if (this._request === request) { this._request = null; }
+                        reject(response);
+                    },
+                    params
+                );
+                this._request = request;
+            });
+        }
+
+        /**...........................................................................
+         * cancel
+         * ...........................................................................
+         * Abort the outstanding request, if there is one
+         * ...........................................................................
+         */
+        public cancel(): void {
+            if (!this._request) { return; }
+            let request: XMLHttpRequest = this._request;
+            this._request = null;
+            request.abort();
+        }
+    }
+
+    //#endregion
+
+    /**...........................................................................
+     * @class QueryDynamicSelect
+     * ...........................................................................
+     * Dynamic select that looks up its options in a data source as the user
+     * types. Queries are debounced, results are cached by query, outdated
+     * queries are dropped, and further pages can be loaded on request.
+     * @version 1.0
+     * ...........................................................................
+     */
+    export class QueryDynamicSelect extends DynamicSelect {
+
+        //#region PROPERTIES
+
+        /** where to look for options */
+        protected _dataSource: IDynamicSelectDataSource;
+
+        /** options for how to query */
+        protected _options: IQueryDynamicSelectOptions;
+
+        /** keep track of elements needed for the select element */
+        protected _elems: IQueryDynamicSelectElems;
+
+        /** results we already have, by query */
+        protected _cache: IDictionary;
+
+        /** the query whose results are currently showing */
+        protected _lastQuery: string;
+
+        /** the pending debounced query */
+        protected _queryTimeout: number;
+
+        /** incremented whenever a query starts or is cancelled, so outdated results can be ignored */
+        protected _queryCount: number;
+
+        /** styles for the load more button */
+        protected static _uncoloredStyles: KIP.Styles.IStandardStyles = {
+            ".dynamicSelect .drawer .loadMore": {
+                padding: "5px",
+                textAlign: "center",
+                cursor: "pointer",
+                fontSize: "0.8em",
+
+                nested: {
+                    "&:hover": {
+                        backgroundColor: "#eee"
+                    },
+
+                    "&.hidden": {
+                        display: "none"
+                    }
+                }
+            }
+        }
+
+        //#endregion
+
+        /**...........................................................................
+         * Create the query-driven select
+         *
+         * @param   dataSource  Where to look for options
+         * @param   options     How to query the data source
+         * ...........................................................................
+         */
+        constructor(dataSource?: IDynamicSelectDataSource, options?: IQueryDynamicSelectOptions) {
+            super();
+            this._dataSource = dataSource;
+            this._options = reconcileOptions(options, { debounce: 250, loadMoreLabel: "Load more..." });
+            this._cache = {};
+            this._queryCount = 0;
+            this._elems.loadMoreBtn.innerHTML = this._options.loadMoreLabel;
+        }
+
+        protected _getUncoloredStyles(): KIP.Styles.IStandardStyles {
+            return this._mergeThemes(QueryDynamicSelect._uncoloredStyles, DynamicSelect._uncoloredStyles);
+        }
+
+        //#region CREATE ELEMENTS
+
+        protected _createElements(): void {
+            super._createElements();
+
+            this._elems.loadMoreBtn = createElement({
+                cls: "loadMore hidden",
+                attr: { role: "button" },
+                parent: this._elems.drawer,
+                eventListeners: {
+
+                    // keep focus in the search field so the drawer stays open
+                    mousedown: (e: MouseEvent) => { e.preventDefault(); },
+                    click: () => { this.loadMore(); }
+                }
+            });
+        }
+
+        //#endregion
+
+        //#region QUERY HANDLING
+
+        /**...........................................................................
+         * _query
+         * ...........................................................................
+         * Wait for the user to stop typing before querying, unless we already
+         * have the results
+         * @param   queryText   The text to search
+         * ...........................................................................
+         */
+        protected _query(queryText?: string): void {
+            window.clearTimeout(this._queryTimeout);
+            if (!this._dataSource) { return; }
+
+            // anything still running is for older text
+            this._cancelQuery();
+
+            if (!queryText) {
+                this._showLoadMore("");
+                return;
+            }
+
+            if (this._cache[queryText]) {
+                this._showCachedResults(queryText);
+                return;
+            }
+
+            this._queryTimeout = window.setTimeout(() => {
+                this._onQuery(queryText);
+            }, this._options.debounce);
+        }
+
+        /**...........................................................................
+         * _onQuery
+         * ...........................................................................
+         * Fetch the first page of results for the query
+         * @param   queryText   The text to search
+         * ...........................................................................
+         */
+        protected _onQuery(queryText: string): KipPromise {
+            return this._fetchPage(queryText, 0);
+        }
+
+        /**...........................................................................
+         * loadMore
+         * ...........................................................................
+         * Fetch the next page of results for the current query
+         * ...........................................................................
+         */
+        public loadMore(): void {
+            let entry: IQueryCacheEntry = this._cache[this._lastQuery];
+            if (!entry || !entry.hasMore || this._isQuerying) { return; }
+            this._fetchPage(this._lastQuery, entry.page + 1);
+        }
+
+        /**...........................................................................
+         * clearCache
+         * ...........................................................................
+         * Forget any results we have already retrieved
+         * ...........................................................................
+         */
+        public clearCache(): void {
+            this._cache = {};
+        }
+
+        /**...........................................................................
+         * _fetchPage
+         * ...........................................................................
+         * Ask the data source for a page of results
+         *
+         * @param   queryText   The text to search
+         * @param   page        Which page of results to get
+         * ...........................................................................
+         */
+        protected _fetchPage(queryText: string, page: number): KipPromise {
+            this._cancelQuery();
+            let queryId: number = this._queryCount;
+
+            this._currentQuery = queryText;
+            this._isQuerying = true;
+            removeClass(this._elems.loadingIcon, "hidden");
+            addClass(this._elems.loadMoreBtn, "hidden");
+            this._elems.innerOptions.setAttribute("aria-busy", "true");
+
+            return new KipPromise((resolve: Function) => {
+                let onResult = (result: IDynamicSelectPage) => {
+                    if (queryId !== this._queryCount) { resolve(); return; }
+                    this._finishQuery();
+
+                    let pageResult: IDynamicSelectPage = toDynamicSelectPage(result);
+                    this._addToCache(queryText, page, pageResult);
+                    this.addOptions(pageResult.options);
+                    this._showLoadMore(queryText);
+                    resolve();
+                };
+
+                let onError = () => {
+                    if (queryId === this._queryCount) {
+                        this._finishQuery();
+                        this._showLoadMore(queryText);
+                    }
+                    resolve();
+                };
+
+                try {
+                    KipPromise.resolve(this._dataSource.fetch(queryText, page)).then(onResult, onError);
+                } catch (e) {
+                    onError();
+                }
+            });
+        }
+
+        /**...........................................................................
+         * _cancelQuery
+         * ...........................................................................
+         * Make sure the results of any outstanding query are ignored
+         * ...........................................................................
+         */
+        protected _cancelQuery(): void {
+            this._queryCount += 1;
+            if (!this._isQuerying) { return; }
+
+            if (this._dataSource.cancel) { this._dataSource.cancel(); }
+            this._finishQuery();
+        }
+
+        /**...........................................................................
+         * _finishQuery
+         * ...........................................................................
+         * Reset the querying state
+         * ...........................................................................
+         */
+        protected _finishQuery(): void {
+            this._isQuerying = false;
+            this._currentQuery = "";
+            addClass(this._elems.loadingIcon, "hidden");
+            this._elems.innerOptions.setAttribute("aria-busy", "false");
+        }
+
+        /**...........................................................................
+         * _addToCache
+         * ...........................................................................
+         * Save off a page of results for a query
+         * ...........................................................................
+         */
+        protected _addToCache(queryText: string, page: number, result: IDynamicSelectPage): void {
+            let entry: IQueryCacheEntry = this._cache[queryText];
+            if (!entry || page === 0) {
+                entry = { options: [], page: -1, hasMore: false };
+                this._cache[queryText] = entry;
+            }
+
+            entry.options = entry.options.concat(result.options);
+            entry.page = page;
+            entry.hasMore = !!result.hasMore;
+        }
+
+        /**...........................................................................
+         * _showCachedResults
+         * ...........................................................................
+         * Use the results we already have for a query
+         * ...........................................................................
+         */
+        protected _showCachedResults(queryText: string): void {
+            let entry: IQueryCacheEntry = this._cache[queryText];
+            this.addOptions(entry.options);
+            this._showLoadMore(queryText);
+        }
+
+        /**...........................................................................
+         * _showLoadMore
+         * ...........................................................................
+         * Show the load more button if the query has more results
+         * ...........................................................................
+         */
+        protected _showLoadMore(queryText: string): void {
+            this._lastQuery = queryText;
+            let entry: IQueryCacheEntry = this._cache[queryText];
+
+            if (entry && entry.hasMore) {
+                removeClass(this._elems.loadMoreBtn, "hidden");
+            } else {
+                addClass(this._elems.loadMoreBtn, "hidden");
+            }
+        }
+
+        //#endregion
+    }
+}
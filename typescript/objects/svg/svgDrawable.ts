@@ -87,6 +87,9 @@ namespace KIP.SVG {
 
 		private _elemCollections: Collection<SVGElem>;
 
+		/** tracks touch gestures (pan, pinch, double-tap) on the canvas */
+		private _gestures: GestureTracker;
+
 		//#endregion
 
 		/**...........................................................................
@@ -210,6 +213,22 @@ namespace KIP.SVG {
 				}
 			);
 
+			// Add the touch listeners
+			this._gestures = new GestureTracker(
+				this.base as any as HTMLElement,
+				{
+					onPan: (delta: IPoint) => {
+						this._onPan(delta);
+					},
+					onPinch: (scale: number, center: IPoint) => {
+						this._onPinch(scale, center);
+					},
+					onDoubleTap: (pt: IPoint) => {
+						this._onPinch(2, pt);
+					}
+				}
+			);
+
 		}
 
 		/**...........................................................................
@@ -217,24 +236,34 @@ namespace KIP.SVG {
 		 * ...........................................................................
 		 * handle zooming in & out
 		 * @param	direction	If positive, zooms in. If negative, zooms out
+		 * @param	anchor		If provided, the SVG point that should stay in place;
+		 * 						otherwise, zooms around the center of the view
 		 * ........................................................................... 
 		 */
-		protected _onZoom (direction: number) : void {
+		protected _onZoom (direction: number, anchor?: IPoint) : void {
 			let xAmt: number = this._options.zoom_x * direction;
 			let yAmt: number = this._options.zoom_y * direction;
 
 			let xUnit : number = this._view.w * xAmt;
 			let yUnit: number = this._view.h * yAmt;
 
+			// Figure out how far through the view the anchor is, so it can stay put
+			let xRatio: number = 0.5;
+			let yRatio: number = 0.5;
+			if (anchor && this._view.w && this._view.h) {
+				xRatio = (anchor.x - this._view.x) / this._view.w;
+				yRatio = (anchor.y - this._view.y) / this._view.h;
+			}
+
 			// Resize appropriately in the x-dimension
 			if (this._options.zoom_x) {
-				this._view.x -= xUnit;
+				this._view.x -= (2 * xUnit * xRatio);
 				this._view.w += (2 * xUnit);
 			}
 
 			// Resive appropriately in the y-dimension
 			if (this._options.zoom_y) {
-				this._view.y -= yUnit;
+				this._view.y -= (2 * yUnit * yRatio);
 				this._view.h += (2 * yUnit);
 			}
 
@@ -242,6 +271,23 @@ namespace KIP.SVG {
 			this.generateViewboxAttribute(true);
 		}
 
+		/**...........................................................................
+		 * _onPinch
+		 * ...........................................................................
+		 * handle zooming as two fingers spread apart or come together
+		 * @param	scale	How much the distance between the fingers has changed
+		 * @param	center	The real point between the fingers
+		 * ...........................................................................
+		 */
+		protected _onPinch(scale: number, center: IPoint) : void {
+			let zoomAmt: number = this._options.zoom_x || this._options.zoom_y;
+			if (!zoomAmt || !scale) { return; }
+
+			// spreading by the scale should shrink the view by the same amount
+			let direction: number = ((1 / scale) - 1) / (2 * zoomAmt);
+			this._onZoom(direction, this.calculateSVGCoordinates(center));
+		}
+
 		/**...........................................................................
 		 * _onPan
 		 * ...........................................................................
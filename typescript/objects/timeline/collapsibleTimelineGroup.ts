@@ -0,0 +1,264 @@
+///<reference path="timelineGroup.ts" />
+namespace KIP {
+
+    export interface ICollapsibleTimelineGroupOptions extends ITimelineGroupOptions {
+
+        /** whether the group should start out collapsed */
+        COLLAPSED?: boolean;
+
+        /** what color the summary bar should be when collapsed */
+        SUMMARY_COLOR?: string;
+    }
+
+    /**...........................................................................
+     * @class CollapsibleTimelineGroup
+     * ...........................................................................
+     * A timeline group that can be collapsed into a single summary bar spanning
+     * its start and end dates. Clicking any of the group's labels toggles it.
+     * @version 1.0
+     * ...........................................................................
+     */
+    export class CollapsibleTimelineGroup extends TimelineGroup {
+
+        //#region PROPERTIES
+
+        /** handle options for the group */
+        protected _options: ICollapsibleTimelineGroupOptions;
+
+        /** the bar that represents the group while it's collapsed */
+        protected _summary: RectangleElement;
+        public get summary(): RectangleElement { return this._summary; }
+
+        /** the elements we hid when collapsing, so we only show those again */
+        protected _collapsedElements: CanvasElement[];
+
+        /** allow callers to collapse or expand the group directly */
+        public get isCollapsed(): boolean { return this._isCollapsed; }
+        public set isCollapsed(collapsed: boolean) {
+            if (collapsed) {
+                this.collapse();
+            } else {
+                this.expand();
+            }
+        }
+
+        //#endregion
+
+        /**...........................................................................
+         * Creates a collapsible timeline group
+         *
+         * @param   id          The unique ID for the group
+         * @param   options     The options to use for the group
+         * ...........................................................................
+         */
+        constructor(id: string, options?: ICollapsibleTimelineGroupOptions) {
+            super(id, options);
+            this._collapsedElements = [];
+
+            this._summary = new RectangleElement(id + "|summary", { x: 0, y: 0, w: 0, h: 0 });
+            this._summary.style.fillColor = this._options.SUMMARY_COLOR;
+
+            if (this._options.COLLAPSED) { this.collapse(); }
+        }
+
+        /**...........................................................................
+         * _createDefaultOptions
+         * ...........................................................................
+         * Create the default options for the group
+         * ...........................................................................
+         */
+        protected _createDefaultOptions(): ICollapsibleTimelineGroupOptions {
+            let options: ICollapsibleTimelineGroupOptions = super._createDefaultOptions();
+            options.COLLAPSED = false;
+            options.SUMMARY_COLOR = "#555";
+            return options;
+        }
+
+        /**...........................................................................
+         * addElement
+         * ...........................................................................
+         * add a new element, letting labels toggle the group
+         *
+         * @param   elem    The element to add
+         * ...........................................................................
+         */
+        public addElement(elem: TimelineElement): void {
+            super.addElement(elem);
+
+            if (elem instanceof TimelineLabel) {
+                elem.addEventListener(EventTypeEnum.CLICK, () => { this.toggle(); });
+                return;
+            }
+
+            // anything added while collapsed stays hidden until we expand
+            if (this._isCollapsed && !elem.isHidden) {
+                elem.hide();
+                this._collapsedElements.push(elem);
+                this._requestReflow();
+            }
+        }
+
+        //#region HANDLE EXPAND + COLLAPSE
+
+        /**...........................................................................
+         * toggle
+         * ...........................................................................
+         * Collapse the group if it's expanded, or expand it if it's collapsed
+         * ...........................................................................
+         */
+        public toggle(): void {
+            this.isCollapsed = !this._isCollapsed;
+        }
+
+        /**...........................................................................
+         * collapse
+         * ...........................................................................
+         * Hide everything but the labels, showing a summary bar instead
+         * ...........................................................................
+         */
+        public collapse(): void {
+            if (this._isCollapsed) { return; }
+            this._isCollapsed = true;
+
+            this._collapsedElements = [];
+            this._elements.map((elem: CanvasElement) => {
+                if (elem instanceof TimelineLabel) { return; }
+                if (elem.isHidden) { return; }
+                elem.hide();
+                this._collapsedElements.push(elem);
+            });
+
+            this._requestReflow();
+        }
+
+        /**...........................................................................
+         * expand
+         * ...........................................................................
+         * Show the elements that were hidden by collapsing
+         * ...........................................................................
+         */
+        public expand(): void {
+            if (!this._isCollapsed) { return; }
+            this._isCollapsed = false;
+
+            this._summary.markDirty();
+            for (let elem of this._collapsedElements) {
+                elem.show();
+            }
+            this._collapsedElements = [];
+
+            this._requestReflow();
+        }
+
+        /**...........................................................................
+         * _requestReflow
+         * ...........................................................................
+         * Let the timeline know that groups need to be restacked; if we aren't on
+         * a timeline yet, just arrange ourselves
+         * ...........................................................................
+         */
+        protected _requestReflow(): void {
+            if (this._canvas) {
+                this._canvas.needsVerticalAdjustment = true;
+            } else {
+                this.reflow();
+            }
+        }
+
+        //#endregion
+
+        //#region REFLOW
+
+        /**...........................................................................
+         * reflow
+         * ...........................................................................
+         * restack the visible elements, placing the summary bar below them while
+         * collapsed
+         * ...........................................................................
+         */
+        public reflow(): void {
+            super.reflow();
+            if (!this._isCollapsed) { return; }
+
+            this._updateSummary();
+            this._recalculateDimensions();
+        }
+
+        /** include the summary bar in our size while collapsed */
+        protected _recalculateDimensions(additionalRects?: IBasicRect[]): void {
+            let rects: IBasicRect[] = additionalRects || [];
+            if (this._isCollapsed && this._summary) { rects = rects.concat([this._summary.dimensions]); }
+            super._recalculateDimensions(rects);
+        }
+
+        /** position the summary bar to span the group's dates, below any labels */
+        protected _updateSummary(): void {
+            let options: ICollapsibleTimelineGroupOptions = this._options;
+
+            // find the bottom of whatever is still showing
+            let bottom: number = this._referencePoint.y;
+            for (let rect of this._getVisibleRects()) {
+                bottom = Math.max(bottom, rect.y + rect.h);
+            }
+
+            let dim: IBasicRect = {
+                x: this._dimensions.x,
+                y: bottom + options.ELEMENT_GAP,
+                w: this._dimensions.w,
+                h: options.ELEM_HEIGHT
+            };
+
+            if (this._canvas && this.startDate && this.endDate) {
+                let startPt: IPoint = this._canvas.convertDateToPoint(this.startDate);
+                let endPt: IPoint = this._canvas.convertDateToPoint(this.endDate);
+                dim.x = startPt.x;
+                dim.w = endPt.x - startPt.x;
+            }
+
+            this._summary.dimensions = dim;
+        }
+
+        //#endregion
+
+        //#region DRAWING
+
+        /** the summary bar needs the canvas to draw on */
+        protected _setCanvas(canvas: Timeline): void {
+            super._setCanvas(canvas);
+            this._summary.canvas = canvas;
+            if (this._isCollapsed) { this._requestReflow(); }
+        }
+
+        /** keep the summary bar's display position up to date */
+        public updateDimensions(visibleWindow: IBasicRect): void {
+            super.updateDimensions(visibleWindow);
+            if (!this._isCollapsed || this._isOffScreen) { return; }
+            this._summary.updateDimensions(visibleWindow);
+        }
+
+        /** draw the summary bar alongside the visible elements */
+        protected _onDraw(context: CanvasRenderingContext2D): void {
+            super._onDraw(context);
+            if (!this._isCollapsed) { return; }
+            this._summary.draw();
+        }
+
+        /** the summary bar also needs repainting when collapsed */
+        public markDirty(): void {
+            super.markDirty();
+            if (!this._isCollapsed) { return; }
+            this._summary.markDirty();
+        }
+
+        /** 
+         * move the summary bar along with the rest of the group. It moves first, 
+         * since the group's size is recalculated as its hidden elements shift.
+         */
+        public adjustDimensions(adjustPt: IPoint): void {
+            if (this._summary) { this._summary.adjustDimensions(adjustPt); }
+            super.adjustDimensions(adjustPt);
+        }
+
+        //#endregion
+    }
+}
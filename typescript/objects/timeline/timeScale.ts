@@ -0,0 +1,204 @@
+///<reference path="../../helpers/dates.ts" />
+namespace KIP {
+
+    /**...........................................................................
+     * TimeScale
+     * ...........................................................................
+     * The units of time a timeline header can be divided into, from finest to
+     * coarsest
+     * ...........................................................................
+     */
+    export enum TimeScale {
+        HOUR = 0,
+        DAY = 1,
+        WEEK = 2,
+        MONTH = 3,
+        QUARTER = 4,
+        YEAR = 5
+    };
+
+    /**...........................................................................
+     * ITimeScaleDefinition
+     * ...........................................................................
+     * Describe how the headers of a timeline are laid out at a particular scale
+     * ...........................................................................
+     */
+    export interface ITimeScaleDefinition {
+
+        /** the scale being described */
+        scale: TimeScale;
+
+        /** the unit shown in the lower header row (and used for the background columns) */
+        minor: TimeScale;
+
+        /** the unit the lower row is grouped by in the upper header row, if any */
+        major: TimeScale;
+
+        /** how wide (in display px) each minor unit must be for its label to be legible */
+        minWidth: number;
+
+        /** roughly how many days are in each minor unit */
+        days: number;
+    }
+
+    /** the header layouts for each scale, from finest to coarsest */
+    export const TIME_SCALES: ITimeScaleDefinition[] = [
+        { scale: TimeScale.HOUR,    minor: TimeScale.HOUR,    major: TimeScale.DAY,   minWidth: 36, days: 1 / 24 },
+        { scale: TimeScale.DAY,     minor: TimeScale.DAY,     major: TimeScale.MONTH, minWidth: 15, days: 1 },
+        { scale: TimeScale.WEEK,    minor: TimeScale.WEEK,    major: TimeScale.MONTH, minWidth: 36, days: 7 },
+        { scale: TimeScale.MONTH,   minor: TimeScale.MONTH,   major: TimeScale.YEAR,  minWidth: 32, days: 30.44 },
+        { scale: TimeScale.QUARTER, minor: TimeScale.QUARTER, major: TimeScale.YEAR,  minWidth: 24, days: 91.31 },
+        { scale: TimeScale.YEAR,    minor: TimeScale.YEAR,    major: null,            minWidth: 32, days: 365.25 }
+    ];
+
+    /** how many milliseconds are in an hour & a day */
+    const MS_PER_HOUR: number = 1000 * 60 * 60;
+    const MS_PER_DAY: number = MS_PER_HOUR * 24;
+
+    /**...........................................................................
+     * getTimeScaleForDayWidth
+     * ...........................................................................
+     * Find the finest scale whose labels are still legible when a day is a
+     * particular width
+     *
+     * @param   dayWidth    How wide a day is, in display px
+     *
+     * @returns The layout to use for the headers
+     * ...........................................................................
+     */
+    export function getTimeScaleForDayWidth(dayWidth: number): ITimeScaleDefinition {
+        for (let def of TIME_SCALES) {
+            if ((def.days * dayWidth) >= def.minWidth) { return def; }
+        }
+        return TIME_SCALES[TIME_SCALES.length - 1];
+    }
+
+    /**...........................................................................
+     * getTimeScaleStart
+     * ...........................................................................
+     * Find the start of the unit that a date falls in (weeks start on Monday)
+     *
+     * @param   date    The date to find the unit for
+     * @param   unit    The unit to look at
+     *
+     * @returns A new date at the start of the unit
+     * ...........................................................................
+     */
+    export function getTimeScaleStart(date: Date, unit: TimeScale): Date {
+        let year: number = date.getFullYear();
+        let month: number = date.getMonth();
+
+        switch (unit) {
+            case TimeScale.HOUR:
+                return new Date(year, month, date.getDate(), date.getHours());
+            case TimeScale.DAY:
+                return new Date(year, month, date.getDate());
+            case TimeScale.WEEK:
+                return new Date(year, month, date.getDate() - ((date.getDay() + 6) % 7));
+            case TimeScale.MONTH:
+                return new Date(year, month, 1);
+            case TimeScale.QUARTER:
+                return new Date(year, month - (month % 3), 1);
+            case TimeScale.YEAR:
+                return new Date(year, 0, 1);
+        }
+        return new Date(date as any);
+    }
+
+    /**...........................................................................
+     * addTimeScaleUnits
+     * ...........................................................................
+     * Move a date by some number of units
+     *
+     * @param   date    The date to move; this date is modified
+     * @param   unit    The unit to move by
+     * @param   count   How many units to move
+     *
+     * @returns The updated date
+     * ...........................................................................
+     */
+    export function addTimeScaleUnits(date: Date, unit: TimeScale, count: number): Date {
+        switch (unit) {
+            case TimeScale.HOUR:
+                return Dates.addToDate(date, { hours: count });
+            case TimeScale.DAY:
+                return Dates.addToDate(date, { days: count });
+            case TimeScale.WEEK:
+                return Dates.addToDate(date, { days: count * 7 });
+            case TimeScale.MONTH:
+                return Dates.addToDate(date, { months: count });
+            case TimeScale.QUARTER:
+                return Dates.addToDate(date, { months: count * 3 });
+            case TimeScale.YEAR:
+                return Dates.addToDate(date, { years: count });
+        }
+        return date;
+    }
+
+    /**...........................................................................
+     * getTimeScaleOrdinal
+     * ...........................................................................
+     * Number the units of a scale consecutively, so that labels can be thinned
+     * out consistently as the view moves
+     *
+     * @param   date    The start of the unit
+     * @param   unit    The unit to number
+     *
+     * @returns The index of the unit
+     * ...........................................................................
+     */
+    export function getTimeScaleOrdinal(date: Date, unit: TimeScale): number {
+        let year: number = date.getFullYear();
+        let month: number = date.getMonth();
+        let day: number = Math.round(Date.UTC(year, month, date.getDate()) / MS_PER_DAY);
+
+        switch (unit) {
+            case TimeScale.HOUR:
+                return (day * 24) + date.getHours();
+            case TimeScale.DAY:
+                return day;
+            case TimeScale.WEEK:
+                return Math.floor(day / 7);
+            case TimeScale.MONTH:
+                return (year * 12) + month;
+            case TimeScale.QUARTER:
+                return (year * 4) + Math.floor(month / 3);
+            case TimeScale.YEAR:
+                return year;
+        }
+        return 0;
+    }
+
+    /**...........................................................................
+     * getTimeScaleLabel
+     * ...........................................................................
+     * Get the header text for a unit
+     *
+     * @param   date    The start of the unit
+     * @param   unit    The unit being labeled
+     * @param   isMajor True if the label is for the upper header row, which
+     *                  has more room to give context
+     *
+     * @returns The text to display
+     * ...........................................................................
+     */
+    export function getTimeScaleLabel(date: Date, unit: TimeScale, isMajor?: boolean): string {
+        switch (unit) {
+            case TimeScale.HOUR:
+                return Dates.shortTime(date);
+            case TimeScale.DAY:
+                if (!isMajor) { return date.getDate().toString(); }
+                return Dates.getDayOfWeek(date, true) + " " + (date.getMonth() + 1) + "/" + date.getDate();
+            case TimeScale.WEEK:
+                return (date.getMonth() + 1) + "/" + date.getDate();
+            case TimeScale.MONTH:
+                if (!isMajor) { return Dates.getMonthName(date, true); }
+                return Dates.getMonthName(date, true) + " " + Dates.getShortYear(date);
+            case TimeScale.QUARTER:
+                return "Q" + (Math.floor(date.getMonth() / 3) + 1);
+            case TimeScale.YEAR:
+                return date.getFullYear().toString();
+        }
+        return "";
+    }
+}
@@ -1,4 +1,7 @@
 ///<reference path="../canvas/canvas.ts" />
+///<reference path="../../helpers/holidays.ts" />
+///<reference path="timelineDependency.ts" />
+///<reference path="timeScale.ts" />
 namespace KIP {
 
     /**...........................................................................
@@ -29,6 +32,9 @@ namespace KIP {
             TODAY?: string;
         };
 
+        /** which days are worked, and which holidays should be shaded */
+        HOLIDAY_CALENDAR?: Dates.HolidayCalendar;
+
         /** what color should be used for borders on elements */
         BORDER_COLOR?: string;
 
@@ -44,6 +50,18 @@ namespace KIP {
         /** false if we should hide the background */
         SHOW_BACKGROUND?: boolean;
 
+        /** false if we should hide the line marking the current time */
+        SHOW_NOW_LINE?: boolean;
+
+        /** what color the current-time line should be */
+        NOW_LINE_COLOR?: string;
+
+        /** how thick the current-time line should be, in px */
+        NOW_LINE_WIDTH?: number;
+
+        /** how often (in ms) the current-time line should move to the current time */
+        NOW_LINE_INTERVAL?: number;
+
         /** what the gap should be between elements in the canvas */
         BETWEEN_GROUP_GAP?: number;
     }
@@ -69,6 +87,9 @@ namespace KIP {
         TODAY = 3
     };
 
+    /** where a date should end up within the view when scrolling to it */
+    export type TimelineAlignment = "start" | "center" | "end";
+
     export class Timeline extends HTML5Canvas {
 
         //#region PROPERTIES
@@ -83,9 +104,39 @@ namespace KIP {
         /** the layer of elements */
         private _elemLayer: CanvasGroup;
 
+        /** elements added through addTimelineElement, with how far each sat below the one before it */
+        private _timelineElements: { [id: string]: { element: TimelineElement, offset: number } };
+
         /** allow child elements to indicate that the Y dispersement should be adjusted */
         protected _needsVerticalAdjustment: boolean;
-        public set needsVerticalAdjustment (val: boolean) { this._needsVerticalAdjustment = true; }
+        public set needsVerticalAdjustment (val: boolean) {
+            this._needsVerticalAdjustment = val;
+            if (val) { this.needsRedraw = true; }
+        }
+
+        /** links between timespans that are drawn as arrows */
+        private _dependencies: TimelineDependency[];
+        public get dependencies(): TimelineDependency[] { return this._dependencies; }
+
+        /** the zoom level dependencies were last routed at */
+        private _routedZoom: IPoint;
+
+        /** the scale the headers are divided into at the current zoom level */
+        public get timeScale(): TimeScale { return this._getTimeScaleDefinition().scale; }
+
+        /** keeps the current-time line up to date */
+        private _nowLineInterval: number;
+
+        /** the current-time line, if it is in view */
+        private _nowLine: RectangleElement;
+
+        /** allow the current-time line to be turned on or off */
+        public get showNowLine(): boolean { return this._options.SHOW_NOW_LINE; }
+        public set showNowLine(show: boolean) {
+            this._options.SHOW_NOW_LINE = show;
+            this._updateNowLineTimer();
+            this.needsRedraw = true;
+        }
         //#endregion
 
         //#region CONSTRUCTOR
@@ -137,6 +188,7 @@ namespace KIP {
                 HOLIDAY: "#ccc",
                 TODAY: "#333"
             };
+            options.HOLIDAY_CALENDAR = Dates.getDefaultHolidayCalendar();
             options.ZOOM_DELTA = () => {
 
                 let out: IPoint = {
@@ -150,6 +202,14 @@ namespace KIP {
             options.BORDER_COLOR = "#bbb";
             options.FONT_SIZE = 12;
             options.BETWEEN_GROUP_GAP = 10;
+            options.SHOW_NOW_LINE = true;
+            options.NOW_LINE_COLOR = "#C00";
+            options.NOW_LINE_WIDTH = 2;
+            options.NOW_LINE_INTERVAL = 60 * 1000;
+
+            // allow zooming in far enough to see hours, and out far enough to see years
+            options.MAX_ZOOM.x = 60;
+            options.MIN_ZOOM.x = 0.005;
             options.MAX_ZOOM.y = Math.pow(1.01, Math.log(options.MAX_ZOOM.x / 1.03));
             options.MIN_ZOOM.y = Math.pow(1.01, Math.log(options.MIN_ZOOM.x)/Math.log(1.03));
 
@@ -179,9 +239,14 @@ namespace KIP {
             // save off the central point and coordinate for date - point conversions
             this._centralDateLocation = (this._options.SIZE.width / 2);
 
+            this._dependencies = [];
+            this._timelineElements = {};
+
             // make sure we draw the right UI as we move around
             this.onPreRender = () => {
+                this._updateLayout();
                 this._createVisibleBackground();
+                this._updateNowLine();
             };
 
             // ensure that we have a layer for all of our elements
@@ -239,6 +304,197 @@ namespace KIP {
         }
         //#endregion
 
+        //#region HANDLE TIME SCALES
+
+        /**...........................................................................
+         * zoomToScale
+         * ...........................................................................
+         * zoom around the center of the view until the headers show a particular
+         * time scale
+         * 
+         * @param   scale               The scale to show, or its name (e.g. "week")
+         * @param   animationOptions    If provided, animate the zoom
+         * 
+         * @returns The scale that is shown after zooming, which may differ if the
+         *          zoom limits don't allow the requested one
+         * ...........................................................................
+         */
+        public zoomToScale(scale: TimeScale | string, animationOptions?: ICanvasAnimationOptions): TimeScale {
+            if (typeof scale === "string") {
+                scale = (TimeScale as any)[scale.toUpperCase()] as TimeScale;
+            }
+
+            let idx: number = -1;
+            for (let i = 0; i < TIME_SCALES.length; i += 1) {
+                if (TIME_SCALES[i].scale === scale) { idx = i; }
+            }
+            if (idx === -1) { return this.timeScale; }
+
+            // aim for comfortably legible labels, without zooming in so far that 
+            // the next finer scale would take over
+            let def: ITimeScaleDefinition = TIME_SCALES[idx];
+            let dayWidth: number = (def.minWidth * 1.5) / def.days;
+            if (idx > 0) {
+                let finer: ITimeScaleDefinition = TIME_SCALES[idx - 1];
+                dayWidth = Math.min(dayWidth, (finer.minWidth / finer.days) * 0.9);
+            }
+
+            let zoomX: number = normalizeValue(dayWidth / this._options.DAY_WIDTH, this._options.MIN_ZOOM.x, this._options.MAX_ZOOM.x);
+
+            // keep the same dates in the center of the view
+            let view: IBasicRect = this._relativeView;
+            let width: number = this._options.SIZE.width / zoomX;
+            let newView: IBasicRect = {
+                x: view.x + ((view.w - width) / 2),
+                y: view.y,
+                w: width,
+                h: view.h
+            };
+
+            if (animationOptions) {
+                this.animateView(newView, animationOptions);
+            } else {
+                this.changeView(newView);
+            }
+
+            return getTimeScaleForDayWidth(this._options.DAY_WIDTH * zoomX).scale;
+        }
+
+        /** find the header layout for the current zoom level */
+        private _getTimeScaleDefinition(): ITimeScaleDefinition {
+            return getTimeScaleForDayWidth(this._options.DAY_WIDTH * this._zoomFactor.x);
+        }
+
+        //#endregion
+
+        //#region HANDLE NAVIGATION
+
+        /**...........................................................................
+         * scrollToDate
+         * ...........................................................................
+         * pan the view to a particular date, keeping the current zoom level
+         * 
+         * @param   date                The date to scroll to
+         * @param   align               Where the date should end up in the view;
+         *                              defaults to the center
+         * @param   animationOptions    If provided, animate the scroll
+         * ...........................................................................
+         */
+        public scrollToDate(date: Date, align?: TimelineAlignment, animationOptions?: ICanvasAnimationOptions): void {
+            let view: IBasicRect = this._relativeView;
+            let x: number = this.convertDateToPoint(date).x;
+
+            if (align === "start") {
+                // the date is already at the left edge
+            } else if (align === "end") {
+                x -= view.w;
+            } else {
+                x -= (view.w / 2);
+            }
+
+            if (animationOptions) {
+                this.animatePan({ x: x, y: view.y }, animationOptions);
+            } else {
+                this.changeView({ x: x, y: view.y, w: view.w, h: view.h });
+            }
+        }
+
+        /**...........................................................................
+         * fitDates
+         * ...........................................................................
+         * zoom & pan so that a range of dates fills the view
+         * 
+         * @param   start               The first date to show
+         * @param   end                 The last date to show
+         * @param   animationOptions    If provided, animate the change
+         * ...........................................................................
+         */
+        public fitDates(start: Date, end: Date, animationOptions?: ICanvasAnimationOptions): void {
+            this._frameDates(start, end, this._relativeView.y, animationOptions);
+        }
+
+        /**...........................................................................
+         * fitAll
+         * ...........................................................................
+         * zoom & pan so that every element on the timeline is visible, scrolled
+         * to the top of the plan
+         * 
+         * @param   animationOptions    If provided, animate the change
+         * ...........................................................................
+         */
+        public fitAll(animationOptions?: ICanvasAnimationOptions): void {
+            let bounds: IBasicRect = this._getElementBounds();
+            if (!bounds) { return; }
+
+            // leave room for the headers above the first element
+            let headerHeight: number = (this._options.DAY_HEIGHT * 1.75) / this._zoomFactor.y;
+
+            let extrema: IGenericExtrema<Date> = this._getDateExtrema(bounds);
+            this._frameDates(extrema.min, extrema.max, bounds.y - headerHeight, animationOptions);
+        }
+
+        /**...........................................................................
+         * _frameDates
+         * ...........................................................................
+         * change the view to show a range of dates, with a little room to spare
+         * on either side
+         * 
+         * @param   start               The first date to show
+         * @param   end                 The last date to show
+         * @param   y                   Where the top of the view should be
+         * @param   animationOptions    If provided, animate the change
+         * ...........................................................................
+         */
+        private _frameDates(start: Date, end: Date, y: number, animationOptions?: ICanvasAnimationOptions): void {
+            let startX: number = this.convertDateToPoint(start).x;
+            let endX: number = this.convertDateToPoint(end).x;
+
+            // pad by a day or 5% of the range, whichever is larger
+            let padding: number = Math.max(this._options.DAY_WIDTH, Math.abs(endX - startX) * 0.05);
+            let zoomX: number = this._options.SIZE.width / (Math.abs(endX - startX) + (2 * padding));
+            zoomX = normalizeValue(zoomX, this._options.MIN_ZOOM.x, this._options.MAX_ZOOM.x);
+
+            let width: number = this._options.SIZE.width / zoomX;
+            let newView: IBasicRect = {
+                x: ((startX + endX) / 2) - (width / 2),
+                y: y,
+                w: width,
+                h: this._relativeView.h
+            };
+
+            if (animationOptions) {
+                this.animateView(newView, animationOptions);
+            } else {
+                this.changeView(newView);
+            }
+        }
+
+        /** find the area covered by every element that is showing */
+        private _getElementBounds(): IBasicRect {
+            let out: IBasicRect = null;
+
+            for (let elem of this._elemLayer.elements) {
+                if (elem.isHidden || !elem.dimensions) { continue; }
+
+                let dim: IBasicRect = elem.dimensions;
+                if (!out) {
+                    out = { x: dim.x, y: dim.y, w: dim.w, h: dim.h };
+                    continue;
+                }
+
+                let right: number = Math.max(out.x + out.w, dim.x + dim.w);
+                let bottom: number = Math.max(out.y + out.h, dim.y + dim.h);
+                out.x = Math.min(out.x, dim.x);
+                out.y = Math.min(out.y, dim.y);
+                out.w = right - out.x;
+                out.h = bottom - out.y;
+            }
+
+            return out;
+        }
+
+        //#endregion
+
         //#region ADD OR REMOVE DATA
 
         /**...........................................................................
@@ -259,16 +515,265 @@ namespace KIP {
                 y: this._elemLayer.dimensions.h + this._options.BETWEEN_GROUP_GAP
             });
 
+            // remember where this sits relative to the timeline elements above it, so reflowing keeps the spacing
+            let offset: number = item.dimensions.y - this._getTimelineElementsBottom();
             this._elemLayer.addElement(item);
+            this._timelineElements[item.id] = { element: item, offset: offset };
 
             return true;
         }
+
+        /** find the bottom of the last visible element added through addTimelineElement */
+        private _getTimelineElementsBottom(): number {
+            let bottom: number = 0;
+            for (let elem of this._getTimelineElements()) {
+                if (elem.isHidden) { continue; }
+                bottom = elem.dimensions.y + elem.dimensions.h;
+            }
+            return bottom;
+        }
+
+        /** get the elements added through addTimelineElement that are still in the timeline, in order */
+        private _getTimelineElements(): TimelineElement[] {
+            let out: TimelineElement[] = [];
+            for (let elem of this._elemLayer.elements) {
+                let placement = this._timelineElements[elem.id];
+                if (!placement || (placement.element !== elem)) { continue; }
+                out.push(placement.element);
+            }
+            return out;
+        }
         //#endregion
 
         //*region REARRANGE DATA
         public adjustVerticalPosition(): void {
-            
+            this._needsVerticalAdjustment = false;
+
+            // stack each timeline element below the last, letting groups arrange
+            // themselves first; anything placed directly by the caller stays put
+            let bottom: number = 0;
+            for (let elem of this._getTimelineElements()) {
+                if (elem instanceof TimelineGroup) { elem.reflow(); }
+                if (elem.isHidden) { continue; }
+
+                let shift: number = (bottom + this._timelineElements[elem.id].offset) - elem.dimensions.y;
+                if (shift !== 0) { elem.adjustDimensions({ x: 0, y: shift }); }
+
+                bottom = elem.dimensions.y + elem.dimensions.h;
+            }
+
+            // anything that moved needs its dependency arrows rerouted
+            this.rerouteDependencies();
+        }
+
+        /**...........................................................................
+         * _updateLayout
+         * ...........................................................................
+         * Before drawing, make sure anything affected by a layout change (either 
+         * a vertical adjustment or a zoom) is updated
+         * ...........................................................................
+         */
+        private _updateLayout(): void {
+            if (this._needsVerticalAdjustment) {
+                this.adjustVerticalPosition();
+                return;
+            }
+
+            let zoomChanged: boolean = !this._routedZoom ||
+                (this._routedZoom.x !== this.zoomFactor.x) ||
+                (this._routedZoom.y !== this.zoomFactor.y);
+
+            if (zoomChanged) { this.rerouteDependencies(); }
+        }
+        //#endregion
+
+        //#region HANDLE COLLAPSING
+
+        /**...........................................................................
+         * getCollapsedState
+         * ...........................................................................
+         * find which collapsible groups are collapsed, so the state can be saved
+         * 
+         * @returns Whether each collapsible group is collapsed, by group ID
+         * ...........................................................................
+         */
+        public getCollapsedState(): { [id: string]: boolean } {
+            let out: { [id: string]: boolean } = {};
+            for (let group of this._getCollapsibleGroups(this._elemLayer.elements)) {
+                out[group.id] = group.isCollapsed;
+            }
+            return out;
+        }
+
+        /**...........................................................................
+         * setCollapsedState
+         * ...........................................................................
+         * collapse or expand groups to match a previously saved state
+         * 
+         * @param   state   Whether each group should be collapsed, by group ID;
+         *                  groups that aren't included are left alone
+         * ...........................................................................
+         */
+        public setCollapsedState(state: { [id: string]: boolean }): void {
+            for (let group of this._getCollapsibleGroups(this._elemLayer.elements)) {
+                if (!state.hasOwnProperty(group.id)) { continue; }
+                group.isCollapsed = state[group.id];
+            }
+        }
+
+        /** find all collapsible groups within a set of elements, including nested ones */
+        private _getCollapsibleGroups(elems: CanvasElement[]): CollapsibleTimelineGroup[] {
+            let out: CollapsibleTimelineGroup[] = [];
+            for (let elem of elems) {
+                if (!(elem instanceof TimelineGroup)) { continue; }
+                if (elem instanceof CollapsibleTimelineGroup) { out.push(elem); }
+                out = out.concat(this._getCollapsibleGroups(elem.elements));
+            }
+            return out;
+        }
+
+        //#endregion
+
+        //#region HANDLE DEPENDENCIES
+
+        /**...........................................................................
+         * addDependency
+         * ...........................................................................
+         * link two timespans, drawing an arrow between them
+         * 
+         * @param   predecessor     The span that must happen first
+         * @param   successor       The span that depends on the predecessor
+         * @param   type            How the spans are linked; defaults to finish-to-start
+         * @param   options         How the dependency should be displayed
+         * 
+         * @returns The created dependency
+         * ...........................................................................
+         */
+        public addDependency(predecessor: Timespan, successor: Timespan, type?: DependencyType, options?: ITimelineDependencyOptions): TimelineDependency {
+            type = type || DependencyType.FINISH_TO_START;
+
+            let id: string = "dependency|" + predecessor.id + "|" + successor.id + "|" + type;
+            let dependency: TimelineDependency = new TimelineDependency(id, predecessor, successor, type, options);
+
+            // draw the arrows above the elements, but below the headers
+            dependency.layer = 2;
+            this.addElement(dependency);
+            this._dependencies.push(dependency);
+
+            dependency.route();
+            return dependency;
+        }
+
+        /**...........................................................................
+         * removeDependency
+         * ...........................................................................
+         * stop linking two timespans
+         * 
+         * @param   dependency  The dependency to remove
+         * 
+         * @returns True if the dependency was removed
+         * ...........................................................................
+         */
+        public removeDependency(dependency: TimelineDependency): boolean {
+            let idx: number = this._dependencies.indexOf(dependency);
+            if (idx === -1) { return false; }
+
+            this._dependencies.splice(idx, 1);
+            dependency.markDirty();
+            return this.removeElement(dependency.id);
+        }
+
+        /**...........................................................................
+         * rerouteDependencies
+         * ...........................................................................
+         * recalculate the paths of dependency arrows after spans have moved
+         * 
+         * @param   span    If provided, only reroute the dependencies of this span
+         * ...........................................................................
+         */
+        public rerouteDependencies(span?: Timespan): void {
+            for (let dependency of this._dependencies) {
+                if (span && (dependency.predecessor !== span) && (dependency.successor !== span)) { continue; }
+                dependency.route();
+            }
+
+            if (span) { return; }
+            this._routedZoom = {
+                x: this.zoomFactor.x,
+                y: this.zoomFactor.y
+            };
+        }
+
+        /**...........................................................................
+         * getScheduleConflicts
+         * ...........................................................................
+         * find the dependencies that the current dates don't satisfy
+         * 
+         * @returns The broken dependencies, along with how far off they are
+         * ...........................................................................
+         */
+        public getScheduleConflicts(): IScheduleConflict[] {
+            let out: IScheduleConflict[] = [];
+
+            for (let dependency of this._dependencies) {
+                let slack: number = dependency.getSlack();
+                if (slack >= 0) { continue; }
+
+                out.push({
+                    dependency: dependency,
+                    days: -slack
+                });
+            }
+
+            return out;
         }
+
+        /**...........................................................................
+         * getCriticalPath
+         * ...........................................................................
+         * find the chain of dependent spans that determines when the linked
+         * work finishes. Starting from the span that ends last, this follows
+         * whichever dependency leaves the least slack back to a span with no
+         * predecessors.
+         * 
+         * @returns The spans on the critical path, in order
+         * ...........................................................................
+         */
+        public getCriticalPath(): Timespan[] {
+
+            // find the linked span that finishes last
+            let current: Timespan = null;
+            for (let dependency of this._dependencies) {
+                for (let span of [dependency.predecessor, dependency.successor]) {
+                    if (!current || (span.endDate > current.endDate)) { current = span; }
+                }
+            }
+            if (!current) { return []; }
+
+            let out: Timespan[] = [current];
+            let visited: { [id: string]: boolean } = {};
+            visited[current.id] = true;
+
+            // walk back through whichever predecessor is driving each span
+            while (current) {
+                let driving: TimelineDependency = null;
+
+                for (let dependency of this._dependencies) {
+                    if (dependency.successor !== current) { continue; }
+                    if (visited[dependency.predecessor.id]) { continue; }
+                    if (!driving || (dependency.getSlack() < driving.getSlack())) { driving = dependency; }
+                }
+
+                if (!driving) { break; }
+
+                current = driving.predecessor;
+                visited[current.id] = true;
+                out.unshift(current);
+            }
+
+            return out;
+        }
+
         //#endregion
 
 
@@ -285,6 +790,9 @@ namespace KIP {
             // calculate the min date visible & max date visible
             let extrema: IGenericExtrema<Date> = this._getDateExtrema();
 
+            // figure out which units are legible at the current zoom level
+            let scale: ITimeScaleDefinition = this._getTimeScaleDefinition();
+
             // create the group to add to
             let bgGroup: CanvasGroup = new CanvasGroup("bg", { x: 0, y: 0 });
             bgGroup.layer = 0;
@@ -292,80 +800,21 @@ namespace KIP {
             let headerGroup: CanvasGroup = new CanvasGroup("header", { x: 0, y: 0 });
             headerGroup.layer = 99;
 
-            // handle month tracking
-            let curMonthStart: number = this._relativeView.x;
-            let curMonthRefDate: Date = extrema.min;
-
             // figure out what the non-scaled version of our day-height would be
             let unscaledDay: number = roundToPlace(this._options.DAY_HEIGHT / this._zoomFactor.y, 10);
 
-            // loop through all dates in this time range
-            let diff: number = Dates.dateDiff(extrema.max, extrema.min, false, false, false) + 1;
-            for (let i = 0; i < diff; i += 1) {
-
-                // create the date to draw currently
-                let refDate: Date = Dates.addToDate(new Date(extrema.min as any), { days: i });
-                refDate = Dates.clearTimeInfo(refDate);
-
-                // Create the reference point position for the day display
-                let refPt: IPoint = this.convertDateToPoint(refDate);
-                refPt.y = this._relativeView.y + unscaledDay;
-
-                // for the first element, the reference point is going to be a little different
-                if (i === 0) {
-                    refPt.x = this._relativeView.x;
-                }
-
-                let lastElem: boolean = (i === (diff - 1));
-
-                // Create the day column
-                let dayDivGrp: CanvasGroup = this._createDayDivisions(refDate, refPt);
-                bgGroup.addElement(dayDivGrp);
-
-                // create the month header
-                let dateMismatch: boolean = refDate.getMonth() !== curMonthRefDate.getMonth();
-                if (dateMismatch) {
-                    let monthGrp: CanvasGroup = this._createMonthHeader(
-                        curMonthRefDate,
-                        {
-                            x: curMonthStart,
-                            y: this._relativeView.y
-                        },
-                        {
-                            x: refPt.x,
-                            y: this._relativeView.y + unscaledDay
-                        });
-                    curMonthRefDate = refDate;
-                    curMonthStart = refPt.x;
-                    headerGroup.addElement(monthGrp);
-                }
-
-                // if this is the last element, make sure we still finish the month header
-                if (lastElem) {
-                    let monthGrp: CanvasGroup = this._createMonthHeader(
-                        curMonthRefDate,
-                        {
-                            x: curMonthStart,
-                            y: this._relativeView.y
-                        },
-                        {
-                            x: this._relativeView.x + this._relativeView.w,
-                            y: this._relativeView.y + unscaledDay
-                        }
-                    );
-                    curMonthRefDate = refDate;
-                    curMonthStart = refPt.x;
-                    headerGroup.addElement(monthGrp);
-                }
-
-                // create the day header
-                let dayGroup: CanvasGroup = this._createDayHeader(refDate, refPt);
-                if (dayGroup !== null) {
-                    headerGroup.addElement(dayGroup);
-                }
-
+            // shade individual days while they're wide enough to see; otherwise 
+            // just divide the background by the minor unit
+            if (scale.minor <= TimeScale.WEEK) {
+                this._createDayColumns(bgGroup, extrema);
+            } else {
+                this._createUnitColumns(bgGroup, extrema, scale.minor);
             }
 
+            // create the headers
+            this._createMajorHeaders(headerGroup, extrema, scale, unscaledDay);
+            this._createMinorHeaders(headerGroup, extrema, scale, unscaledDay);
+
             // remove the old
             this.removeElement("bg");
             this.removeElement("header");
@@ -380,11 +829,14 @@ namespace KIP {
          * ...........................................................................
          * calculate the max & min dates that are visible 
          * 
+         * @param   viewport    If provided, the area to find dates for instead
+         *                      of the current view
+         * 
          * @returns The extremes of the dates
          * ...........................................................................
          */
-        private _getDateExtrema(): IGenericExtrema<Date> {
-            let viewport: IBasicRect = this._relativeView;
+        private _getDateExtrema(viewport?: IBasicRect): IGenericExtrema<Date> {
+            viewport = viewport || this._relativeView;
 
             let min: IPoint = {
                 x: viewport.x,
@@ -404,52 +856,114 @@ namespace KIP {
             return out;
         }
 
-        //#region FORMAT THE MONTH HEADER
         /**...........................................................................
-         * _createMonthHeader
+         * _getUnitBoundaries
          * ...........................................................................
-         * create a particular header for a month 
+         * find where each unit that is at least partially visible starts
          * 
-         * @param   refDate     The reference date for the month
+         * @param   extrema     The dates that are visible
+         * @param   unit        The unit to divide the dates into
+         * 
+         * @returns The start of each visible unit, followed by the end of the last
+         * ...........................................................................
+         */
+        private _getUnitBoundaries(extrema: IGenericExtrema<Date>, unit: TimeScale): Date[] {
+            let out: Date[] = [];
+
+            let cur: Date = getTimeScaleStart(extrema.min, unit);
+            out.push(cur);
+            while (cur < extrema.max) {
+                cur = addTimeScaleUnits(new Date(cur as any), unit, 1);
+                out.push(cur);
+            }
+
+            return out;
+        }
+
+        //#region FORMAT THE MAJOR HEADER
+
+        /**...........................................................................
+         * _createMajorHeaders
+         * ...........................................................................
+         * create the upper header row, which groups the minor units together
+         * 
+         * @param   headerGroup     The group to add the headers to
+         * @param   extrema         The dates that are visible
+         * @param   scale           The current layout of the headers
+         * @param   unscaledDay     How tall the row should be
+         * ...........................................................................
+         */
+        private _createMajorHeaders(headerGroup: CanvasGroup, extrema: IGenericExtrema<Date>, scale: ITimeScaleDefinition, unscaledDay: number): void {
+            if (isNullOrUndefined(scale.major)) { return; }
+
+            let view: IBasicRect = this._relativeView;
+            let boundaries: Date[] = this._getUnitBoundaries(extrema, scale.major);
+
+            for (let i = 0; i < boundaries.length - 1; i += 1) {
+
+                // keep the header within the view, so its label is always visible
+                let startX: number = Math.max(this.convertDateToPoint(boundaries[i]).x, view.x);
+                let endX: number = Math.min(this.convertDateToPoint(boundaries[i + 1]).x, view.x + view.w);
+                if (endX <= startX) { continue; }
+
+                let majorGrp: CanvasGroup = this._createMajorHeader(
+                    boundaries[i],
+                    scale.major,
+                    { x: startX, y: view.y },
+                    { x: endX, y: view.y + unscaledDay }
+                );
+                headerGroup.addElement(majorGrp);
+            }
+        }
+
+        /**...........................................................................
+         * _createMajorHeader
+         * ...........................................................................
+         * create a particular header for a major unit (e.g. a month)
+         * 
+         * @param   refDate     The start of the unit
+         * @param   unit        The unit the header is for
          * @param   start       The start position
          * @param   end         The end position
          * 
-         * @returns The canvas group representing the month
+         * @returns The canvas group representing the unit
          * ...........................................................................
          */
-        private _createMonthHeader(refDate: Date, start: IPoint, end: IPoint): CanvasGroup {
+        private _createMajorHeader(refDate: Date, unit: TimeScale, start: IPoint, end: IPoint): CanvasGroup {
             
-            let monthLbl: TextElement = this._createMonthLabel(refDate);                        // create the label for the month
-            let monthColor: RectangleElement = this._createMonthColor(refDate, start, end);     // create the background color for the month
+            let majorLbl: TextElement = this._createMajorLabel(refDate, unit);                     // create the label for the unit
+            let majorColor: RectangleElement = this._createMajorColor(refDate, unit, start, end);  // create the background color for the unit
 
             // group around both
-            let monthGrp: CanvasGroup = new CanvasGroup("month|" + Dates.shortDate(refDate), { x: start.x, y: start.y });
-            monthGrp.addElement(monthColor);
-            monthGrp.addElement(monthLbl);
+            let majorGrp: CanvasGroup = new CanvasGroup("major|" + this._getUnitKey(refDate, unit), { x: start.x, y: start.y });
+            majorGrp.addElement(majorColor);
 
-            return monthGrp;
+            // only show the label if it fits within the header
+            let displayWidth: number = (end.x - start.x) * this._zoomFactor.x;
+            if (displayWidth >= this._estimateLabelWidth(majorLbl) + majorLbl.dimensions.x) {
+                majorGrp.addElement(majorLbl);
+            }
+
+            return majorGrp;
         }
 
         /**...........................................................................
-         * _createMonthLabel
+         * _createMajorLabel
          * ...........................................................................
-         * Create the label for the month
+         * Create the label for a major unit
          * 
-         * @param   refDate     The reference date for the month
+         * @param   refDate     The start of the unit
+         * @param   unit        The unit being labeled
          * 
          * @returns The created text element
          * ...........................................................................
          */
-        private _createMonthLabel(refDate: Date): TextElement {
-
-            // grab the text that we need for the header
-            let monthName: string = Dates.getMonthName(refDate, true);
-            let year: number = Dates.getShortYear(refDate);
+        private _createMajorLabel(refDate: Date, unit: TimeScale): TextElement {
 
             // create the label
-            let monthLbl: TextElement = new TextElement(
-                "month|lbl|" + Dates.shortDate(refDate),
-                (monthName + " " + year),
+            let majorLbl: TextElement = new TextElement(
+                "major|lbl|" + this._getUnitKey(refDate, unit),
+                getTimeScaleLabel(refDate, unit, true),
                 {
                     x: 5,
                     y: 0
@@ -457,30 +971,31 @@ namespace KIP {
             );
 
             // format the label
-            monthLbl.style.fillColor = "#FFF";
-            monthLbl.style.fontSize = 14;
-            monthLbl.fixed = true;
+            majorLbl.style.fillColor = "#FFF";
+            majorLbl.style.fontSize = 14;
+            majorLbl.fixed = true;
 
-            return monthLbl;
+            return majorLbl;
         }
 
         /**...........................................................................
-         * _createMonthColor
+         * _createMajorColor
          * ...........................................................................
-         * Create the month background color
+         * Create the background color for a major unit
          * 
-         * @param   refDate     The reference date for the element
-         * @param   start       The start point for the month header
-         * @param   end         The end point for the month header
+         * @param   refDate     The start of the unit
+         * @param   unit        The unit being colored
+         * @param   start       The start point for the header
+         * @param   end         The end point for the header
          * 
-         * @returns The created month color
+         * @returns The created color
          * ...........................................................................
          */
-        private _createMonthColor(refDate: Date, start: IPoint, end: IPoint): RectangleElement {
+        private _createMajorColor(refDate: Date, unit: TimeScale, start: IPoint, end: IPoint): RectangleElement {
 
             // create the rectangle element & format
-            let monthColor: RectangleElement = new RectangleElement(
-                "month|rect|" + Dates.shortDate(refDate),
+            let majorColor: RectangleElement = new RectangleElement(
+                "major|rect|" + this._getUnitKey(refDate, unit),
                 {
                     x: 0,
                     y: 0,
@@ -488,99 +1003,327 @@ namespace KIP {
                     h: (end.y - start.y)
                 }
             );
-            monthColor.style.fillColor = this._getMonthColor(refDate.getMonth());
 
-            return monthColor;
+            // years cycle through the month colors; anything smaller uses its month's color
+            let colorID: number = refDate.getMonth();
+            if (unit === TimeScale.YEAR) { colorID = refDate.getFullYear() % this._options.MONTH_COLORS.length; }
+            majorColor.style.fillColor = this._getMonthColor(colorID);
+
+            return majorColor;
         }
         //#endregion
 
-        //#region FORMAT THE DAY HEADER
+        //#region FORMAT THE MINOR HEADER
 
         /**...........................................................................
-         * _createDayHeader
+         * _createMinorHeaders
          * ...........................................................................
-         * create a particular header for a day 
-         * 
-         * @param   refDate     The reference date for the day
-         * @param   start       Where the day should start
+         * create the lower header row, with a label for each minor unit
          * 
-         * @returns The created group
+         * @param   headerGroup     The group to add the headers to
+         * @param   extrema         The dates that are visible
+         * @param   scale           The current layout of the headers
+         * @param   unscaledDay     How tall the upper row is
          * ...........................................................................
          */
-        private _createDayHeader(refDate: Date, start: IPoint): CanvasGroup {
+        private _createMinorHeaders(headerGroup: CanvasGroup, extrema: IGenericExtrema<Date>, scale: ITimeScaleDefinition, unscaledDay: number): void {
+            let boundaries: Date[] = this._getUnitBoundaries(extrema, scale.minor);
+
+            // at the coarsest scale, the units can still be too narrow to label
+            // each one, so only label every few
+            let unitWidth: number = scale.days * this._options.DAY_WIDTH * this._zoomFactor.x;
+            let labelEvery: number = Math.max(1, Math.ceil(scale.minWidth / unitWidth));
+
+            for (let i = 0; i < boundaries.length - 1; i += 1) {
+                let start: IPoint = this.convertDateToPoint(boundaries[i]);
+                start.y = this._relativeView.y + unscaledDay;
 
-            // determine if the day would be too small to be useful
-            if ((this._options.DAY_WIDTH * this._zoomFactor.x) < 15) { return null; }
+                let end: IPoint = this.convertDateToPoint(boundaries[i + 1]);
+                let showLabel: boolean = (getTimeScaleOrdinal(boundaries[i], scale.minor) % labelEvery) === 0;
+
+                let minorGrp: CanvasGroup = this._createMinorHeader(boundaries[i], scale.minor, start, end.x - start.x, showLabel);
+                headerGroup.addElement(minorGrp);
+            }
+        }
 
-            // create the day elements
-            let dayLbl: TextElement = this._createDayLabel(refDate);            // The label for the day
-            let dayBG: RectangleElement = this._createDayBackground(refDate);   // Background behind the day
+        /**...........................................................................
+         * _createMinorHeader
+         * ...........................................................................
+         * create a particular header for a minor unit (e.g. a day)
+         * 
+         * @param   refDate     The start of the unit
+         * @param   unit        The unit the header is for
+         * @param   start       Where the unit should start
+         * @param   width       How wide the unit is
+         * @param   showLabel   False if the unit should not be labeled
+         * 
+         * @returns The created group
+         * ...........................................................................
+         */
+        private _createMinorHeader(refDate: Date, unit: TimeScale, start: IPoint, width: number, showLabel: boolean): CanvasGroup {
 
-            // create the group for the day elements
-            let dayGrp: CanvasGroup = new CanvasGroup("day|" + Dates.shortDate(refDate), { x: start.x, y: start.y });
+            // create the group for the unit's elements
+            let minorGrp: CanvasGroup = new CanvasGroup("minor|" + this._getUnitKey(refDate, unit), { x: start.x, y: start.y });
 
             // add the elements to the group
-            dayGrp.addElement(dayBG);
-            dayGrp.addElement(dayLbl);
+            minorGrp.addElement(this._createMinorBackground(refDate, unit, width));
+            if (showLabel) {
+                minorGrp.addElement(this._createMinorLabel(refDate, unit, width));
+            }
 
-            return dayGrp;
+            return minorGrp;
         }
 
         /**...........................................................................
-         * _createDayLabel
+         * _createMinorLabel
          * ...........................................................................
-         * Create the text display for the day
+         * Create the text display for a minor unit
          * 
-         * @param   refDate     The reference date for this date
+         * @param   refDate     The start of the unit
+         * @param   unit        The unit being labeled
+         * @param   width       How wide the unit is
          * 
          * @returns The created text element
          * ...........................................................................
          */
-        protected _createDayLabel(refDate: Date): TextElement {
+        protected _createMinorLabel(refDate: Date, unit: TimeScale, width: number): TextElement {
 
             // create the element
-            let dayLbl: TextElement = new TextElement(
-                "day|lbl|" + refDate.getDate(),
-                refDate.getDate().toString(),
-                { x: (this._options.DAY_WIDTH / 2), y: 0 }
+            let minorLbl: TextElement = new TextElement(
+                "minor|lbl|" + this._getUnitKey(refDate, unit),
+                getTimeScaleLabel(refDate, unit),
+                { x: (width / 2), y: 0 }
             );
 
             // format the label 
-            dayLbl.style.fillColor = "#333";
-            dayLbl.style.fontSize = 12;
-            dayLbl.fixed = true;
-            dayLbl.style.textAlign = "center";
+            minorLbl.style.fillColor = "#333";
+            minorLbl.style.fontSize = 12;
+            minorLbl.fixed = true;
+            minorLbl.style.textAlign = "center";
 
-            return dayLbl;
+            return minorLbl;
         }
 
         /**...........................................................................
-         * _createDayBackground
+         * _createMinorBackground
          * ...........................................................................
-         * Create the day background for the date header
+         * Create the background for a minor unit in the header
          * 
-         * @param   refDate     The reference date 
+         * @param   refDate     The start of the unit
+         * @param   unit        The unit the background is for
+         * @param   width       How wide the unit is
          * 
-         * @returns The created rectabgle element
+         * @returns The created rectangle element
          * ...........................................................................
          */
-        protected _createDayBackground(refDate: Date): RectangleElement {
+        protected _createMinorBackground(refDate: Date, unit: TimeScale, width: number): RectangleElement {
 
-            let dayBG: RectangleElement = new RectangleElement("day|rect|" + refDate.getDate(), {
+            let minorBG: RectangleElement = new RectangleElement("minor|rect|" + this._getUnitKey(refDate, unit), {
                 x: 0,
                 y: 0,
-                w: this._options.DAY_WIDTH,
+                w: width,
                 h: (this._options.DAY_HEIGHT / this._zoomFactor.y) * 0.75
             });
-            dayBG.style.fillColor = this._options.DATE_BG_COLOR;
+            minorBG.style.fillColor = this._options.DATE_BG_COLOR;
 
-            return dayBG;
+            return minorBG;
         }   
 
         //#endregion
 
+        /** create an ID-safe key for a unit, unique across units of any size */
+        private _getUnitKey(refDate: Date, unit: TimeScale): string {
+            return TimeScale[unit] + "|" + (+refDate);
+        }
+
+        /** roughly measure how wide a label will be drawn, in display px */
+        private _estimateLabelWidth(label: TextElement): number {
+            return label.text.length * label.style.fontSize * 0.6;
+        }
+
+        //#region CREATE THE NOW LINE
+
+        /**...........................................................................
+         * _updateNowLine
+         * ...........................................................................
+         * draw a line at the current time, if it's visible; an existing line is
+         * moved so that only where it was and where it is now get repainted
+         * ...........................................................................
+         */
+        private _updateNowLine(): void {
+            let rect: IBasicRect = this._getNowLineRect();
+
+            // remove the line if it is no longer visible
+            if (!rect) {
+                if (!this._nowLine) { return; }
+                this.removeElement("now");
+                this._nowLine = null;
+                return;
+            }
+
+            if (this._nowLine) {
+                this._nowLine.dimensions = rect;
+                return;
+            }
+
+            let nowLine: RectangleElement = new RectangleElement("now", rect);
+            nowLine.style.fillColor = this._options.NOW_LINE_COLOR;
+            nowLine.isSelectable = false;
+            nowLine.isFocusable = false;
+
+            // draw above the elements, but below the headers
+            nowLine.layer = 98;
+            this.addElement(nowLine);
+            this._nowLine = nowLine;
+        }
+
+        /** figure out where the current-time line belongs, or null if it shouldn't be shown */
+        private _getNowLineRect(): IBasicRect {
+            if (!this._options.SHOW_NOW_LINE) { return null; }
+
+            let view: IBasicRect = this._relativeView;
+            let x: number = this.convertDateToPoint(new Date()).x;
+            if (!this._isInView(x)) { return null; }
+
+            // keep the line the same thickness at any zoom level
+            let width: number = this._options.NOW_LINE_WIDTH / this._zoomFactor.x;
+            return {
+                x: x - (width / 2),
+                y: view.y,
+                w: width,
+                h: view.h
+            };
+        }
+
+        /** start or stop moving the current-time line as time passes, while the timeline is drawn */
+        private _updateNowLineTimer(): void {
+            if (this._nowLineInterval) {
+                window.clearInterval(this._nowLineInterval);
+                this._nowLineInterval = null;
+            }
+            if (!this._options.SHOW_NOW_LINE) { return; }
+            if (!this._elems.base.parentNode) { return; }
+
+            this._nowLineInterval = window.setInterval(() => {
+                this._updateNowLine();
+            }, this._options.NOW_LINE_INTERVAL);
+        }
+
+        /** check whether a horizontal position is within the current view */
+        private _isInView(x: number): boolean {
+            let view: IBasicRect = this._relativeView;
+            return (x >= view.x) && (x <= (view.x + view.w));
+        }
+
+        /**...........................................................................
+         * draw
+         * ...........................................................................
+         * draw the timeline, keeping the current-time line up to date while shown
+         *
+         * @param   parent  The parent element to draw on
+         * ...........................................................................
+         */
+        public draw(parent?: HTMLElement): void {
+            super.draw(parent);
+            this._updateNowLineTimer();
+        }
+
+        /**...........................................................................
+         * erase
+         * ...........................................................................
+         * remove the timeline, no longer keeping the current-time line up to date
+         * ...........................................................................
+         */
+        public erase(): void {
+            super.erase();
+            if (!this._nowLineInterval) { return; }
+            window.clearInterval(this._nowLineInterval);
+            this._nowLineInterval = null;
+        }
+
+        //#endregion
+
         //#region CREATE DAY DIVISIONS
 
+        /**...........................................................................
+         * _createDayColumns
+         * ...........................................................................
+         * create a column for each visible day, shaded by its formatting
+         * 
+         * @param   bgGroup     The group to add the columns to
+         * @param   extrema     The dates that are visible
+         * ...........................................................................
+         */
+        private _createDayColumns(bgGroup: CanvasGroup, extrema: IGenericExtrema<Date>): void {
+
+            // loop through all dates in this time range
+            let diff: number = Dates.dateDiff(extrema.max, extrema.min, false, false, false) + 1;
+            for (let i = 0; i < diff; i += 1) {
+
+                // create the date to draw currently
+                let refDate: Date = Dates.addToDate(new Date(extrema.min as any), { days: i });
+                refDate = Dates.clearTimeInfo(refDate);
+
+                // Create the reference point position for the day display
+                let refPt: IPoint = this.convertDateToPoint(refDate);
+
+                // for the first element, the reference point is going to be a little different
+                if (i === 0) {
+                    refPt.x = this._relativeView.x;
+                }
+
+                // Create the day column
+                let dayDivGrp: CanvasGroup = this._createDayDivisions(refDate, refPt);
+                bgGroup.addElement(dayDivGrp);
+            }
+        }
+
+        /**...........................................................................
+         * _createUnitColumns
+         * ...........................................................................
+         * create a plain column for each visible unit, for when days are too
+         * narrow to shade individually
+         * 
+         * @param   bgGroup     The group to add the columns to
+         * @param   extrema     The dates that are visible
+         * @param   unit        The unit each column represents
+         * ...........................................................................
+         */
+        private _createUnitColumns(bgGroup: CanvasGroup, extrema: IGenericExtrema<Date>, unit: TimeScale): void {
+            let boundaries: Date[] = this._getUnitBoundaries(extrema, unit);
+
+            for (let i = 0; i < boundaries.length - 1; i += 1) {
+                let start: IPoint = this.convertDateToPoint(boundaries[i]);
+                let end: IPoint = this.convertDateToPoint(boundaries[i + 1]);
+
+                // draw the right hand border for the unit
+                let onePix: number = 1 / this._zoomFactor.x;
+                let key: string = this._getUnitKey(boundaries[i], unit);
+                let borderRight: RectangleElement = new RectangleElement("unit|b.right|" + key, {
+                    x: (end.x - start.x) - onePix,
+                    y: 0,
+                    w: onePix,
+                    h: this._relativeView.h
+                });
+                borderRight.style.fillColor = this._options.BORDER_COLOR;
+
+                let bg: RectangleElement = new RectangleElement("unit|bg|" + key, {
+                    x: 0,
+                    y: 0,
+                    w: (end.x - start.x),
+                    h: this._relativeView.h
+                });
+                bg.style.fillColor = this._options.DAY_FORMATTING.NORMAL;
+
+                let unitDivGrp: CanvasGroup = new CanvasGroup("unit|division|" + key, { x: start.x, y: this._relativeView.y });
+                unitDivGrp.addElement(bg);
+                unitDivGrp.addElement(borderRight);
+
+                bgGroup.addElement(unitDivGrp);
+            }
+        }
+
+
         /**...........................................................................
          * _createDayDivisions
          * ...........................................................................
@@ -646,15 +1389,21 @@ namespace KIP {
          */
         private _getDayFormatting(date: Date): ProjectDayFormatting {
             // create the day divisions
-            let formatting; ProjectDayFormatting;
+            let formatting: ProjectDayFormatting;
+            let calendar: Dates.HolidayCalendar = this._options.HOLIDAY_CALENDAR;
 
             // HANDLE TODAY
             if (Dates.isToday(date)) {
                 formatting = ProjectDayFormatting.TODAY;
             }
 
+            // HANDLE HOLIDAYS
+            else if (calendar && calendar.isHoliday(date)) {
+                formatting = ProjectDayFormatting.HOLIDAY;
+            }
+
             // HANDLE WEEKEND
-            else if (Dates.isWeekend(date)) {
+            else if (Dates.isWeekend(date, calendar)) {
                 formatting = ProjectDayFormatting.WEEKEND;
             }
 
@@ -0,0 +1,381 @@
+///<reference path="../canvas/pathElement.ts" />
+namespace KIP {
+
+    /**...........................................................................
+     * DependencyType
+     * ...........................................................................
+     * Keep track of how one timespan depends on another
+     * ...........................................................................
+     */
+    export enum DependencyType {
+
+        /** the successor can't start until the predecessor finishes */
+        FINISH_TO_START = 0,
+
+        /** the successor can't start until the predecessor starts */
+        START_TO_START = 1,
+
+        /** the successor can't finish until the predecessor finishes */
+        FINISH_TO_FINISH = 2
+    };
+
+    /**...........................................................................
+     * ITimelineDependencyOptions
+     * ...........................................................................
+     * display & scheduling options for a dependency
+     * ...........................................................................
+     */
+    export interface ITimelineDependencyOptions {
+
+        /** what color the arrow should be drawn in */
+        COLOR?: string;
+
+        /** what color the arrow should be drawn in when the schedule breaks it */
+        CONFLICT_COLOR?: string;
+
+        /** how thick the line should be, in px */
+        LINE_WIDTH?: number;
+
+        /** how big the arrowhead should be, in px */
+        ARROW_SIZE?: number;
+
+        /** how far the line should extend from a span before turning, in px */
+        STUB_LENGTH?: number;
+
+        /** how many days must pass between the two linked dates */
+        LAG?: number;
+    }
+
+    /**...........................................................................
+     * IScheduleConflict
+     * ...........................................................................
+     * A dependency that the current dates don't satisfy
+     * ...........................................................................
+     */
+    export interface IScheduleConflict {
+
+        /** the dependency that isn't satisfied */
+        dependency: TimelineDependency;
+
+        /** how many days the successor would need to move later to satisfy it */
+        days: number;
+    }
+
+    /** how many milliseconds are in a day */
+    const MS_PER_DAY: number = 1000 * 60 * 60 * 24;
+
+    /**...........................................................................
+     * @class TimelineDependency
+     * ...........................................................................
+     * Draws an arrow from one timespan to another that depends on it, routing
+     * the line around the spans as they move
+     * @version 1.0
+     * ...........................................................................
+     */
+    export class TimelineDependency extends PathElement {
+
+        //#region PROPERTIES
+
+        /** the span that must happen first */
+        protected _predecessor: Timespan;
+        public get predecessor(): Timespan { return this._predecessor; }
+
+        /** the span that depends on the predecessor */
+        protected _successor: Timespan;
+        public get successor(): Timespan { return this._successor; }
+
+        /** how the spans are linked */
+        protected _dependencyType: DependencyType;
+        public get dependencyType(): DependencyType { return this._dependencyType; }
+
+        /** options for displaying the dependency */
+        protected _options: ITimelineDependencyOptions;
+        public get options(): ITimelineDependencyOptions { return this._options; }
+
+        /** which way the arrow points into the successor (1 = right, -1 = left) */
+        protected _arrowDirection: number;
+
+        /** the canvas the dependency is drawn on */
+        protected _canvas: Timeline;
+
+        //#endregion
+
+        /**...........................................................................
+         * Create a dependency between two timespans
+         *
+         * @param   id              Unique ID for the dependency
+         * @param   predecessor     The span that must happen first
+         * @param   successor       The span that depends on the predecessor
+         * @param   type            How the spans are linked
+         * @param   options         How the dependency should be displayed
+         * ...........................................................................
+         */
+        constructor(id: string, predecessor: Timespan, successor: Timespan, type?: DependencyType, options?: ITimelineDependencyOptions) {
+            super(id);
+            this._predecessor = predecessor;
+            this._successor = successor;
+            this._dependencyType = type || DependencyType.FINISH_TO_START;
+            this._options = reconcileOptions(options, this._createDefaultOptions());
+            this._arrowDirection = 1;
+
+            this.isSelectable = false;
+            this.isFocusable = false;
+            this._updateStyle();
+        }
+
+        /**...........................................................................
+         * _createDefaultOptions
+         * ...........................................................................
+         * create the default options for a dependency
+         * ...........................................................................
+         */
+        protected _createDefaultOptions(): ITimelineDependencyOptions {
+            return {
+                COLOR: "#555",
+                CONFLICT_COLOR: "#C00",
+                LINE_WIDTH: 1,
+                ARROW_SIZE: 6,
+                STUB_LENGTH: 8,
+                LAG: 0
+            };
+        }
+
+        //#region SCHEDULING
+
+        /**...........................................................................
+         * getRequiredDate
+         * ...........................................................................
+         * Find the earliest date the successor's linked edge can be at
+         *
+         * @returns The earliest allowed start (or finish, for finish-to-finish)
+         * ...........................................................................
+         */
+        public getRequiredDate(): Date {
+            let driving: Date;
+            if (this._dependencyType === DependencyType.START_TO_START) {
+                driving = this._predecessor.startDate;
+            } else {
+                driving = this._predecessor.endDate;
+            }
+
+            return new Date((+driving) + (this._options.LAG * MS_PER_DAY));
+        }
+
+        /**...........................................................................
+         * getSlack
+         * ...........................................................................
+         * Find how much room the successor has before it breaks this dependency
+         *
+         * @returns The number of days of slack; negative if the dependency is broken
+         * ...........................................................................
+         */
+        public getSlack(): number {
+            let linked: Date;
+            if (this._dependencyType === DependencyType.FINISH_TO_FINISH) {
+                linked = this._successor.endDate;
+            } else {
+                linked = this._successor.startDate;
+            }
+
+            return ((+linked) - (+this.getRequiredDate())) / MS_PER_DAY;
+        }
+
+        /** true if the current dates don't satisfy this dependency */
+        public get isConflicting(): boolean {
+            return this.getSlack() < 0;
+        }
+
+        //#endregion
+
+        //#region ROUTING
+
+        /**...........................................................................
+         * route
+         * ...........................................................................
+         * Recalculate the path of the arrow from where the spans currently are
+         * ...........................................................................
+         */
+        public route(): void {
+            if (!this._canvas) { return; }
+
+            let from: IBasicRect = this._predecessor.dimensions;
+            let to: IBasicRect = this._successor.dimensions;
+            if (!from || !to) { return; }
+
+            // there's nothing to point at if either span is hidden (e.g. in a collapsed group)
+            if (this._predecessor.isHidden || this._successor.isHidden) {
+                this.hide();
+                return;
+            }
+            this.show();
+
+            // the stub length is in display px, so it stays the same at any zoom level
+            let stub: number = this._options.STUB_LENGTH / this._canvas.zoomFactor.x;
+
+            // leave from the edge the dependency is linked to
+            let exitDirection: number = (this._dependencyType === DependencyType.START_TO_START) ? -1 : 1;
+            let start: IPoint = {
+                x: (exitDirection > 0) ? (from.x + from.w) : from.x,
+                y: from.y + (from.h / 2)
+            };
+
+            // arrive at the edge the dependency is linked to
+            let entryDirection: number = (this._dependencyType === DependencyType.FINISH_TO_FINISH) ? -1 : 1;
+            let end: IPoint = {
+                x: (entryDirection > 0) ? to.x : (to.x + to.w),
+                y: to.y + (to.h / 2)
+            };
+
+            let exitX: number = start.x + (exitDirection * stub);
+            let entryX: number = end.x - (entryDirection * stub);
+
+            let points: IPoint[] = [start];
+
+            // start-to-start & finish-to-finish wrap around the outside of both spans
+            if (exitDirection !== entryDirection) {
+                let x: number = (exitDirection > 0) ? Math.max(exitX, entryX) : Math.min(exitX, entryX);
+                points.push({ x: x, y: start.y }, { x: x, y: end.y });
+
+            // finish-to-start can drop straight down if there's room before the successor
+            } else if (entryX >= exitX) {
+                points.push({ x: exitX, y: start.y }, { x: exitX, y: end.y });
+
+            // otherwise, double back between the two spans
+            } else {
+                let y: number = this._getGapBetween(from, to);
+                points.push(
+                    { x: exitX, y: start.y },
+                    { x: exitX, y: y },
+                    { x: entryX, y: y },
+                    { x: entryX, y: end.y }
+                );
+            }
+
+            points.push(end);
+
+            this._arrowDirection = entryDirection;
+            this.setPoints(points);
+            this._updateStyle();
+        }
+
+        /**...........................................................................
+         * setPoints
+         * ...........................................................................
+         * Replace the points of the path, repainting where it was and where it
+         * now is
+         *
+         * @param   points  The new points for the path
+         * ...........................................................................
+         */
+        public setPoints(points: IPoint[]): void {
+            this.markDirty();
+
+            this._points = points;
+
+            let minX: number = Infinity;
+            let minY: number = Infinity;
+            let maxX: number = -Infinity;
+            let maxY: number = -Infinity;
+            for (let pt of points) {
+                minX = Math.min(minX, pt.x);
+                minY = Math.min(minY, pt.y);
+                maxX = Math.max(maxX, pt.x);
+                maxY = Math.max(maxY, pt.y);
+            }
+
+            this._dimensions = {
+                x: minX,
+                y: minY,
+                w: maxX - minX,
+                h: maxY - minY
+            };
+            this._notifyDimensionsChanged();
+
+            if (this._canvas) { this.updateDimensions(this._canvas.relativeView); }
+            this.markDirty();
+        }
+
+        /** 
+         * find a y-position to route a line through, staying close to the 
+         * predecessor so the line doesn't cut through any rows in between
+         */
+        protected _getGapBetween(from: IBasicRect, to: IBasicRect): number {
+            let fromBottom: number = from.y + from.h;
+            let toBottom: number = to.y + to.h;
+            let offset: number = (this._options.STUB_LENGTH / this._canvas.zoomFactor.y) / 2;
+
+            if (to.y >= fromBottom) { return fromBottom + Math.min(offset, (to.y - fromBottom) / 2); }
+            if (from.y >= toBottom) { return from.y - Math.min(offset, (from.y - toBottom) / 2); }
+
+            // the spans overlap vertically, so go below both of them
+            return Math.max(fromBottom, toBottom) + offset;
+        }
+
+        //#endregion
+
+        //#region DRAWING
+
+        /** show conflicts in a different color */
+        protected _updateStyle(): void {
+            let color: string = this.isConflicting ? this._options.CONFLICT_COLOR : this._options.COLOR;
+            this._style.strokeColor = color;
+            this._style.fillColor = color;
+            this._style.strokeSize = this._options.LINE_WIDTH;
+        }
+
+        /**...........................................................................
+         * _onDraw
+         * ...........................................................................
+         * Draw the line of the dependency, with an arrowhead at the successor
+         *
+         * @param   context     The context to draw on
+         * ...........................................................................
+         */
+        protected _onDraw(context: CanvasRenderingContext2D): void {
+            let points: IPoint[] = this._displayPoints;
+            if (!points || points.length < 2) { return; }
+
+            // draw the line itself
+            context.beginPath();
+            context.moveTo(points[0].x, points[0].y);
+            for (let i = 1; i < points.length; i += 1) {
+                context.lineTo(points[i].x, points[i].y);
+            }
+            context.stroke();
+
+            // draw the arrowhead pointing into the successor
+            let tip: IPoint = points[points.length - 1];
+            let size: number = this._options.ARROW_SIZE;
+            let back: number = tip.x - (this._arrowDirection * size);
+
+            context.beginPath();
+            context.moveTo(tip.x, tip.y);
+            context.lineTo(back, tip.y - (size / 2));
+            context.lineTo(back, tip.y + (size / 2));
+            context.closePath();
+            context.fill();
+        }
+
+        /** include the arrowhead when repainting */
+        protected _padForRepaint(rect: IBasicRect): IBasicRect {
+            let padded: IBasicRect = super._padForRepaint(rect);
+            let size: number = this._options.ARROW_SIZE;
+            return {
+                x: padded.x - size,
+                y: padded.y - size,
+                w: padded.w + (2 * size),
+                h: padded.h + (2 * size)
+            };
+        }
+
+        //#endregion
+
+        /** clone in order to be able to apply various effects */
+        protected _cloneForEffect(id: string): TimelineDependency {
+            let out: TimelineDependency = new TimelineDependency(id, this._predecessor, this._successor, this._dependencyType, this._options);
+            out._points = clonePointArray(this._points);
+            out._arrowDirection = this._arrowDirection;
+            return out;
+        }
+    }
+}
@@ -32,7 +32,7 @@ namespace KIP {
         public get isCollapsed(): boolean { return this._isCollapsed; }
 
         /** handle options for the group */
-        private _options: ITimelineGroupOptions;
+        protected _options: ITimelineGroupOptions;
 
         //#endregion
 
@@ -142,6 +142,9 @@ namespace KIP {
          */
         protected _setCanvas (canvas: Timeline) : void {
             super._setCanvas(canvas);
+
+            // elements may have moved once they had a canvas, and hidden ones shouldn't count
+            this._recalculateDimensions();
         }
 
         // TODO: create sort function
@@ -149,6 +152,95 @@ namespace KIP {
 
         }
 
+        //#region REFLOW
+
+        /**...........................................................................
+         * reflow
+         * ...........................................................................
+         * restack the elements of this group (and any nested groups) so that
+         * hidden elements no longer take up space, then resize to fit
+         * ...........................................................................
+         */
+        public reflow (): void {
+            let bottom: number = this._referencePoint.y;
+
+            for (let elem of this._elements.toValueArray()) {
+
+                // nested groups need to know their own size first
+                if (elem instanceof TimelineGroup) { elem.reflow(); }
+
+                if (this._options.HORIZONTAL) { continue; }
+                if (elem.isHidden) { continue; }
+
+                let shift: number = (bottom + this._options.ELEMENT_GAP) - elem.dimensions.y;
+                if (shift !== 0) { elem.adjustDimensions({ x: 0, y: shift }); }
+
+                bottom = elem.dimensions.y + elem.dimensions.h;
+            }
+
+            this._recalculateDimensions();
+        }
+
+        /**...........................................................................
+         * updateElementIndex
+         * ...........................................................................
+         * hidden elements don't take up space, so don't let them grow the group
+         * 
+         * @param   elem    The element that changed
+         * ...........................................................................
+         */
+        public updateElementIndex (elem: CanvasElement): void {
+            super.updateElementIndex(elem);
+            if (elem.isHidden) { this._recalculateDimensions(); }
+        }
+
+        /**...........................................................................
+         * _recalculateDimensions
+         * ...........................................................................
+         * size the group to fit its visible elements, allowing it to shrink
+         * 
+         * @param   additionalRects     Anything else the group needs to cover
+         * ...........................................................................
+         */
+        protected _recalculateDimensions (additionalRects?: IBasicRect[]): void {
+            let dim: IBasicRect = {
+                x: this._referencePoint.x,
+                y: this._referencePoint.y,
+                w: 0,
+                h: 0
+            };
+
+            let rects: IBasicRect[] = this._getVisibleRects().concat(additionalRects || []);
+            for (let rect of rects) {
+                let right: number = Math.max(dim.x + dim.w, rect.x + rect.w);
+                let bottom: number = Math.max(dim.y + dim.h, rect.y + rect.h);
+                dim.x = Math.min(dim.x, rect.x);
+                dim.y = Math.min(dim.y, rect.y);
+                dim.w = right - dim.x;
+                dim.h = bottom - dim.y;
+            }
+
+            this._dimensions = dim;
+            this._notifyDimensionsChanged();
+        }
+
+        /** 
+         * get the dimensions of everything in the group that is currently shown.
+         * This can run while the elements are being looped over (e.g. as they're 
+         * shifted), so it doesn't use the collection's iterator.
+         */
+        protected _getVisibleRects (): IBasicRect[] {
+            let out: IBasicRect[] = [];
+            for (let i = 0; i < this._elements.length; i += 1) {
+                let elem: TimelineElement = this._elements.getValue(i);
+                if (!elem || elem.isHidden) { continue; }
+                out.push(elem.dimensions);
+            }
+            return out;
+        }
+
+        //#endregion
+
         public 
 
         /**...........................................................................
@@ -35,6 +35,9 @@ namespace KIP {
         /** the canvas we are drawing upon */
         protected _canvas: Timeline;
 
+        /** labels stick to the edge of the view, away from their dimensions, so they can't be indexed */
+        public get isSpatiallyIndexed(): boolean { return false; }
+
         /**...........................................................................
          * Create a TimelineLabel
          * @param   id      Unique identifier for the label
@@ -53,6 +53,26 @@ namespace KIP {
             this._calculatePosition();
         }
 
+        /** 
+         * when dragged or resized, the timeline keeps control of the vertical 
+         * position while the horizontal position becomes the new dates
+         */
+        public applyDimensions(dim: IBasicRect): void {
+            super.applyDimensions({
+                x: dim.x,
+                y: this._dimensions.y,
+                w: dim.w,
+                h: this._dimensions.h
+            });
+
+            if (!this._canvas) { return; }
+            this._startDate = this._canvas.convertPointToDate({ x: dim.x, y: 0 });
+            this._endDate = this._canvas.convertPointToDate({ x: dim.x + dim.w, y: 0 });
+
+            // keep any arrows to or from this span attached
+            this._canvas.rerouteDependencies(this);
+        }
+
         /** sets the appropriate position for the element */
         private _calculatePosition(): void {
 